@@ -0,0 +1,347 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  Attachment,
+  AttachmentInput,
+  AttachmentRow,
+  Note,
+  NoteInput,
+  NoteRow,
+  rowToNote
+} from './types';
+
+interface StoreData {
+  seq: number; // Last server_seq handed out
+  notes: Record<string, NoteRow>;
+  attachments: Record<string, AttachmentRow>;
+}
+
+export interface NoteFields {
+  title: string;
+  content: string;
+  attachments?: Attachment[];
+  tags?: string[];
+  notebookId?: string | null;
+}
+
+export interface AttachmentFields {
+  url?: string;
+  screenshotData?: string;
+  screenshotType?: 'visible' | 'full' | 'area' | 'element';
+}
+
+const EMPTY_DATA: StoreData = { seq: 0, notes: {}, attachments: {} };
+
+// Same format as the extension's timestamps
+const formatTimestamp = (): string => new Date().toISOString().slice(0, 19);
+
+const isRichText = (content: string): boolean => /<[a-z][\s\S]*>/i.test(content);
+
+/**
+ * NoteStore keeps notes in one JSON file
+ *
+ * Notes are stored as sync rows, so the REST methods (named after the
+ * extension's DBProxy) and the sync methods work on the same records: every
+ * write takes the next server_seq and shows up in the next pull. Changes
+ * are applied in memory and written out before the call returns; writes
+ * go to a temporary file first so a crash never leaves half a file behind.
+ */
+export class NoteStore {
+  private data: StoreData;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private filePath: string, data: StoreData) {
+    this.data = data;
+  }
+
+  static async open(filePath: string): Promise<NoteStore> {
+    let data: StoreData = { ...EMPTY_DATA, notes: {}, attachments: {} };
+    try {
+      data = { ...data, ...JSON.parse(await fs.readFile(filePath, 'utf8')) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read ${filePath}: ${(error as Error).message}`);
+      }
+    }
+    return new NoteStore(filePath, data);
+  }
+
+  async getNote(id: string): Promise<Note | null> {
+    const row = this.getLiveRow(id);
+    return row ? rowToNote(row) : null;
+  }
+
+  async getAllNotes(): Promise<Note[]> {
+    return Object.values(this.data.notes)
+      .filter(row => !row.purged_at && !row.deleted_at)
+      .map(rowToNote);
+  }
+
+  async createNote(fields: NoteFields): Promise<Note> {
+    const timestamp = formatTimestamp();
+    const id = randomUUID();
+    const attachments = this.storeAttachments(id, fields.attachments || [], timestamp);
+
+    if (!fields.title.trim() && !fields.content.trim() && attachments.length === 0) {
+      throw new Error('Note must have either title, content, or attachments');
+    }
+
+    const row = this.putNote({
+      id,
+      title: fields.title.trim() || 'Untitled Note',
+      content: fields.content.trim(),
+      is_rich_text: isRichText(fields.content),
+      tags: fields.tags || [],
+      notebook_id: fields.notebookId || null,
+      attachments,
+      created_at: timestamp,
+      updated_at: timestamp,
+      version: 1,
+      deleted_at: null,
+      purged_at: null,
+      parents: null
+    });
+    await this.persist();
+    return rowToNote(row);
+  }
+
+  /**
+   * Save a new version of a note
+   * Pass the version the edit was made against to fail with a version
+   * conflict when someone else saved in the meantime. Attachments and tags
+   * are kept as they are when left out.
+   */
+  async updateNote(id: string, fields: NoteFields, expectedVersion?: number): Promise<Note> {
+    const existing = this.requireLiveRow(id);
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new Error('Version conflict - note was modified elsewhere');
+    }
+
+    const timestamp = formatTimestamp();
+    let attachments = existing.attachments;
+    if (fields.attachments) {
+      attachments = this.storeAttachments(id, fields.attachments, timestamp);
+      const keptIds = new Set(attachments.map(attachment => attachment.id));
+      existing.attachments
+        .filter(attachment => !keptIds.has(attachment.id))
+        .forEach(attachment => this.deleteAttachmentData(attachment.id, timestamp));
+    }
+
+    const row = this.putNote({
+      ...existing,
+      title: fields.title.trim() || 'Untitled Note',
+      content: fields.content.trim(),
+      is_rich_text: isRichText(fields.content),
+      tags: fields.tags ?? existing.tags,
+      attachments,
+      updated_at: timestamp,
+      version: existing.version + 1,
+      parents: null
+    });
+    await this.persist();
+    return rowToNote(row);
+  }
+
+  /**
+   * Move a note to the trash
+   * This is a new version like any other change, so devices pulling the
+   * note take the trashed copy over the one they have.
+   */
+  async deleteNote(id: string): Promise<void> {
+    const existing = this.requireLiveRow(id);
+    if (existing.deleted_at) {
+      return;
+    }
+    const timestamp = formatTimestamp();
+    this.putNote({
+      ...existing,
+      deleted_at: timestamp,
+      updated_at: timestamp,
+      version: existing.version + 1
+    });
+    await this.persist();
+  }
+
+  async addAttachment(noteId: string, fields: AttachmentFields): Promise<Note> {
+    const existing = this.requireLiveRow(noteId);
+    const timestamp = formatTimestamp();
+    const [reference] = this.storeAttachments(noteId, [{
+      type: fields.screenshotData ? 'screenshot' : 'url',
+      id: this.nextAttachmentId(),
+      url: fields.url,
+      screenshotData: fields.screenshotData,
+      screenshotType: fields.screenshotType,
+      createdAt: timestamp,
+      syncStatus: 'synced'
+    }], timestamp);
+
+    const row = this.putNote({
+      ...existing,
+      attachments: [...existing.attachments, reference],
+      updated_at: timestamp,
+      version: existing.version + 1
+    });
+    await this.persist();
+    return rowToNote(row);
+  }
+
+  async removeAttachment(noteId: string, attachmentId: number): Promise<Note> {
+    const existing = this.requireLiveRow(noteId);
+    if (!existing.attachments.some(attachment => attachment.id === attachmentId)) {
+      return rowToNote(existing);
+    }
+
+    const timestamp = formatTimestamp();
+    this.deleteAttachmentData(attachmentId, timestamp);
+    const row = this.putNote({
+      ...existing,
+      attachments: existing.attachments.filter(attachment => attachment.id !== attachmentId),
+      updated_at: timestamp,
+      version: existing.version + 1
+    });
+    await this.persist();
+    return rowToNote(row);
+  }
+
+  /**
+   * Full image data of an attachment as a data URL, or null
+   */
+  async getAttachmentData(attachmentId: number): Promise<string | null> {
+    return this.data.attachments[attachmentId]?.data ?? null;
+  }
+
+  // Sync methods; the counterpart of SyncRemote in the extension
+
+  async pullNotes(after: number, limit: number): Promise<NoteRow[]> {
+    return this.pull(Object.values(this.data.notes), after, limit);
+  }
+
+  async pullAttachments(after: number, limit: number): Promise<AttachmentRow[]> {
+    return this.pull(Object.values(this.data.attachments), after, limit);
+  }
+
+  /**
+   * Store notes pushed by a client as they are
+   * Clients detect conflicts themselves when they pull, so the last push wins.
+   */
+  async pushNotes(rows: NoteInput[]): Promise<void> {
+    rows.forEach(row => this.putNote(row));
+    await this.persist();
+  }
+
+  /**
+   * Leave a tombstone for a note deleted for good, and drop its attachment data
+   */
+  async purgeNote(noteId: string, purgedAt: string): Promise<void> {
+    this.putNote({
+      id: noteId,
+      title: '',
+      content: '',
+      is_rich_text: false,
+      tags: [],
+      notebook_id: null,
+      attachments: [],
+      created_at: purgedAt,
+      updated_at: purgedAt,
+      version: 0,
+      deleted_at: purgedAt,
+      purged_at: purgedAt,
+      parents: null
+    });
+    Object.values(this.data.attachments)
+      .filter(row => row.note_id === noteId && !row.deleted_at)
+      .forEach(row => this.deleteAttachmentData(row.id, purgedAt));
+    await this.persist();
+  }
+
+  async pushAttachment(row: AttachmentInput): Promise<void> {
+    this.data.attachments[row.id] = { ...row, server_seq: this.nextSeq() };
+    await this.persist();
+  }
+
+  private getLiveRow(id: string): NoteRow | null {
+    const row = this.data.notes[id];
+    return row && !row.purged_at ? row : null;
+  }
+
+  private requireLiveRow(id: string): NoteRow {
+    const row = this.getLiveRow(id);
+    if (!row) {
+      throw new Error('Note not found');
+    }
+    return row;
+  }
+
+  private putNote(input: NoteInput | NoteRow): NoteRow {
+    const row: NoteRow = { ...input, server_seq: this.nextSeq() };
+    this.data.notes[row.id] = row;
+    return row;
+  }
+
+  /**
+   * Move image data out of the attachments into attachment rows,
+   * returning the references to keep on the note
+   */
+  private storeAttachments(noteId: string, attachments: Attachment[], timestamp: string): Attachment[] {
+    return attachments.map(attachment => {
+      const { screenshotData, ...reference } = attachment;
+      const id = reference.id || this.nextAttachmentId();
+      if (screenshotData) {
+        this.data.attachments[id] = {
+          id,
+          note_id: noteId,
+          data: screenshotData,
+          encrypted_type: null,
+          deleted_at: null,
+          server_seq: this.nextSeq()
+        };
+      }
+      return { ...reference, id, createdAt: reference.createdAt || timestamp, syncStatus: 'synced' };
+    });
+  }
+
+  private deleteAttachmentData(attachmentId: number, timestamp: string): void {
+    const row = this.data.attachments[attachmentId];
+    if (row && !row.deleted_at) {
+      this.data.attachments[attachmentId] = { ...row, data: null, deleted_at: timestamp, server_seq: this.nextSeq() };
+    }
+  }
+
+  private pull<T extends { server_seq: number }>(rows: T[], after: number, limit: number): T[] {
+    return rows
+      .filter(row => row.server_seq > after)
+      .sort((a, b) => a.server_seq - b.server_seq)
+      .slice(0, limit);
+  }
+
+  private nextSeq(): number {
+    return ++this.data.seq;
+  }
+
+  // Attachment IDs are timestamps in the extension; keep them unique here
+  private nextAttachmentId(): number {
+    let id = Date.now();
+    while (this.data.attachments[id] || this.isReferenced(id)) id++;
+    return id;
+  }
+
+  private isReferenced(attachmentId: number): boolean {
+    return Object.values(this.data.notes).some(row =>
+      row.attachments.some(attachment => attachment.id === attachmentId)
+    );
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.data);
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot);
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
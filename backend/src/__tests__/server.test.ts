@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import http from 'http';
+import { NoteStore } from '../NoteStore';
+import { createServer } from '../server';
+
+const SCREENSHOT = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('notes server', () => {
+  let dataDir: string;
+  let dataFile: string;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const start = async (apiKey?: string) => {
+    const store = await NoteStore.open(dataFile);
+    server = createServer(store, { apiKey });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const stop = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  const call = async (method: string, route: string, body?: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const payload = await response.json() as { data?: any; error?: string };
+    return { status: response.status, ...payload };
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'notes-server-'));
+    dataFile = path.join(dataDir, 'notes.json');
+    await start();
+  });
+
+  afterEach(async () => {
+    await stop();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('creates a note and reads it back', async () => {
+    const created = await call('POST', '/notes', { title: ' Groceries ', content: '<p>Milk</p>', tags: ['home'] });
+    expect(created.status).toBe(201);
+    expect(created.data).toMatchObject({ title: 'Groceries', isRichText: true, version: 1, tags: ['home'] });
+
+    const fetched = await call('GET', `/notes/${created.data.id}`);
+    expect(fetched.data).toEqual(created.data);
+
+    const all = await call('GET', '/notes');
+    expect(all.data.map((note: { id: string }) => note.id)).toEqual([created.data.id]);
+  });
+
+  it('rejects an empty note and unknown IDs', async () => {
+    expect((await call('POST', '/notes', { title: ' ', content: '' })).status).toBe(400);
+    const missing = await call('GET', '/notes/nope');
+    expect(missing).toEqual({ status: 404, error: 'Note not found' });
+    expect((await call('PUT', '/notes/nope', { title: 'A', content: '' })).status).toBe(404);
+  });
+
+  it('updates a note only against its current version', async () => {
+    const { data: note } = await call('POST', '/notes', { title: 'Draft', content: 'one' });
+
+    const updated = await call('PUT', `/notes/${note.id}`, { title: 'Draft', content: 'two', version: 1 });
+    expect(updated.data).toMatchObject({ content: 'two', version: 2 });
+
+    const stale = await call('PUT', `/notes/${note.id}`, { title: 'Draft', content: 'three', version: 1 });
+    expect(stale).toEqual({ status: 409, error: 'Version conflict - note was modified elsewhere' });
+    expect((await call('GET', `/notes/${note.id}`)).data.content).toBe('two');
+
+    // Without a version the update always goes through
+    const forced = await call('PUT', `/notes/${note.id}`, { title: 'Draft', content: 'four' });
+    expect(forced.data.version).toBe(3);
+  });
+
+  it('moves deleted notes out of the list', async () => {
+    const { data: note } = await call('POST', '/notes', { title: 'Old', content: '' });
+    expect((await call('DELETE', `/notes/${note.id}`)).status).toBe(200);
+
+    expect((await call('GET', '/notes')).data).toEqual([]);
+    const trashed = (await call('GET', `/notes/${note.id}`)).data;
+    expect(trashed.deletedAt).toBeDefined();
+    expect(trashed.version).toBe(2);
+  });
+
+  it('adds and removes attachments, keeping image data apart from the note', async () => {
+    const { data: note } = await call('POST', '/notes', { title: 'Shots', content: '' });
+
+    const added = await call('POST', `/notes/${note.id}/attachments`, {
+      url: 'https://example.com',
+      screenshotData: SCREENSHOT,
+      screenshotType: 'visible'
+    });
+    expect(added.status).toBe(201);
+    expect(added.data.version).toBe(2);
+    const [attachment] = added.data.attachments;
+    expect(attachment).toMatchObject({ type: 'screenshot', url: 'https://example.com' });
+    expect(attachment.screenshotData).toBeUndefined();
+    expect((await call('GET', `/attachments/${attachment.id}`)).data).toBe(SCREENSHOT);
+
+    const removed = await call('DELETE', `/notes/${note.id}/attachments/${attachment.id}`);
+    expect(removed.data).toMatchObject({ attachments: [], version: 3 });
+    expect((await call('GET', `/attachments/${attachment.id}`)).data).toBeNull();
+  });
+
+  it('keeps notes across restarts', async () => {
+    const { data: note } = await call('POST', '/notes', { title: 'Kept', content: 'on disk' });
+    await stop();
+    await start();
+
+    expect((await call('GET', `/notes/${note.id}`)).data).toEqual(note);
+  });
+
+  it('requires the API key when one is set', async () => {
+    await stop();
+    await start('secret');
+
+    expect(await call('GET', '/notes')).toEqual({ status: 401, error: 'Missing or wrong API key' });
+    expect((await call('GET', '/notes', undefined, { Authorization: 'Bearer secret' })).status).toBe(200);
+  });
+
+  it('rejects malformed requests', async () => {
+    const response = await fetch(`${baseUrl}/notes`, { method: 'POST', body: '{not json' });
+    expect(response.status).toBe(400);
+    expect((await call('GET', '/nowhere')).status).toBe(404);
+    expect((await call('PATCH', '/notes')).status).toBe(405);
+  });
+
+  describe('sync', () => {
+    const row = (id: string, version: number) => ({
+      id,
+      title: `Note ${id}`,
+      content: '',
+      is_rich_text: false,
+      tags: [],
+      notebook_id: null,
+      attachments: [],
+      created_at: '2024-01-01T00:00:00',
+      updated_at: '2024-01-01T00:00:00',
+      version,
+      deleted_at: null,
+      purged_at: null,
+      parents: null
+    });
+
+    it('pulls pushed notes and REST writes in server_seq order', async () => {
+      await call('PUT', '/sync/notes', [row('a', 1), row('b', 4)]);
+      const { data: created } = await call('POST', '/notes', { title: 'From REST', content: '' });
+
+      const firstPage = await call('GET', '/sync/notes?after=0&limit=2');
+      expect(firstPage.data.map((note: { id: string }) => note.id)).toEqual(['a', 'b']);
+      const cursor = firstPage.data[1].server_seq;
+
+      const nextPage = await call('GET', `/sync/notes?after=${cursor}&limit=2`);
+      expect(nextPage.data.map((note: { id: string }) => note.id)).toEqual([created.id]);
+
+      // A pushed note is served by the REST routes too
+      expect((await call('GET', '/notes/b')).data).toMatchObject({ title: 'Note b', version: 4 });
+    });
+
+    it('leaves tombstones for purged notes and their attachments', async () => {
+      await call('PUT', '/sync/notes', [row('a', 1)]);
+      await call('PUT', '/sync/attachments', {
+        id: 7, note_id: 'a', data: SCREENSHOT, encrypted_type: null, deleted_at: null
+      });
+      const { data: before } = await call('GET', '/sync/attachments?after=0');
+      expect(before).toHaveLength(1);
+
+      await call('POST', '/sync/notes/a/purge', { purgedAt: '2024-02-01T00:00:00' });
+
+      const { data: notes } = await call('GET', '/sync/notes?after=0');
+      expect(notes[0]).toMatchObject({ id: 'a', purged_at: '2024-02-01T00:00:00' });
+      const { data: attachments } = await call('GET', `/sync/attachments?after=${before[0].server_seq}`);
+      expect(attachments[0]).toMatchObject({ id: 7, data: null, deleted_at: '2024-02-01T00:00:00' });
+      expect((await call('GET', '/notes/a')).status).toBe(404);
+    });
+  });
+});
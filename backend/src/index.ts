@@ -0,0 +1,19 @@
+import path from 'path';
+import { NoteStore } from './NoteStore';
+import { createServer } from './server';
+
+const port = Number(process.env.PORT) || 3001;
+const dataFile = process.env.DATA_FILE || path.join(process.cwd(), 'data', 'notes.json');
+
+async function main() {
+  const store = await NoteStore.open(dataFile);
+  const server = createServer(store, { apiKey: process.env.API_KEY || undefined });
+  server.listen(port, () => {
+    console.log(`Notes server listening on port ${port}, storing notes in ${dataFile}`);
+  });
+}
+
+main().catch(error => {
+  console.error('Failed to start the notes server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,275 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { NoteStore } from './NoteStore';
+import { AttachmentInput, NoteInput } from './types';
+
+export interface ServerOptions {
+  apiKey?: string; // Required as a Bearer token on every request when set
+  maxBodyBytes?: number;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface Request {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: (request: Request) => Promise<unknown>;
+  status?: number; // Status on success, 200 by default
+}
+
+// Screenshots come in as data URLs, so allow for large bodies
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+const DEFAULT_PULL_LIMIT = 50;
+const MAX_PULL_LIMIT = 500;
+
+// NoteStore errors the client can do something about
+const STORE_ERROR_STATUS: Record<string, number> = {
+  'Note not found': 404,
+  'Version conflict - note was modified elsewhere': 409,
+  'Note must have either title, content, or attachments': 400
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value;
+};
+
+const optionalArray = <T>(value: unknown, field: string): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, `${field} must be an array`);
+  }
+  return value as T[];
+};
+
+const optionalVersion = (value: unknown): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value)) {
+    throw new HttpError(400, 'version must be an integer');
+  }
+  return value as number;
+};
+
+const readPage = (query: URLSearchParams): [number, number] => {
+  const after = Number(query.get('after') ?? 0);
+  const limit = Number(query.get('limit') ?? DEFAULT_PULL_LIMIT);
+  if (!Number.isFinite(after) || !Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, 'after and limit must be numbers');
+  }
+  return [after, Math.min(limit, MAX_PULL_LIMIT)];
+};
+
+/**
+ * REST API over a NoteStore
+ *
+ * The /notes routes mirror the extension's DBProxy; the /sync routes are
+ * what the extension's ServerSyncRemote calls. Every response is JSON in the
+ * same { data } / { error } shape the background script answers messages with.
+ */
+function buildRoutes(store: NoteStore): Route[] {
+  return [
+    {
+      method: 'GET',
+      pattern: /^\/health$/,
+      handler: async () => ({ ok: true })
+    },
+    {
+      method: 'GET',
+      pattern: /^\/notes$/,
+      handler: () => store.getAllNotes()
+    },
+    {
+      method: 'GET',
+      pattern: /^\/notes\/([^/]+)$/,
+      handler: async ({ params: [id] }) => {
+        const note = await store.getNote(id);
+        if (!note) {
+          throw new HttpError(404, 'Note not found');
+        }
+        return note;
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/notes$/,
+      status: 201,
+      handler: ({ body }) => store.createNote({
+        title: requireString(body.title ?? '', 'title'),
+        content: requireString(body.content ?? '', 'content'),
+        attachments: optionalArray(body.attachments, 'attachments'),
+        tags: optionalArray<string>(body.tags, 'tags'),
+        notebookId: body.notebookId ?? null
+      })
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/notes\/([^/]+)$/,
+      handler: ({ params: [id], body }) => store.updateNote(id, {
+        title: requireString(body.title, 'title'),
+        content: requireString(body.content, 'content'),
+        attachments: optionalArray(body.attachments, 'attachments'),
+        tags: optionalArray<string>(body.tags, 'tags')
+      }, optionalVersion(body.version))
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/notes\/([^/]+)$/,
+      handler: ({ params: [id] }) => store.deleteNote(id)
+    },
+    {
+      method: 'POST',
+      pattern: /^\/notes\/([^/]+)\/attachments$/,
+      status: 201,
+      handler: ({ params: [id], body }) => {
+        if (body.url === undefined && body.screenshotData === undefined) {
+          throw new HttpError(400, 'An attachment needs a url or screenshotData');
+        }
+        return store.addAttachment(id, {
+          url: body.url,
+          screenshotData: body.screenshotData,
+          screenshotType: body.screenshotType
+        });
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/notes\/([^/]+)\/attachments\/(\d+)$/,
+      handler: ({ params: [id, attachmentId] }) => store.removeAttachment(id, Number(attachmentId))
+    },
+    {
+      method: 'GET',
+      pattern: /^\/attachments\/(\d+)$/,
+      handler: ({ params: [attachmentId] }) => store.getAttachmentData(Number(attachmentId))
+    },
+    {
+      method: 'GET',
+      pattern: /^\/sync\/notes$/,
+      handler: ({ query }) => store.pullNotes(...readPage(query))
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/sync\/notes$/,
+      handler: ({ body }) => store.pushNotes(optionalArray<NoteInput>(body, 'rows') || [])
+    },
+    {
+      method: 'POST',
+      pattern: /^\/sync\/notes\/([^/]+)\/purge$/,
+      handler: ({ params: [id], body }) => store.purgeNote(id, requireString(body.purgedAt, 'purgedAt'))
+    },
+    {
+      method: 'GET',
+      pattern: /^\/sync\/attachments$/,
+      handler: ({ query }) => store.pullAttachments(...readPage(query))
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/sync\/attachments$/,
+      handler: ({ body }) => {
+        if (!body || !Number.isFinite(Number(body.id)) || typeof body.note_id !== 'string') {
+          throw new HttpError(400, 'An attachment row needs an id and note_id');
+        }
+        return store.pushAttachment({ ...body, id: Number(body.id) } as AttachmentInput);
+      }
+    }
+  ];
+}
+
+function readBody(request: IncomingMessage, maxBytes: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'Request body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, payload: unknown): void {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(payload));
+}
+
+export function createServer(store: NoteStore, options: ServerOptions = {}): http.Server {
+  const routes = buildRoutes(store);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return http.createServer(async (request, response) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, CORS_HEADERS);
+      response.end();
+      return;
+    }
+
+    try {
+      if (options.apiKey && request.headers.authorization !== `Bearer ${options.apiKey}`) {
+        throw new HttpError(401, 'Missing or wrong API key');
+      }
+
+      const url = new URL(request.url || '/', 'http://localhost');
+      let pathMatched = false;
+      for (const route of routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (!match) continue;
+        pathMatched = true;
+        if (route.method !== request.method) continue;
+
+        const body = request.method === 'POST' || request.method === 'PUT'
+          ? await readBody(request, maxBodyBytes)
+          : {};
+        const params = match.slice(1).map(decodeURIComponent);
+        const data = await route.handler({ params, query: url.searchParams, body });
+        send(response, route.status ?? 200, { data: data ?? null });
+        return;
+      }
+      throw pathMatched ? new HttpError(405, 'Method not allowed') : new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(response, error.status, { error: error.message });
+        return;
+      }
+      const message = (error as Error).message;
+      const status = STORE_ERROR_STATUS[message];
+      if (!status) {
+        console.error(`${request.method} ${request.url} failed:`, error);
+      }
+      send(response, status ?? 500, { error: status ? message : 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Shapes shared with the extension
+ *
+ * Note and Attachment match extension/src/lib/notesDB.ts and Attachment.ts;
+ * the row types match extension/src/lib/syncRemote.ts, so the extension's
+ * sync engine can talk to this server like it talks to Supabase.
+ */
+
+export interface Attachment {
+  type: 'url' | 'screenshot';
+  id: number;
+  url?: string;
+  screenshotData?: string; // Data URL; only sent in, stored apart from the note
+  thumbnailData?: string;
+  screenshotType?: 'visible' | 'full' | 'area' | 'element';
+  createdAt: string;
+  syncStatus: 'pending' | 'synced';
+  source?: { url: string; title: string };
+  annotations?: Record<string, unknown>; // Layers drawn over the image; only the flattened image is stored here
+  encryptedAnnotations?: string; // Set instead of annotations by an extension with the vault on
+  metadata?: Record<string, unknown>;
+}
+
+export interface NoteParent {
+  version: number;
+  updatedAt: string;
+}
+
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  isRichText?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+  attachments?: Attachment[];
+  tags: string[];
+  notebookId?: string | null;
+  deletedAt?: string;
+  parents?: NoteParent[];
+}
+
+export interface NoteRow {
+  id: string;
+  title: string;
+  content: string;
+  is_rich_text: boolean;
+  tags: string[];
+  notebook_id: string | null;
+  attachments: Attachment[]; // References only; image data lives in attachment rows
+  created_at: string;
+  updated_at: string;
+  version: number;
+  deleted_at: string | null;
+  purged_at: string | null;
+  parents: NoteParent[] | null;
+  server_seq: number;
+}
+
+export interface AttachmentRow {
+  id: number;
+  note_id: string;
+  data: string | null; // Data URL, null once deleted
+  encrypted_type: string | null;
+  deleted_at: string | null;
+  server_seq: number;
+}
+
+// The server assigns server_seq
+export type NoteInput = Omit<NoteRow, 'server_seq'>;
+export type AttachmentInput = Omit<AttachmentRow, 'server_seq'>;
+
+export const rowToNote = (row: NoteRow): Note => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  isRichText: row.is_rich_text,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  version: row.version,
+  attachments: row.attachments,
+  tags: row.tags,
+  notebookId: row.notebook_id,
+  ...(row.deleted_at ? { deletedAt: row.deleted_at } : {}),
+  ...(row.parents ? { parents: row.parents } : {})
+});
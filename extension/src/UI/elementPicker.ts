@@ -0,0 +1,209 @@
+import pickerStyles from '../styles/element-picker.css';
+import { CapturedElement } from '../lib/Attachment';
+
+/**
+ * Element picker for screenshots
+ * Highlights the element under the mouse; a click or Enter picks it. The
+ * arrow keys move the highlight to the parent (up), back down to the child
+ * (down) and to the siblings (left and right). Escape cancels.
+ */
+
+const PANEL_ROOT_ID = 'ga-notes-root';
+const MAX_TEXT_LENGTH = 200;
+const HINT = '↑ parent · ↓ child · ← → siblings · Click or Enter to capture · Esc to cancel';
+
+// Anything in the body other than the panel; the picker's own overlay sits outside it
+const isPickable = (element: Element | null): element is Element =>
+  !!element && document.body.contains(element) && !element.closest(`#${PANEL_ROOT_ID}`);
+
+const hasSize = (element: Element) => {
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+};
+
+// Selector for the element, walked up from it until an id or the body anchors it
+export function cssSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+    if (current === document.body) {
+      parts.unshift('body');
+      break;
+    }
+
+    let part = current.localName;
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter(child => child.localName === current!.localName);
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+      }
+    }
+    parts.unshift(part);
+    current = parent;
+  }
+  return parts.join(' > ');
+}
+
+export function describeElement(element: Element): CapturedElement {
+  const text = ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return {
+    selector: cssSelector(element),
+    text: text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text
+  };
+}
+
+class ElementPicker {
+  private style = document.createElement('style');
+  private highlight = document.createElement('div');
+  private label = document.createElement('div');
+  private hint = document.createElement('div');
+  private current: Element | null = null;
+  // Elements left on the way up, so down retraces the path
+  private descendants: Element[] = [];
+  private frame = 0;
+
+  constructor(private readonly finish: (element: Element | null) => void) {
+    this.style.textContent = pickerStyles;
+    this.highlight.className = 'ga-element-picker-highlight';
+    this.label.className = 'ga-element-picker-label';
+    this.hint.className = 'ga-element-picker-hint';
+    this.hint.textContent = HINT;
+    document.head.appendChild(this.style);
+    document.documentElement.append(this.highlight, this.label, this.hint);
+
+    // Capture phase on the window, so the page's own handlers never see the picking
+    window.addEventListener('mousemove', this.handleMouseMove, true);
+    window.addEventListener('mousedown', this.swallow, true);
+    window.addEventListener('mouseup', this.swallow, true);
+    window.addEventListener('click', this.handleClick, true);
+    window.addEventListener('keydown', this.handleKeyDown, true);
+    window.addEventListener('scroll', this.scheduleUpdate, true);
+    window.addEventListener('resize', this.scheduleUpdate);
+  }
+
+  private select(element: Element | null, descendants: Element[] = []) {
+    if (!isPickable(element)) return;
+    this.current = element;
+    this.descendants = descendants;
+    this.update();
+  }
+
+  private update = () => {
+    this.frame = 0;
+    const element = this.current;
+    if (!element) return;
+
+    const rect = element.getBoundingClientRect();
+    Object.assign(this.highlight.style, {
+      top: `${rect.top}px`,
+      left: `${rect.left}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`
+    });
+
+    this.label.textContent = `${cssSelector(element)}  ${Math.round(rect.width)} × ${Math.round(rect.height)}`;
+    // Above the element when there's room, otherwise just inside its top
+    const labelTop = rect.top >= 28 ? rect.top - 26 : Math.max(rect.top, 0) + 4;
+    this.label.style.top = `${labelTop}px`;
+    this.label.style.left = `${Math.max(rect.left, 0)}px`;
+  };
+
+  private scheduleUpdate = () => {
+    if (!this.frame) {
+      this.frame = requestAnimationFrame(this.update);
+    }
+  };
+
+  private handleMouseMove = (event: MouseEvent) => {
+    const target = event.target instanceof Element ? event.target : null;
+    if (target !== this.current) {
+      this.select(target);
+    }
+  };
+
+  private swallow = (event: Event) => {
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    this.swallow(event);
+    if (this.current) {
+      this.done(this.current);
+    }
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    const element = this.current;
+
+    switch (event.key) {
+      case 'Escape':
+        this.done(null);
+        break;
+      case 'Enter':
+        if (element) {
+          this.done(element);
+        }
+        break;
+      case 'ArrowUp':
+        if (element?.parentElement && element.parentElement !== document.documentElement) {
+          this.select(element.parentElement, [element, ...this.descendants]);
+        }
+        break;
+      case 'ArrowDown': {
+        if (!element) break;
+        const [next, ...rest] = this.descendants;
+        const child = next ?? Array.from(element.children).find(hasSize);
+        this.select(child ?? null, next ? rest : []);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        let sibling = element && (event.key === 'ArrowLeft' ? element.previousElementSibling : element.nextElementSibling);
+        while (sibling && !hasSize(sibling)) {
+          sibling = event.key === 'ArrowLeft' ? sibling.previousElementSibling : sibling.nextElementSibling;
+        }
+        this.select(sibling);
+        break;
+      }
+      default:
+        // Leave other keys, like scrolling ones, to the page
+        return;
+    }
+    this.swallow(event);
+  };
+
+  private done(element: Element | null) {
+    window.removeEventListener('mousemove', this.handleMouseMove, true);
+    window.removeEventListener('mousedown', this.swallow, true);
+    window.removeEventListener('mouseup', this.swallow, true);
+    window.removeEventListener('click', this.handleClick, true);
+    window.removeEventListener('keydown', this.handleKeyDown, true);
+    window.removeEventListener('scroll', this.scheduleUpdate, true);
+    window.removeEventListener('resize', this.scheduleUpdate);
+    if (this.frame) {
+      cancelAnimationFrame(this.frame);
+    }
+    this.style.remove();
+    this.highlight.remove();
+    this.label.remove();
+    this.hint.remove();
+    this.finish(element);
+  }
+}
+
+/**
+ * Let the user pick an element on the page
+ * Resolves with the element, or null when they cancel.
+ */
+export function pickElement(): Promise<Element | null> {
+  return new Promise(resolve => {
+    new ElementPicker(resolve);
+  });
+}
@@ -0,0 +1,319 @@
+import { transferMessage } from '../lib/chunkedTransfer';
+import { ProcessedImage, processImage } from '../lib/imageProcessor';
+
+/**
+ * Scrolling screenshots of the whole page or of a single element
+ *
+ * The page is scrolled one viewport at a time and each viewport captured
+ * with captureVisibleTab, then the captured part is drawn onto canvases as
+ * it arrives. Fixed and sticky elements are hidden after the first viewport
+ * so headers show up once rather than on every screen. Regions taller than
+ * one canvas can hold come out as several images, top to bottom.
+ *
+ * Only the document scrolls; pages that scroll an inner element come out
+ * as their first viewport.
+ */
+
+export interface FullPageProgress {
+  phase: 'capture' | 'process';
+  done: number;
+  total: number;
+}
+
+export interface FullPageImage {
+  processed: ProcessedImage;
+  width: number;
+  height: number;
+}
+
+export class CaptureCancelledError extends Error {
+  constructor() {
+    super('The capture was cancelled');
+    this.name = 'CaptureCancelledError';
+  }
+}
+
+// WebP can't encode past 16383px, and canvases that tall are near the browser limits anyway
+const MAX_IMAGE_HEIGHT = 16000;
+// Stops infinite-scroll pages from capturing forever
+const MAX_IMAGES = 8;
+// captureVisibleTab allows two calls a second
+const CAPTURE_INTERVAL_MS = 550;
+
+const PANEL_ROOT_ID = 'ga-notes-root';
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+// Two frames, so the scroll or style change has been painted before the capture
+const waitForPaint = async () => {
+  await nextFrame();
+  await nextFrame();
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load a captured viewport'));
+    image.src = dataUrl;
+  });
+}
+
+// Elements that would repeat on every viewport, other than the panel and whatever is being captured
+function findPinnedElements(target?: Element): HTMLElement[] {
+  const panelRoot = document.getElementById(PANEL_ROOT_ID);
+  return Array.from(document.body.querySelectorAll<HTMLElement>('*')).filter(element => {
+    if (panelRoot?.contains(element)) return false;
+    if (target && (element.contains(target) || target.contains(element))) return false;
+    const { position } = getComputedStyle(element);
+    return position === 'fixed' || position === 'sticky';
+  });
+}
+
+/**
+ * Page changes made for the capture, undone in reverse when it ends
+ */
+class PageState {
+  private restores: Array<() => void> = [];
+
+  setStyle(element: HTMLElement, property: string, value: string): void {
+    const previousValue = element.style.getPropertyValue(property);
+    const previousPriority = element.style.getPropertyPriority(property);
+    element.style.setProperty(property, value, 'important');
+    this.restores.push(() => {
+      if (previousValue) {
+        element.style.setProperty(property, previousValue, previousPriority);
+      } else {
+        element.style.removeProperty(property);
+      }
+    });
+  }
+
+  restore(): void {
+    this.restores.reverse().forEach(restore => restore());
+    this.restores = [];
+  }
+}
+
+/**
+ * Captured viewports drawn onto image-sized canvases
+ * A canvas is encoded as soon as the captures have covered it, so only one
+ * is held at a time.
+ */
+class Stitcher {
+  private canvas: HTMLCanvasElement | null = null;
+  private canvasTop = 0;
+  readonly images: string[] = [];
+
+  constructor(
+    private readonly left: number,
+    private readonly width: number,
+    private readonly height: number
+  ) {}
+
+  // Draw a viewport captured `top` below the top of the region (all in device pixels)
+  draw(capture: HTMLImageElement, top: number, viewportHeight: number): void {
+    const bottom = Math.min(top + viewportHeight, this.height);
+    while (this.canvasTop < bottom) {
+      const canvas = this.currentCanvas();
+      const canvasBottom = this.canvasTop + canvas.height;
+      const from = Math.max(top, this.canvasTop);
+      const to = Math.min(bottom, canvasBottom);
+      if (to > from) {
+        canvas.getContext('2d')!.drawImage(
+          capture,
+          this.left, from - top, this.width, to - from,
+          0, from - this.canvasTop, this.width, to - from
+        );
+      }
+      if (bottom < canvasBottom) break;
+      this.finishCanvas();
+    }
+  }
+
+  finish(): string[] {
+    if (this.canvas) {
+      this.finishCanvas();
+    }
+    return this.images;
+  }
+
+  private currentCanvas(): HTMLCanvasElement {
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+      this.canvas.width = this.width;
+      this.canvas.height = Math.min(MAX_IMAGE_HEIGHT, this.height - this.canvasTop);
+    }
+    return this.canvas;
+  }
+
+  private finishCanvas(): void {
+    const canvas = this.canvas!;
+    this.images.push(canvas.toDataURL('image/png'));
+    this.canvasTop += canvas.height;
+    // Release the pixels right away rather than waiting for GC
+    canvas.width = 0;
+    canvas.height = 0;
+    this.canvas = null;
+  }
+}
+
+async function captureViewport(): Promise<string> {
+  const response = await transferMessage<{ success: boolean; captureData?: string; error?: string }>({
+    type: 'CAPTURE_VISIBLE_TAB'
+  });
+  if (!response?.success || !response.captureData) {
+    throw new Error(response?.error || 'No capture data received');
+  }
+  return response.captureData;
+}
+
+export interface CaptureOptions {
+  onProgress?: (progress: FullPageProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Part of the page to capture: `top` and `height` in document CSS pixels,
+ * `left` and `width` in viewport CSS pixels since only vertical scrolling is
+ * done
+ */
+interface CaptureRegion {
+  top: number;
+  height: number;
+  left: number;
+  width: number;
+  // Kept visible when fixed and sticky elements are hidden
+  target?: Element;
+}
+
+async function captureRegion(
+  getRegion: () => CaptureRegion,
+  { onProgress, signal }: CaptureOptions
+): Promise<FullPageImage[]> {
+  const checkCancelled = () => {
+    if (signal?.aborted) throw new CaptureCancelledError();
+  };
+
+  const viewportHeight = document.documentElement.clientHeight;
+  const originalScroll = { x: window.scrollX, y: window.scrollY };
+  const panelRoot = document.getElementById(PANEL_ROOT_ID);
+  const page = new PageState();
+
+  try {
+    // Jumps straight to each position instead of animating there
+    page.setStyle(document.documentElement, 'scroll-behavior', 'auto');
+    const region = getRegion();
+
+    let stitcher: Stitcher | null = null;
+    let scale = 1;
+    let regionHeight = 0;
+    let viewportCount = 0;
+    let lastCapture = 0;
+
+    for (let index = 0; ; index++) {
+      checkCancelled();
+      window.scrollTo(originalScroll.x, region.top + index * viewportHeight);
+      const top = window.scrollY;
+
+      // An element's own headers would cover it from the start, the page's only after the first screen
+      if (index === (region.target ? 0 : 1)) {
+        findPinnedElements(region.target).forEach(element => page.setStyle(element, 'visibility', 'hidden'));
+      }
+      if (panelRoot) {
+        panelRoot.style.visibility = 'hidden';
+      }
+      await waitForPaint();
+      await delay(Math.max(0, lastCapture + CAPTURE_INTERVAL_MS - Date.now()));
+
+      let captureData: string;
+      try {
+        lastCapture = Date.now();
+        captureData = await captureViewport();
+      } finally {
+        if (panelRoot) {
+          panelRoot.style.visibility = '';
+        }
+      }
+      const capture = await loadImage(captureData);
+
+      if (!stitcher) {
+        // Captures are in device pixels, which also covers page zoom
+        scale = capture.width / window.innerWidth;
+        const maxHeight = MAX_IMAGES * MAX_IMAGE_HEIGHT;
+        regionHeight = Math.min(region.height, Math.floor(maxHeight / scale));
+        viewportCount = Math.ceil(regionHeight / viewportHeight);
+        stitcher = new Stitcher(
+          Math.round(region.left * scale),
+          Math.round(region.width * scale),
+          Math.round(regionHeight * scale)
+        );
+      }
+
+      stitcher.draw(capture, Math.round((top - region.top) * scale), Math.round(viewportHeight * scale));
+      onProgress?.({ phase: 'capture', done: index + 1, total: viewportCount });
+
+      // The last scroll can come up short of a whole viewport, or the page can stop growing
+      if (index + 1 >= viewportCount || top + viewportHeight >= region.top + regionHeight) break;
+    }
+
+    const images = stitcher!.finish();
+    // Give the page back before the slower processing step
+    page.restore();
+    window.scrollTo(originalScroll.x, originalScroll.y);
+
+    const results: FullPageImage[] = [];
+    for (const [index, imageData] of images.entries()) {
+      checkCancelled();
+      onProgress?.({ phase: 'process', done: index, total: images.length });
+      const image = await loadImage(imageData);
+      const processed = await processImage(imageData, { format: 'webp', quality: 85, progressive: true });
+      results.push({ processed, width: image.width, height: image.height });
+    }
+    onProgress?.({ phase: 'process', done: images.length, total: images.length });
+    return results;
+  } finally {
+    page.restore();
+    window.scrollTo(originalScroll.x, originalScroll.y);
+  }
+}
+
+/**
+ * Capture the whole page, scrolling through it
+ * Resolves with the processed images, top to bottom. Rejects with a
+ * CaptureCancelledError when the signal aborts; the page is put back as it
+ * was either way.
+ */
+export function captureFullPage(options: CaptureOptions = {}): Promise<FullPageImage[]> {
+  return captureRegion(() => ({
+    top: 0,
+    height: (document.scrollingElement || document.documentElement).scrollHeight,
+    left: 0,
+    width: document.documentElement.clientWidth
+  }), options);
+}
+
+/**
+ * Capture one element's bounding box, scrolling through it when it's taller
+ * than the viewport
+ * Parts of the element scrolled sideways out of the viewport are left out.
+ */
+export function captureElement(element: Element, options: CaptureOptions = {}): Promise<FullPageImage[]> {
+  return captureRegion(() => {
+    const rect = element.getBoundingClientRect();
+    const left = Math.max(0, rect.left);
+    const right = Math.min(document.documentElement.clientWidth, rect.right);
+    if (right <= left || rect.height <= 0) {
+      throw new Error('The element has nothing visible to capture');
+    }
+    return {
+      top: rect.top + window.scrollY,
+      height: rect.height,
+      left,
+      width: right - left,
+      target: element
+    };
+  }, options);
+}
@@ -1,5 +1,6 @@
 import selectionStyles from '../styles/selection.css';
 import { hideExtensionUI as globalHideUI, showExtensionUI as globalShowUI } from '../content';
+import { sendRuntimeMessage, transferMessage } from '../lib/chunkedTransfer';
 
 // Keep track of active selection instances to prevent multiple overlays
 let activeSelectionInstance: ScreenshotSelection | null = null;
@@ -153,7 +154,7 @@ export class ScreenshotSelection {
       await new Promise(resolve => setTimeout(resolve, 100));
 
       // Capture the entire visible tab first
-      const response = await chrome.runtime.sendMessage({
+      const response = await transferMessage({
         type: 'CAPTURE_VISIBLE_TAB',
         dimensions: {
           x: rect.x,
@@ -199,7 +200,7 @@ export class ScreenshotSelection {
         rect.height
       );
 
-      chrome.runtime.sendMessage({
+      await sendRuntimeMessage({
         type: 'SELECTION_CAPTURE',
         data: canvas.toDataURL('image/png')
       });
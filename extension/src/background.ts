@@ -3,8 +3,51 @@ const loadedTabs = new Set<number>();
 // Listen for extension installation
 chrome.runtime.onInstalled.addListener(() => {
   console.log('Extension installed');
+  createClipMenus();
 });
 
+// Add the context menu entries for clipping page content into notes
+function createClipMenus() {
+  chrome.contextMenus.removeAll(() => {
+    (Object.keys(CLIP_MENU_ITEMS) as ClipKind[]).forEach(kind => {
+      chrome.contextMenus.create({ id: clipMenuId(kind), ...CLIP_MENU_ITEMS[kind] });
+    });
+  });
+}
+
+// Clips are captured by the page's content script and go to the panel tab
+// picked for the page, whether or not the panel is open
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  const kind = clipKindForMenuId(info.menuItemId);
+  if (!kind || !tab?.id) return;
+
+  const clip: ClipRequest = {
+    kind,
+    targetTabId: kind === 'new-note' ? null : await routeClip(),
+    source: { url: info.pageUrl || tab.url || '', title: tab.title || '' },
+    selectionText: info.selectionText,
+    linkUrl: info.linkUrl,
+    srcUrl: info.srcUrl
+  };
+
+  try {
+    await ensureContentScript(tab.id);
+    const response = await chrome.tabs.sendMessage(tab.id, { type: 'CLIP', clip });
+    if (!response?.success) {
+      throw new Error(response?.error || 'No response');
+    }
+  } catch (error) {
+    console.error('Failed to clip into a note:', error);
+  }
+});
+
+// The pinned tab, the tab associated with the page or the last one used
+async function routeClip(): Promise<string | null> {
+  const cache = await TabCacheManager.initCache();
+  if (!cache?.tabs.length) return null;
+  return TabAssociationManager.getActiveTabForCurrentPage(cache.tabs);
+}
+
 // Listen for content script connection
 chrome.runtime.onConnect.addListener((port) => {
   if (port.name === 'content-script') {
@@ -20,32 +63,108 @@ chrome.runtime.onConnect.addListener((port) => {
 });
 
 // Handle browser action clicks
-chrome.action.onClicked.addListener(async (tab) => {
-  if (!tab.id) return;
+chrome.action.onClicked.addListener(tab => {
+  togglePanel(tab);
+});
+
+// Handle keyboard commands declared in the manifest
+chrome.commands.onCommand.addListener(async (command, tab) => {
+  const [activeTab] = tab?.id ? [tab] : await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!activeTab?.id) return;
+
+  if (command === 'toggle-panel') {
+    await togglePanel(activeTab);
+    return;
+  }
+  if (!isPanelCommand(command)) {
+    console.warn('Unknown command:', command);
+    return;
+  }
 
   try {
-    if (!loadedTabs.has(tab.id)) {
-      await chrome.scripting.executeScript({
-        target: { tabId: tab.id },
-        files: ['content.js']
-      });
+    await ensureContentScript(activeTab.id);
+    // The content script shows the panel before running the command
+    await chrome.tabs.sendMessage(activeTab.id, { type: 'PANEL_COMMAND', command });
+  } catch (error) {
+    if (command === 'new-note-tab') {
+      console.warn('Failed to open a tab in the panel, opening the workspace instead:', error);
+      openWorkspace();
+    } else {
+      console.warn(`Failed to run ${command} on this page:`, error);
     }
+  }
+});
+
+async function ensureContentScript(tabId: number) {
+  if (!loadedTabs.has(tabId)) {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      files: ['content.js']
+    });
+  }
+}
+
+async function togglePanel(tab: chrome.tabs.Tab) {
+  if (!tab.id) return;
+
+  try {
+    await ensureContentScript(tab.id);
 
     // Use the same message type that's used by the close button
     await chrome.tabs.sendMessage(tab.id, { type: 'toggleInterface' });
     console.log('Sent toggleInterface message to tab', tab.id);
   } catch (error) {
-    console.error('Failed to toggle interface:', error);
+    // Pages like chrome:// and the Web Store can't host the panel
+    console.warn('Failed to toggle interface, opening the workspace instead:', error);
+    openWorkspace();
   }
-});
+}
+
+// Focus the full-page workspace, opening it if it isn't open yet
+async function openWorkspace() {
+  const url = chrome.runtime.getURL('workspace.html');
+  const [existingTab] = await chrome.tabs.query({ url });
+  if (existingTab?.id) {
+    await chrome.tabs.update(existingTab.id, { active: true });
+    if (existingTab.windowId !== undefined) {
+      await chrome.windows.update(existingTab.windowId, { focused: true });
+    }
+  } else {
+    await chrome.tabs.create({ url });
+  }
+}
 
 import { NotesDB } from './lib/notesDB';
 import { TabCacheManager } from './lib/TabCacheManager';
 import { TabAssociationManager } from './lib/TabAssociationManager';
 import { PositionScaleManager } from './lib/PositionScaleManager';
+import { TrashManager } from './lib/TrashManager';
+import { BackupManager } from './lib/BackupManager';
+import { BackupSettings } from './lib/BackupSettings';
+import { VaultManager } from './lib/VaultManager';
+import { VaultSession } from './lib/VaultSession';
+import { SyncEngine } from './lib/SyncEngine';
+import { SyncSettings } from './lib/SyncSettings';
+import { dispatchRpc, RpcRequest, RpcResponse } from './lib/rpc';
+import { holdLargeResponses, listenForTransfers } from './lib/chunkedTransfer';
+import { isPanelCommand } from './lib/shortcuts';
+import { CLIP_MENU_ITEMS, ClipKind, ClipRequest, clipKindForMenuId, clipMenuId } from './lib/clips';
+
+interface CaptureResponse {
+  success: boolean;
+  screenshotData?: string;
+  error?: string;
+}
+
+// Answers the pending full-page capture once the selection overlay reports back
+let pendingSelectionCapture: ((response: CaptureResponse) => void) | null = null;
 
 // Consolidated message handling
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+function handleMessage(
+  message: any,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: any) => void
+): boolean | void {
   if (message.type === 'CAPTURE_URL') {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       const url = tabs[0]?.url;
@@ -128,7 +247,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             );
             console.log('Background: Visible capture successful');
             sendResponse({ success: true, screenshotData: captureData });
-          } else if (message.screenshotType === 'full') {
+          } else if (message.screenshotType === 'area') {
             console.log('Background: Initializing section capture');
             const activeTab = await chrome.tabs.query({ active: true, currentWindow: true });
             if (!activeTab[0]?.id) {
@@ -142,16 +261,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
                 document.dispatchEvent(event);
               }
             });
-
-            chrome.runtime.onMessage.addListener(function listener(msg) {
-              if (msg.type === 'SELECTION_CAPTURE') {
-                chrome.runtime.onMessage.removeListener(listener);
-                sendResponse({ success: true, screenshotData: msg.data });
-              } else if (msg.type === 'SELECTION_CAPTURE_ERROR') {
-                chrome.runtime.onMessage.removeListener(listener);
-                sendResponse({ success: false, error: msg.error });
-              }
-            });
+            pendingSelectionCapture = sendResponse;
+          } else {
+            // Full-page captures scroll the page, so the content script runs them
+            throw new Error(`Unsupported screenshot type: ${message.screenshotType}`);
           }
         } catch (error) {
           console.error('Background: Screenshot capture failed:', error);
@@ -166,11 +279,35 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'SELECTION_CAPTURE' || message.type === 'SELECTION_CAPTURE_ERROR') {
+    pendingSelectionCapture?.(message.type === 'SELECTION_CAPTURE'
+      ? { success: true, screenshotData: message.data }
+      : { success: false, error: message.error });
+    pendingSelectionCapture = null;
+    sendResponse({ success: true });
+    return;
+  }
+
   if (message.type === 'DB_OPERATION') {
     handleDBOperation(message, sendResponse);
     return true;
   }
 
+  if (message.type === 'BACKUP_OPERATION') {
+    handleBackupOperation(message, sendResponse);
+    return true;
+  }
+
+  if (message.type === 'VAULT_OPERATION') {
+    handleVaultOperation(message, sendResponse);
+    return true;
+  }
+
+  if (message.type === 'SYNC_OPERATION') {
+    handleSyncOperation(message, sendResponse);
+    return true;
+  }
+
   if (message.type === 'hideInterface' && sender.tab?.id) {
     chrome.tabs.sendMessage(sender.tab.id, { type: 'toggleInterface' });
     sendResponse({ success: true });
@@ -199,6 +336,37 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'OPEN_WORKSPACE') {
+    openWorkspace()
+      .then(() => sendResponse({ success: true }))
+      .catch(error => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+
+  // The content script can't read commands, so the cheat sheet asks for them here
+  if (message.type === 'GET_COMMANDS') {
+    chrome.commands.getAll()
+      .then(commands => sendResponse({
+        success: true,
+        commands: commands
+          .filter(command => command.name && command.name !== '_execute_action')
+          .map(command => ({
+            name: command.name,
+            description: command.description || command.name,
+            shortcut: command.shortcut || ''
+          }))
+      }))
+      .catch(error => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+
+  if (message.type === 'OPEN_SHORTCUT_SETTINGS') {
+    chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })
+      .then(() => sendResponse({ success: true }))
+      .catch(error => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+
   if (message.type === 'HIDE_EXTENSION_UI') {
     // Handle this asynchronously
     broadcastToActiveTabs({ type: 'HIDE_EXTENSION_UI' })
@@ -367,19 +535,144 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     })();
     return true;
   }
+}
+
+// Answers too large for one message are collected in chunks by the caller
+chrome.runtime.onMessage.addListener(holdLargeResponses(handleMessage));
+
+// Messages too large to send in one piece arrive in chunks over a port
+listenForTransfers((message, sender) => new Promise(resolve => {
+  if (handleMessage(message, sender, resolve) !== true) {
+    resolve(undefined);
+  }
+}));
+
+const READ_ONLY_DB_METHOD = /^(get|search|plan|export)/;
+
+async function handleDBOperation(message: RpcRequest, sendResponse: (response: RpcResponse) => void) {
+  const response = await dispatchRpc('DB_OPERATION', NotesDB, message);
+  sendResponse(response);
+  // Anything that may have queued a change gets pushed once edits settle
+  if ('data' in response && !READ_ONLY_DB_METHOD.test(message.method)) {
+    SyncEngine.requestSync();
+  }
+}
+
+async function handleBackupOperation(message: RpcRequest, sendResponse: (response: RpcResponse) => void) {
+  sendResponse(await dispatchRpc('BACKUP_OPERATION', BackupManager, message));
+}
+
+async function handleVaultOperation(message: RpcRequest, sendResponse: (response: RpcResponse) => void) {
+  const response = await dispatchRpc('VAULT_OPERATION', VaultManager, message);
+  sendResponse(response);
+  // Let every open panel and the workspace show or hide their lock screens
+  if ('data' in response && message.method !== 'getStatus') {
+    broadcastToPanels({ type: 'VAULT_STATE_CHANGED' });
+  }
+}
+
+async function handleSyncOperation(message: RpcRequest, sendResponse: (response: RpcResponse) => void) {
+  sendResponse(await dispatchRpc('SYNC_OPERATION', SyncEngine, message));
+}
+
+// Permanently delete notes that have been in the trash past the retention period
+async function purgeExpiredTrash() {
+  try {
+    const retentionDays = await TrashManager.getRetentionDays();
+    const purgedIds = await NotesDB.purgeExpiredNotes(retentionDays);
+
+    // Drop any cached attachment data still tied to the purged notes
+    for (const noteId of purgedIds) {
+      await TabCacheManager.cleanupAttachmentsForNote(noteId);
+    }
+
+    if (purgedIds.length > 0) {
+      console.log(`Purged ${purgedIds.length} note(s) from the trash`);
+    }
+  } catch (error) {
+    console.error('Failed to purge trash:', error);
+  }
+}
+
+// Check the trash once a day, and whenever the service worker starts
+chrome.alarms.get(TrashManager.PURGE_ALARM, (existingAlarm) => {
+  // Don't reset the schedule every time the service worker wakes up
+  if (!existingAlarm) {
+    chrome.alarms.create(TrashManager.PURGE_ALARM, { periodInMinutes: 24 * 60 });
+  }
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === TrashManager.PURGE_ALARM) {
+    purgeExpiredTrash();
+  }
 });
+purgeExpiredTrash();
 
-async function handleDBOperation(message: any, sendResponse: (response: any) => void) {
+async function runScheduledBackup() {
   try {
-    const { method, params } = message;
-    const result = await (NotesDB as any)[method](...params);
-    sendResponse({ data: result });
+    const backup = await BackupManager.runScheduledBackup();
+    if (backup) {
+      console.log(`Saved scheduled backup from ${backup.createdAt}`);
+    }
   } catch (error) {
-    console.error('DB operation failed:', error);
-    sendResponse({ error: (error as Error).message });
+    console.error('Scheduled backup failed:', error);
   }
 }
 
+// Check hourly whether a scheduled backup is due; the schedule itself is daily or weekly
+chrome.alarms.get(BackupSettings.BACKUP_ALARM, (existingAlarm) => {
+  if (!existingAlarm) {
+    chrome.alarms.create(BackupSettings.BACKUP_ALARM, { periodInMinutes: 60 });
+  }
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === BackupSettings.BACKUP_ALARM) {
+    runScheduledBackup();
+  }
+});
+
+// Pull remote changes and retry failed pushes every few minutes
+chrome.alarms.get(SyncSettings.SYNC_ALARM, (existingAlarm) => {
+  if (!existingAlarm) {
+    chrome.alarms.create(SyncSettings.SYNC_ALARM, { periodInMinutes: 5 });
+  }
+});
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SyncSettings.SYNC_ALARM) {
+    SyncEngine.runScheduledSync();
+  }
+});
+// Push what piled up while offline as soon as the connection is back
+self.addEventListener('online', () => {
+  SyncEngine.runScheduledSync(true);
+});
+// Let open panels and the workspace offer to merge notes that changed on both sides
+SyncEngine.setConflictListener((noteIds) => {
+  broadcastToPanels({ type: 'SYNC_CONFLICTS', noteIds });
+});
+// Keep the note list and open tabs of every panel up to date with writes made elsewhere
+NotesDB.setChangeListener((changes) => {
+  broadcastToPanels({ type: 'NOTES_CHANGED', changes });
+});
+
+// Lock the vault once it has been idle for its auto-lock period
+chrome.alarms.get(VaultSession.AUTO_LOCK_ALARM, (existingAlarm) => {
+  if (!existingAlarm) {
+    chrome.alarms.create(VaultSession.AUTO_LOCK_ALARM, { periodInMinutes: 1 });
+  }
+});
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  if (alarm.name === VaultSession.AUTO_LOCK_ALARM) {
+    try {
+      if (await VaultSession.checkAutoLock()) {
+        broadcastToPanels({ type: 'VAULT_STATE_CHANGED' });
+      }
+    } catch (error) {
+      console.error('Vault auto-lock check failed:', error);
+    }
+  }
+});
+
 // Handle extension suspension
 chrome.runtime.onSuspend.addListener(async () => {
   // Get all tabs where our content script is running
@@ -466,4 +759,12 @@ async function broadcastToActiveTabs(message: any) {
   return results;
 }
 
+// Reach extension pages such as the workspace too, which tabs.sendMessage doesn't
+async function broadcastToPanels(message: any) {
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No extension page is open
+  });
+  return broadcastToActiveTabs(message);
+}
+
 export {}; // Keep module format 
\ No newline at end of file
@@ -2,7 +2,7 @@ import React from 'react';
 import '../styles/components/ActionButton.css';
 
 interface ActionButtonProps {
-  type: 'edit' | 'menu' | 'close';
+  type: 'edit' | 'menu' | 'close' | 'history' | 'expand';
   onClick: () => void;
   title?: string;
   hasUnsavedChanges?: boolean;
@@ -20,6 +20,10 @@ export const ActionButton: React.FC<ActionButtonProps> = ({
         return '📝';
       case 'menu':
         return '☰';
+      case 'history':
+        return '🕘';
+      case 'expand':
+        return '⤢';
       case 'close':
         return hasUnsavedChanges ? '⚠️' : '✕';
       default:
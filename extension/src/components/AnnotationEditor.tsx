@@ -0,0 +1,459 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment } from '../lib/Attachment';
+import { DBProxy as NotesDB } from '../lib/DBProxy';
+import {
+  ANNOTATION_COLORS,
+  AnnotationDocument,
+  AnnotationLayer,
+  Point,
+  Rect,
+  defaultSizes,
+  drawLayer,
+  hitTest,
+  layerBounds,
+  moveLayer,
+  normalizeRect,
+  renderAnnotatedImage
+} from '../lib/annotations';
+import { processImage } from '../lib/imageProcessor';
+import '../styles/components/annotation-editor.css';
+
+type Tool = 'select' | 'arrow' | 'rectangle' | 'freehand' | 'text' | 'callout' | 'blur' | 'pixelate' | 'crop';
+
+const TOOLS: { tool: Tool; icon: string; label: string }[] = [
+  { tool: 'select', icon: '🖐', label: 'Select and move' },
+  { tool: 'arrow', icon: '➚', label: 'Arrow' },
+  { tool: 'rectangle', icon: '▭', label: 'Rectangle' },
+  { tool: 'freehand', icon: '✎', label: 'Freehand' },
+  { tool: 'text', icon: 'T', label: 'Text' },
+  { tool: 'callout', icon: '①', label: 'Numbered callout' },
+  { tool: 'blur', icon: '◍', label: 'Blur' },
+  { tool: 'pixelate', icon: '▦', label: 'Pixelate' },
+  { tool: 'crop', icon: '⛶', label: 'Crop' }
+];
+
+// Drags shorter than this are treated as clicks
+const MIN_DRAG = 4;
+
+interface AnnotationEditorProps {
+  attachment: Attachment;
+  isNew: boolean; // Not attached yet: saving attaches it, cancelling discards it
+  onSave: (attachment: Attachment) => void;
+  onCancel: () => void;
+}
+
+interface Drag {
+  start: Point;
+  last: Point;
+  layer?: AnnotationLayer; // The layer being drawn
+  crop?: Rect;
+  moving?: string; // ID of the layer being moved
+}
+
+// The unannotated image and its layers; screenshots restored from a backup only have the flattened image
+async function loadEditableImage(attachment: Attachment): Promise<{ data: string; annotations: AnnotationDocument; flattened: boolean }> {
+  if (attachment.annotations) {
+    const original = attachment.originalData || await NotesDB.getOriginalAttachmentData(attachment.id);
+    if (original) {
+      return { data: original, annotations: attachment.annotations, flattened: false };
+    }
+  }
+  const data = attachment.screenshotData || await NotesDB.getAttachmentData(attachment.id);
+  if (!data) {
+    throw new Error('The screenshot has no image data');
+  }
+  return { data, annotations: { layers: [] }, flattened: !!attachment.annotations };
+}
+
+function loadImage(data: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load the screenshot'));
+    image.src = data;
+  });
+}
+
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({
+  attachment,
+  isNew,
+  onSave,
+  onCancel
+}) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [baseData, setBaseData] = useState<string | null>(null);
+  const [isFlattened, setIsFlattened] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<AnnotationDocument>({ layers: [] });
+  const [history, setHistory] = useState<AnnotationDocument[]>([]);
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  // Focus the editor so its keys work straight away
+  useEffect(() => {
+    overlayRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEditableImage(attachment)
+      .then(async ({ data, annotations, flattened }) => {
+        const loaded = await loadImage(data);
+        if (cancelled) return;
+        setBaseData(data);
+        setImage(loaded);
+        setAnnotations(annotations);
+        setIsFlattened(flattened);
+      })
+      .catch(error => {
+        console.error('Failed to open the screenshot for annotating:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  const sizes = defaultSizes(image?.naturalWidth || 0);
+  const draftLayers = drag?.layer ? [...annotations.layers, drag.layer] : annotations.layers;
+  const draftCrop = drag?.crop || annotations.crop;
+
+  // Redraw the image, its layers and the crop on every change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+    draftLayers.forEach(layer => drawLayer(ctx, layer, draftLayers));
+
+    if (draftCrop) {
+      // Dim what the crop leaves out
+      ctx.save();
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.beginPath();
+      ctx.rect(0, 0, canvas.width, canvas.height);
+      ctx.rect(draftCrop.x, draftCrop.y, draftCrop.width, draftCrop.height);
+      ctx.fill('evenodd');
+      ctx.restore();
+    }
+
+    const selected = draftLayers.find(layer => layer.id === selectedId);
+    if (selected) {
+      const bounds = layerBounds(ctx, selected);
+      const padding = sizes.lineWidth * 2;
+      ctx.save();
+      ctx.setLineDash([sizes.lineWidth * 2, sizes.lineWidth * 2]);
+      ctx.lineWidth = Math.max(1, sizes.lineWidth / 2);
+      ctx.strokeStyle = '#4285f4';
+      ctx.strokeRect(bounds.x - padding, bounds.y - padding, bounds.width + padding * 2, bounds.height + padding * 2);
+      ctx.restore();
+    }
+  }, [image, annotations, drag, selectedId]);
+
+  const commit = (next: AnnotationDocument) => {
+    setHistory(previous => [...previous, annotations]);
+    setAnnotations(next);
+  };
+
+  const updateLayer = (id: string, update: (layer: AnnotationLayer) => AnnotationLayer) => {
+    commit({ ...annotations, layers: annotations.layers.map(layer => layer.id === id ? update(layer) : layer) });
+  };
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    commit({ ...annotations, layers: annotations.layers.filter(layer => layer.id !== selectedId) });
+    setSelectedId(null);
+  };
+
+  const undo = () => {
+    if (!history.length) return;
+    setAnnotations(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+    setSelectedId(null);
+  };
+
+  const toImagePoint = (event: React.PointerEvent | React.MouseEvent): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const editText = (initial = ''): string | null => {
+    const text = prompt('Label text', initial);
+    return text && text.trim() ? text : null;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image || event.button !== 0) return;
+    const point = toImagePoint(event);
+    const id = uuidv4();
+
+    switch (tool) {
+      case 'select': {
+        const hit = hitTest(canvasRef.current!.getContext('2d')!, annotations.layers, point, sizes.lineWidth * 2);
+        setSelectedId(hit?.id || null);
+        if (hit) {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setDrag({ start: point, last: point, moving: hit.id });
+        }
+        return;
+      }
+      case 'text': {
+        const text = editText();
+        if (text) {
+          commit({
+            ...annotations,
+            layers: [...annotations.layers, { id, kind: 'text', at: point, text, color, fontSize: sizes.fontSize }]
+          });
+        }
+        return;
+      }
+      case 'callout':
+        commit({
+          ...annotations,
+          layers: [...annotations.layers, { id, kind: 'callout', at: point, color, radius: sizes.radius }]
+        });
+        return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const rect = { x: point.x, y: point.y, width: 0, height: 0 };
+    const layer: AnnotationLayer | undefined =
+      tool === 'arrow' ? { id, kind: 'arrow', from: point, to: point, color, lineWidth: sizes.lineWidth } :
+      tool === 'rectangle' ? { id, kind: 'rectangle', rect, color, lineWidth: sizes.lineWidth } :
+      tool === 'freehand' ? { id, kind: 'freehand', points: [point], color, lineWidth: sizes.lineWidth } :
+      tool === 'blur' || tool === 'pixelate' ? { id, kind: 'redaction', rect, style: tool } :
+      undefined;
+    setDrag({ start: point, last: point, layer, crop: tool === 'crop' ? rect : undefined });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    const point = toImagePoint(event);
+
+    if (drag.moving) {
+      setDrag({ ...drag, last: point });
+      const dx = point.x - drag.last.x;
+      const dy = point.y - drag.last.y;
+      // Moves show straight away but only the whole drag goes into the undo history
+      setAnnotations(current => ({
+        ...current,
+        layers: current.layers.map(layer => layer.id === drag.moving ? moveLayer(layer, dx, dy) : layer)
+      }));
+      return;
+    }
+
+    const layer = drag.layer;
+    const rect = normalizeRect(drag.start, point);
+    setDrag({
+      ...drag,
+      last: point,
+      crop: drag.crop && rect,
+      layer: !layer ? undefined :
+        layer.kind === 'arrow' ? { ...layer, to: point } :
+        layer.kind === 'freehand' ? { ...layer, points: [...layer.points, point] } :
+        layer.kind === 'rectangle' || layer.kind === 'redaction' ? { ...layer, rect } :
+        layer
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setDrag(null);
+
+    const distance = Math.hypot(drag.last.x - drag.start.x, drag.last.y - drag.start.y);
+    if (drag.moving) {
+      if (distance >= 1) {
+        // The layer has already moved; record where it started for undo
+        const before = annotations.layers.map(layer =>
+          layer.id === drag.moving ? moveLayer(layer, drag.start.x - drag.last.x, drag.start.y - drag.last.y) : layer
+        );
+        setHistory(previous => [...previous, { ...annotations, layers: before }]);
+      }
+      return;
+    }
+    if (distance < MIN_DRAG * (canvasRef.current!.width / canvasRef.current!.getBoundingClientRect().width)) return;
+
+    if (drag.crop) {
+      commit({ ...annotations, crop: drag.crop });
+    } else if (drag.layer) {
+      commit({ ...annotations, layers: [...annotations.layers, drag.layer] });
+      setSelectedId(null);
+    }
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool !== 'select') return;
+    const hit = hitTest(canvasRef.current!.getContext('2d')!, annotations.layers, toImagePoint(event), sizes.lineWidth * 2);
+    if (hit?.kind !== 'text') return;
+    const text = editText(hit.text);
+    if (text) {
+      updateLayer(hit.id, layer => ({ ...layer, text }));
+    }
+  };
+
+  const handleColorChange = (nextColor: string) => {
+    setColor(nextColor);
+    const selected = annotations.layers.find(layer => layer.id === selectedId);
+    if (selected && selected.kind !== 'redaction') {
+      updateLayer(selected.id, layer => ({ ...layer, color: nextColor }));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Keep the panel's own shortcuts out of the editor
+    event.stopPropagation();
+    if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+      event.preventDefault();
+      removeSelected();
+    } else if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      undo();
+    } else if (event.key === 'Escape') {
+      if (selectedId) {
+        setSelectedId(null);
+      } else {
+        onCancel();
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    if (!image || !baseData) return;
+    const hasAnnotations = annotations.layers.length > 0 || !!annotations.crop;
+    // A new screenshot left as it was goes in without another round of compression
+    if (!hasAnnotations && (isNew || !attachment.annotations)) {
+      if (isNew) {
+        onSave(attachment);
+      } else {
+        onCancel();
+      }
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const canvas = renderAnnotatedImage(image, annotations);
+      const processedImage = await processImage(canvas.toDataURL('image/png'), {
+        format: 'webp',
+        quality: 85,
+        progressive: true
+      });
+      const { annotations: previousAnnotations, originalData, ...rest } = attachment;
+      onSave({
+        ...rest,
+        screenshotData: processedImage.dataUrl,
+        thumbnailData: processedImage.thumbnailUrl,
+        syncStatus: 'pending',
+        ...(hasAnnotations ? { annotations, originalData: baseData } : {}),
+        metadata: {
+          ...attachment.metadata,
+          format: processedImage.format,
+          originalSize: processedImage.originalSize,
+          processedSize: processedImage.processedSize,
+          compressionRatio: processedImage.compressionRatio,
+          width: canvas.width,
+          height: canvas.height,
+          isLazyLoaded: true
+        }
+      });
+    } catch (error) {
+      console.error('Failed to save the annotated screenshot:', error);
+      alert('Failed to save the annotated screenshot. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selected = annotations.layers.find(layer => layer.id === selectedId);
+
+  return (
+    <div className="annotation-editor-overlay" ref={overlayRef} onKeyDown={handleKeyDown} tabIndex={-1}>
+      <div className="annotation-editor">
+        <div className="annotation-editor-header">
+          <h2>Annotate screenshot</h2>
+          <button className="close-button" onClick={onCancel}>×</button>
+        </div>
+
+        <div className="annotation-toolbar">
+          {TOOLS.map(({ tool: option, icon, label }) => (
+            <button
+              key={option}
+              className={`annotation-tool ${tool === option ? 'active' : ''}`}
+              onClick={() => {
+                setTool(option);
+                if (option !== 'select') setSelectedId(null);
+              }}
+              title={label}
+            >
+              {icon}
+            </button>
+          ))}
+          <span className="annotation-toolbar-divider" />
+          {ANNOTATION_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              className={`annotation-color ${color === swatch ? 'active' : ''}`}
+              style={{ backgroundColor: swatch }}
+              onClick={() => handleColorChange(swatch)}
+              title={swatch}
+            />
+          ))}
+        </div>
+
+        {isFlattened && (
+          <div className="annotation-editor-notice">
+            Earlier annotations are part of the image now and can't be edited.
+          </div>
+        )}
+
+        <div className="annotation-canvas-container">
+          {loadError ? (
+            <div className="annotation-editor-empty">{loadError}</div>
+          ) : !image ? (
+            <div className="annotation-editor-empty">Loading...</div>
+          ) : (
+            <canvas
+              ref={canvasRef}
+              className={`annotation-canvas tool-${tool}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onDoubleClick={handleDoubleClick}
+            />
+          )}
+        </div>
+
+        <div className="annotation-editor-footer">
+          <div className="annotation-editor-actions">
+            <button onClick={undo} disabled={!history.length}>Undo</button>
+            <button onClick={removeSelected} disabled={!selected}>Delete</button>
+            {annotations.crop && (
+              <button onClick={() => commit({ ...annotations, crop: undefined })}>Remove crop</button>
+            )}
+          </div>
+          <div className="annotation-editor-actions">
+            <button onClick={onCancel}>{isNew ? 'Discard' : 'Cancel'}</button>
+            <button className="primary" onClick={handleSave} disabled={!image || isSaving}>
+              {isSaving ? 'Saving...' : isNew ? 'Attach' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
+import { ScreenshotType } from '../lib/Attachment';
 import '../styles/components/attachment-menu.css';
 
 interface AttachmentMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onUrlCapture: (url: string) => Promise<void>;
-  onScreenshotCapture: (type: 'visible' | 'full') => Promise<void>;
+  onScreenshotCapture: (type: ScreenshotType) => Promise<void>;
 }
 
 export const AttachmentMenu: React.FC<AttachmentMenuProps> = ({
@@ -42,7 +43,7 @@ export const AttachmentMenu: React.FC<AttachmentMenuProps> = ({
     }
   };
 
-  const handleScreenshotCapture = async (type: 'visible' | 'full') => {
+  const handleScreenshotCapture = async (type: ScreenshotType) => {
     setIsLoading(true);
     setCaptureType('screenshot');
     try {      
@@ -87,16 +88,34 @@ export const AttachmentMenu: React.FC<AttachmentMenuProps> = ({
 
           <button
             className="attachment-option"
-            onClick={() => handleScreenshotCapture('visible')} // capture full visiable area
+            onClick={() => handleScreenshotCapture('visible')}
             disabled={isLoading}
           >
             <span className="icon">📷</span>
+            <span className="label">Capture visible area</span>
+          </button>
+
+          <button
+            className="attachment-option"
+            onClick={() => handleScreenshotCapture('full')}
+            disabled={isLoading}
+          >
+            <span className="icon">📜</span>
             <span className="label">Capture full page</span>
           </button>
 
           <button
             className="attachment-option"
-            onClick={() => handleScreenshotCapture('full')} //capture 
+            onClick={() => handleScreenshotCapture('element')}
+            disabled={isLoading}
+          >
+            <span className="icon">🎯</span>
+            <span className="label">Capture page element</span>
+          </button>
+
+          <button
+            className="attachment-option"
+            onClick={() => handleScreenshotCapture('area')}
             disabled={isLoading}
           >
             <span className="icon">📸</span>
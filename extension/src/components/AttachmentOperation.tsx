@@ -1,41 +1,55 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Attachment } from '../lib/Attachment';
+import { loadAttachmentImage } from '../lib/attachmentImage';
 import '../styles/components/attachment-operation.css';
 
 interface AttachmentOperationProps {
   attachment: Attachment;
   onRemove: (attachment: Attachment) => void;
+  onAnnotate?: (attachment: Attachment) => void;
+  onOpen?: (attachment: Attachment) => void;
   isPending?: boolean;
 }
 
 export const AttachmentOperation: React.FC<AttachmentOperationProps> = ({
   attachment,
   onRemove,
+  onAnnotate,
+  onOpen,
   isPending
 }) => {
-  const [isImageLoaded, setIsImageLoaded] = useState(false);
+  const [imageData, setImageData] = useState<string | null>(attachment.screenshotData || null);
   const [isImageLoading, setIsImageLoading] = useState(false);
 
+  // Tabs only carry a thumbnail of a screenshot until its full image is loaded
+  const fetchImageData = async (): Promise<string | null> => {
+    setIsImageLoading(true);
+    try {
+      const data = await loadAttachmentImage(attachment);
+      setImageData(data);
+      return data;
+    } catch (error) {
+      console.error(`Failed to load attachment ${attachment.id}:`, error);
+      return null;
+    } finally {
+      setIsImageLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setImageData(attachment.screenshotData || null);
+    // Without a thumbnail there is nothing to preview until the full image loads
+    if (attachment.type === 'screenshot' && !attachment.thumbnailData && !attachment.screenshotData) {
+      fetchImageData();
+    }
+  }, [attachment.id, attachment.screenshotData, attachment.thumbnailData]);
+
   const handleClick = () => {
     if (attachment.type === 'url' && attachment.url) {
       window.open(attachment.url, '_blank');
     } else if (attachment.type === 'screenshot') {
-      if (attachment.screenshotData) {
-        // Open screenshot in new tab
-        const win = window.open();
-        if (win) {
-          win.document.write(`<img src="${attachment.screenshotData}" />`);
-        }
-      } else if (attachment.metadata?.isLazyLoaded && !isImageLoaded && !isImageLoading) {
-        // Trigger lazy loading of the full image
-        setIsImageLoading(true);
-        // This would typically call a function to load the full image data
-        // For now, we'll just show a loading indicator
-        setTimeout(() => {
-          setIsImageLoading(false);
-          setIsImageLoaded(true);
-        }, 1000);
-      }
+      // The viewer loads the full image itself
+      onOpen?.(attachment);
     }
   };
 
@@ -44,6 +58,11 @@ export const AttachmentOperation: React.FC<AttachmentOperationProps> = ({
     onRemove(attachment);
   };
 
+  const handleAnnotate = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onAnnotate?.(attachment);
+  };
+
   // Function to truncate URL to max 20 characters
   const truncateUrl = (url: string | undefined) => {
     if (!url) return '';
@@ -56,6 +75,12 @@ export const AttachmentOperation: React.FC<AttachmentOperationProps> = ({
     return cleanUrl;
   };
 
+  // Clipped attachments name the page they came from
+  const sourceLabel = attachment.source ? `\nFrom ${attachment.source.title || attachment.source.url}` : '';
+  // Element screenshots name the element they were taken of
+  const element = attachment.metadata?.element;
+  const elementLabel = element ? `\n${element.selector}${element.text ? `: ${element.text}` : ''}` : '';
+
   return (
     <div className="attachment-item" onClick={handleClick}>
       {attachment.type === 'url' ? (
@@ -74,7 +99,7 @@ export const AttachmentOperation: React.FC<AttachmentOperationProps> = ({
               />
             )}
           </div>
-          <span className="url-text" title={attachment.url}>
+          <span className="url-text" title={`${attachment.url}${sourceLabel}`}>
             {truncateUrl(attachment.url)}
           </span>
           <button className="remove-btn" onClick={handleRemove}>×</button>
@@ -85,11 +110,15 @@ export const AttachmentOperation: React.FC<AttachmentOperationProps> = ({
             <div className="loading-indicator">Loading...</div>
           ) : (
             <img 
-              src={attachment.thumbnailData || attachment.screenshotData} 
+              src={attachment.thumbnailData || imageData || undefined} 
               alt="Screenshot" 
-              className={`thumbnail ${attachment.thumbnailData && !isImageLoaded ? 'is-thumbnail' : ''}`}
+              title={`${elementLabel}${sourceLabel}`.trim() || undefined}
+              className={`thumbnail ${attachment.thumbnailData ? 'is-thumbnail' : ''}`}
             />
           )}
+          {onAnnotate && (
+            <button className="annotate-btn" onClick={handleAnnotate} title="Annotate">✎</button>
+          )}
           <button className="remove-btn" onClick={handleRemove}>×</button>
         </div>
       )}
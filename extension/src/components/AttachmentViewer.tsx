@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment, SCREENSHOT_LABELS, dataUrlToBlob } from '../lib/Attachment';
+import { loadAttachmentImage } from '../lib/attachmentImage';
+import { downloadExportFile } from '../lib/noteExport';
+import '../styles/components/attachment-viewer.css';
+
+interface AttachmentViewerProps {
+  attachments: Attachment[];
+  initialIndex: number;
+  onClose: () => void;
+  onAnnotate?: (attachment: Attachment) => void;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 8;
+const ZOOM_STEP = 1.25;
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const downloadFilename = (attachment: Attachment, mimeType: string) => {
+  const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return `screenshot-${attachment.id}.${extension}`;
+};
+
+// Lightbox for a note's attachments, with zoom and pan for screenshots
+export const AttachmentViewer: React.FC<AttachmentViewerProps> = ({
+  attachments,
+  initialIndex,
+  onClose,
+  onAnnotate
+}) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [images, setImages] = useState<Record<number, string>>({});
+  const [loadErrors, setLoadErrors] = useState<Record<number, boolean>>({});
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [fitScale, setFitScale] = useState(1);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const attachment = attachments[Math.min(index, attachments.length - 1)];
+  const imageData = attachment ? images[attachment.id] : undefined;
+
+  useEffect(() => {
+    overlayRef.current?.focus();
+  }, []);
+
+  // Load the full image of the shown screenshot on demand
+  useEffect(() => {
+    setNaturalSize(null);
+    if (!attachment || attachment.type !== 'screenshot' || images[attachment.id]) return;
+
+    let cancelled = false;
+    loadAttachmentImage(attachment)
+      .then(data => {
+        if (cancelled) return;
+        if (data) {
+          setImages(previous => ({ ...previous, [attachment.id]: data }));
+        } else {
+          setLoadErrors(previous => ({ ...previous, [attachment.id]: true }));
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to load attachment ${attachment.id}:`, error);
+        if (!cancelled) setLoadErrors(previous => ({ ...previous, [attachment.id]: true }));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment?.id]);
+
+  // Whole image in view, centred
+  const fitView = (size = naturalSize) => {
+    const stage = stageRef.current;
+    if (!stage || !size) return;
+    const scale = Math.min(1, stage.clientWidth / size.width, stage.clientHeight / size.height);
+    setFitScale(scale);
+    setView({
+      scale,
+      x: (stage.clientWidth - size.width * scale) / 2,
+      y: (stage.clientHeight - size.height * scale) / 2
+    });
+  };
+
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const size = { width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight };
+    setNaturalSize(size);
+    fitView(size);
+  };
+
+  // Zoom keeping the point under (clientX, clientY) in place; the stage centre by default
+  const zoom = (nextScale: (scale: number) => number, clientX?: number, clientY?: number) => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const rect = stage.getBoundingClientRect();
+    const originX = clientX !== undefined ? clientX - rect.left : rect.width / 2;
+    const originY = clientY !== undefined ? clientY - rect.top : rect.height / 2;
+    setView(current => {
+      const scale = clampScale(nextScale(current.scale));
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: originX - (originX - current.x) * ratio,
+        y: originY - (originY - current.y) * ratio
+      };
+    });
+  };
+
+  const zoomBy = (factor: number) => zoom(scale => scale * factor);
+
+  // Registered by hand: React's wheel listeners are passive, and the page behind shouldn't scroll
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || !naturalSize) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      zoom(scale => scale * factor, event.clientX, event.clientY);
+    };
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  }, [naturalSize]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!naturalSize || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    panRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    setView(current => ({
+      ...current,
+      x: pan.x + event.clientX - pan.pointerX,
+      y: pan.y + event.clientY - pan.pointerY
+    }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!panRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    panRef.current = null;
+  };
+
+  // Double-click switches between fitting the image and showing it at full size
+  const handleDoubleClick = (event: React.MouseEvent) => {
+    if (!naturalSize) return;
+    if (Math.abs(view.scale - fitScale) < 0.01) {
+      zoom(() => 1, event.clientX, event.clientY);
+    } else {
+      fitView();
+    }
+  };
+
+  const showAdjacent = (offset: 1 | -1) => {
+    if (attachments.length < 2) return;
+    setIndex(current => (current + offset + attachments.length) % attachments.length);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Keep the panel's own shortcuts out of the viewer
+    event.stopPropagation();
+    switch (event.key) {
+      case 'Escape':
+        onClose();
+        break;
+      case 'ArrowRight':
+        showAdjacent(1);
+        break;
+      case 'ArrowLeft':
+        showAdjacent(-1);
+        break;
+      case '+':
+      case '=':
+        zoomBy(ZOOM_STEP);
+        break;
+      case '-':
+        zoomBy(1 / ZOOM_STEP);
+        break;
+      case '0':
+        fitView();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handleDownload = () => {
+    if (!attachment || !imageData) return;
+    const blob = dataUrlToBlob(imageData);
+    downloadExportFile({ filename: downloadFilename(attachment, blob.type), blob });
+  };
+
+  if (!attachment) return null;
+
+  const { metadata, source } = attachment;
+  const width = naturalSize?.width ?? metadata?.width;
+  const height = naturalSize?.height ?? metadata?.height;
+
+  return (
+    <div className="attachment-viewer-overlay" ref={overlayRef} onKeyDown={handleKeyDown} tabIndex={-1}>
+      <div className="attachment-viewer">
+        <div className="attachment-viewer-header">
+          <h2>
+            {attachment.type === 'screenshot'
+              ? `${SCREENSHOT_LABELS[attachment.screenshotType || 'visible']} screenshot`
+              : 'Link'}
+          </h2>
+          <span className="attachment-viewer-position">{index + 1} of {attachments.length}</span>
+          <button className="close-button" onClick={onClose}>×</button>
+        </div>
+
+        <div className="attachment-viewer-body">
+          {attachments.length > 1 && (
+            <button className="attachment-viewer-nav previous" onClick={() => showAdjacent(-1)} title="Previous (←)">‹</button>
+          )}
+
+          {attachment.type === 'url' ? (
+            <div className="attachment-viewer-link">
+              <a href={attachment.url} target="_blank" rel="noopener noreferrer">{attachment.url}</a>
+            </div>
+          ) : (
+            <div
+              ref={stageRef}
+              className={`attachment-viewer-stage ${naturalSize ? 'loaded' : ''}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onDoubleClick={handleDoubleClick}
+            >
+              {imageData ? (
+                <img
+                  key={attachment.id}
+                  src={imageData}
+                  alt="Screenshot"
+                  draggable={false}
+                  onLoad={handleImageLoad}
+                  style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+                />
+              ) : loadErrors[attachment.id] ? (
+                <div className="attachment-viewer-empty">The image couldn't be loaded.</div>
+              ) : (
+                <>
+                  {attachment.thumbnailData && (
+                    <img className="attachment-viewer-placeholder" src={attachment.thumbnailData} alt="" />
+                  )}
+                  <div className="attachment-viewer-empty">Loading...</div>
+                </>
+              )}
+            </div>
+          )}
+
+          {attachments.length > 1 && (
+            <button className="attachment-viewer-nav next" onClick={() => showAdjacent(1)} title="Next (→)">›</button>
+          )}
+        </div>
+
+        <div className="attachment-viewer-footer">
+          <dl className="attachment-viewer-details">
+            {width && height && (
+              <>
+                <dt>Dimensions</dt>
+                <dd>{width} × {height}</dd>
+              </>
+            )}
+            {metadata && (
+              <>
+                <dt>Size</dt>
+                <dd>
+                  {formatSize(metadata.processedSize)}
+                  {metadata.compressionRatio > 1 && ` (${metadata.compressionRatio.toFixed(1)}× smaller than ${formatSize(metadata.originalSize)})`}
+                </dd>
+              </>
+            )}
+            {source && (
+              <>
+                <dt>Captured from</dt>
+                <dd>
+                  <a href={source.url} target="_blank" rel="noopener noreferrer" title={source.url}>
+                    {source.title || source.url}
+                  </a>
+                </dd>
+              </>
+            )}
+            {metadata?.element && (
+              <>
+                <dt>Element</dt>
+                <dd title={metadata.element.text}>{metadata.element.selector}</dd>
+              </>
+            )}
+            <dt>Added</dt>
+            <dd>{new Date(attachment.createdAt).toLocaleString()}</dd>
+          </dl>
+
+          {attachment.type === 'screenshot' && (
+            <div className="attachment-viewer-actions">
+              <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={!naturalSize} title="Zoom out (-)">−</button>
+              <button onClick={() => fitView()} disabled={!naturalSize} title="Fit (0)">
+                {Math.round(view.scale * 100)}%
+              </button>
+              <button onClick={() => zoomBy(ZOOM_STEP)} disabled={!naturalSize} title="Zoom in (+)">+</button>
+              {onAnnotate && (
+                <button onClick={() => onAnnotate(attachment)}>Annotate</button>
+              )}
+              <button className="primary" onClick={handleDownload} disabled={!imageData}>Download original</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
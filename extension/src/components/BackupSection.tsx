@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BackupProxy, BackupPreview, SavedBackup, DatabaseRestoreMode } from '../lib/BackupProxy';
+import { BackupSettings, BackupSchedule, BackupFrequency } from '../lib/BackupSettings';
+import { downloadExportFile } from '../lib/noteExport';
+import '../styles/components/backup.css';
+
+// Where the archive being previewed came from
+type RestoreSource = { kind: 'file'; name: string; text: string } | { kind: 'saved'; id: string };
+
+const FREQUENCY_LABELS: Record<BackupFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const downloadBackup = (text: string, createdAt: string) => {
+  downloadExportFile({
+    filename: `notes-backup-${createdAt.slice(0, 10)}.json`,
+    blob: new Blob([text], { type: 'application/json' })
+  });
+};
+
+export const BackupSection: React.FC = () => {
+  const [schedule, setSchedule] = useState<BackupSchedule>(BackupSettings.DEFAULT_SCHEDULE);
+  const [savedBackups, setSavedBackups] = useState<SavedBackup[]>([]);
+  const [restoreSource, setRestoreSource] = useState<RestoreSource | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSavedBackups = async () => {
+    try {
+      setSavedBackups(await BackupProxy.listBackups());
+    } catch (error) {
+      console.error('Failed to load saved backups:', error);
+    }
+  };
+
+  useEffect(() => {
+    BackupSettings.getSchedule().then(setSchedule);
+    loadSavedBackups();
+  }, []);
+
+  // Run a backup action with the buttons disabled, reporting any error
+  const runAction = async (action: () => Promise<string | void>) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const message = await action();
+      if (message) {
+        setStatus({ message, isError: false });
+      }
+    } catch (error) {
+      setStatus({ message: (error as Error).message, isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBackupNow = () => runAction(async () => {
+    const text = await BackupProxy.createBackup();
+    downloadBackup(text, new Date().toISOString());
+    return 'Backup downloaded';
+  });
+
+  const handleSaveLocal = () => runAction(async () => {
+    await BackupProxy.saveBackup();
+    await loadSavedBackups();
+    return 'Backup saved in the extension';
+  });
+
+  const handleScheduleChange = async (changes: Partial<BackupSchedule>) => {
+    setSchedule(prev => ({ ...prev, ...changes }));
+    try {
+      await BackupSettings.setSchedule(changes);
+    } catch (error) {
+      console.error('Failed to save backup schedule:', error);
+    }
+  };
+
+  const showPreview = (source: RestoreSource) => runAction(async () => {
+    setRestoreSource(null);
+    setPreview(null);
+    const result = source.kind === 'file'
+      ? await BackupProxy.previewBackup(source.text)
+      : await BackupProxy.previewSavedBackup(source.id);
+    setRestoreSource(source);
+    setPreview(result);
+  });
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    showPreview({ kind: 'file', name: file.name, text: await file.text() });
+  };
+
+  const handleRestore = (mode: DatabaseRestoreMode) => {
+    if (!restoreSource) return;
+    if (mode === 'replace' && !window.confirm(
+      'Replace all notes, notebooks, cached tabs and settings with this backup? Anything not in the backup will be lost.'
+    )) {
+      return;
+    }
+
+    runAction(async () => {
+      const result = restoreSource.kind === 'file'
+        ? await BackupProxy.restoreBackup(restoreSource.text, mode)
+        : await BackupProxy.restoreSavedBackup(restoreSource.id, mode);
+      setRestoreSource(null);
+      setPreview(null);
+      const kept = result.notesKept > 0 ? `, kept ${result.notesKept} newer local note(s)` : '';
+      return `Restored ${result.notesWritten} note(s)${kept}. Reopen the notes panel to see the changes.`;
+    });
+  };
+
+  const handleDownloadSaved = (backup: SavedBackup) => runAction(async () => {
+    downloadBackup(await BackupProxy.getBackup(backup.id), backup.createdAt);
+  });
+
+  const handleDeleteSaved = (backup: SavedBackup) => {
+    if (!window.confirm(`Delete the backup from ${new Date(backup.createdAt).toLocaleString()}?`)) return;
+    runAction(async () => {
+      await BackupProxy.deleteBackup(backup.id);
+      await loadSavedBackups();
+    });
+  };
+
+  return (
+    <div className="menu-section backup-section">
+      <h3 className="menu-title">Backup</h3>
+      <div className="backup-actions">
+        <button onClick={handleBackupNow} disabled={isBusy}>Back up now</button>
+        <button onClick={handleSaveLocal} disabled={isBusy}>Save in extension</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={isBusy}>Restore…</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={handleFileSelected}
+        />
+      </div>
+
+      {preview && restoreSource && (
+        <div className="backup-preview">
+          <div className="backup-preview-title">
+            {restoreSource.kind === 'file' ? restoreSource.name : 'Saved backup'} from{' '}
+            {new Date(preview.summary.createdAt).toLocaleString()}
+          </div>
+          <ul className="backup-preview-counts">
+            <li>{preview.summary.notes} note(s), {preview.summary.trashedNotes} in the trash</li>
+            <li>{preview.summary.notebooks} notebook(s), {preview.summary.revisions} revision(s)</li>
+            <li>{preview.summary.attachments} image attachment(s)</li>
+            <li>{preview.summary.storageEntries} cached tab and setting entries</li>
+          </ul>
+          <div className="backup-preview-merge">
+            Merge adds {preview.merge.added} note(s) and updates {preview.merge.updated};{' '}
+            {preview.merge.kept} local note(s) are the same or newer and stay as they are.
+          </div>
+          <div className="backup-preview-actions">
+            <button onClick={() => handleRestore('merge')} disabled={isBusy}>Merge</button>
+            <button className="danger" onClick={() => handleRestore('replace')} disabled={isBusy}>Replace</button>
+            <button onClick={() => { setRestoreSource(null); setPreview(null); }} disabled={isBusy}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div className={`backup-status ${status.isError ? 'error' : ''}`}>{status.message}</div>
+      )}
+
+      <div className="menu-options">
+        <label className="menu-option">
+          <span className="menu-option-label">Automatic backups</span>
+          <select
+            className="menu-select"
+            value={schedule.frequency}
+            onChange={(e) => handleScheduleChange({ frequency: e.target.value as BackupFrequency })}
+          >
+            {BackupSettings.FREQUENCY_OPTIONS.map(frequency => (
+              <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="menu-option">
+          <span className="menu-option-label">Keep last</span>
+          <select
+            className="menu-select"
+            value={schedule.keep}
+            disabled={schedule.frequency === 'off'}
+            onChange={(e) => handleScheduleChange({ keep: Number(e.target.value) })}
+          >
+            {BackupSettings.KEEP_OPTIONS.map(count => (
+              <option key={count} value={count}>{count} backups</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {savedBackups.length > 0 && (
+        <ul className="backup-list">
+          {savedBackups.map(backup => (
+            <li key={backup.id} className="backup-list-item">
+              <div className="backup-list-info">
+                <span>{new Date(backup.createdAt).toLocaleString()}</span>
+                <span className="backup-list-meta">
+                  {backup.trigger === 'scheduled' ? 'Automatic' : 'Manual'} · {backup.summary.notes} note(s) · {formatSize(backup.size)}
+                </span>
+              </div>
+              <div className="backup-list-actions">
+                <button onClick={() => showPreview({ kind: 'saved', id: backup.id })} disabled={isBusy}>Restore</button>
+                <button onClick={() => handleDownloadSaved(backup)} disabled={isBusy}>Download</button>
+                <button className="danger" onClick={() => handleDeleteSaved(backup)} disabled={isBusy}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BackupSection;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { FullPageProgress } from '../UI/fullPageCapture';
+import '../styles/components/capture-progress.css';
+
+interface CaptureProgressProps {
+  progress: FullPageProgress;
+  onCancel: () => void;
+}
+
+const describeProgress = ({ phase, done, total }: FullPageProgress): string => {
+  if (!total) return 'Preparing capture...';
+  if (phase === 'capture') return `Capturing screen ${done} of ${total}...`;
+  return total > 1 ? `Processing image ${Math.min(done + 1, total)} of ${total}...` : 'Processing image...';
+};
+
+// Progress of a full-page capture; the panel reappears between screens so it can be cancelled
+export const CaptureProgress: React.FC<CaptureProgressProps> = ({ progress, onCancel }) => {
+  const percent = progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="capture-progress">
+      <div className="capture-progress-label">{describeProgress(progress)}</div>
+      <div className="capture-progress-bar">
+        <div className={`capture-progress-fill ${progress.phase}`} style={{ width: `${percent}%` }} />
+      </div>
+      <button className="capture-progress-cancel" onClick={onCancel}>Cancel</button>
+    </div>
+  );
+};
+
+export default CaptureProgress;
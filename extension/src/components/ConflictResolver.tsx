@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DBProxy as NotesDB, Note, NoteParent, NoteRevision, NoteResolution } from '../lib/DBProxy';
+import { Attachment, SCREENSHOT_LABELS } from '../lib/Attachment';
+import { extractPlainText } from '../lib/searchIndex';
+import { ConflictChoice, MergeSide, buildMergedContent, mergeNotes } from '../lib/noteMerge';
+import { isRpcError } from '../lib/rpc';
+import '../styles/components/conflict-resolver.css';
+
+// Unsaved edits from the editor whose save hit a newer version
+export interface ConflictDraft {
+  title: string;
+  content: string;
+  attachments: Attachment[];
+  tags: string[];
+  baseVersion: number; // The version the edits started from
+}
+
+interface ConflictResolverProps {
+  isOpen: boolean;
+  noteId?: string;
+  // Left out for a conflict pulled in by sync, where the saved note is mine
+  draft?: ConflictDraft | null;
+  onClose: () => void;
+  onResolve: (note: Note) => void;
+}
+
+interface LoadedConflict {
+  mine: MergeSide;
+  theirs: MergeSide;
+  theirsSource: string;
+  base: NoteRevision | null; // Common version for a three-way merge, when known
+  parents: NoteParent[];
+  expectedVersion: number;
+}
+
+type Resolution = 'mine' | 'theirs' | 'merge';
+
+const toMergeSide = (note: { title: string; content: string; tags?: string[]; attachments?: Attachment[] }): MergeSide => ({
+  title: note.title,
+  content: note.content,
+  tags: note.tags || [],
+  attachments: note.attachments || []
+});
+
+const describeAttachment = (attachment: Attachment): string =>
+  attachment.url || `${SCREENSHOT_LABELS[attachment.screenshotType || 'visible']} screenshot`;
+
+const SidePreview: React.FC<{ label: string; side: MergeSide }> = ({ label, side }) => (
+  <div className="conflict-side">
+    <div className="conflict-side-label">{label}</div>
+    <div className="conflict-side-title">{side.title}</div>
+    <div className="conflict-side-content">{extractPlainText(side.content)}</div>
+    <div className="conflict-side-meta">
+      {side.tags.length > 0 && <span>Tags: {side.tags.join(', ')}</span>}
+      <span>{side.attachments.length} attachment{side.attachments.length === 1 ? '' : 's'}</span>
+    </div>
+  </div>
+);
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  isOpen,
+  noteId,
+  draft,
+  onClose,
+  onResolve
+}) => {
+  const [conflict, setConflict] = useState<LoadedConflict | null>(null);
+  const [resolution, setResolution] = useState<Resolution>('merge');
+  const [mergedTitle, setMergedTitle] = useState('');
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+  const [excludedAttachments, setExcludedAttachments] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen || !noteId) return;
+
+    const loadConflict = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const saved = await NotesDB.getNote(noteId);
+        if (!saved) throw new Error('Note not found');
+
+        if (draft) {
+          // Another tab saved over the version these edits started from
+          const base = await NotesDB.getRevision(noteId, draft.baseVersion);
+          setConflict({
+            mine: toMergeSide(draft),
+            theirs: toMergeSide(saved),
+            theirsSource: 'Saved in another tab',
+            base,
+            parents: [
+              { version: draft.baseVersion, updatedAt: base?.updatedAt ?? '' },
+              { version: saved.version, updatedAt: saved.updatedAt }
+            ],
+            expectedVersion: saved.version
+          });
+        } else {
+          const syncConflict = await NotesDB.getConflict(noteId);
+          if (!syncConflict) throw new Error('This note has no conflict to resolve');
+          const { theirs } = syncConflict;
+          setConflict({
+            mine: toMergeSide(saved),
+            theirs: toMergeSide(theirs),
+            theirsSource: 'Changed on another device',
+            base: null,
+            parents: [
+              { version: saved.version, updatedAt: saved.updatedAt },
+              { version: theirs.version, updatedAt: theirs.updatedAt }
+            ],
+            expectedVersion: saved.version
+          });
+        }
+      } catch (loadError) {
+        console.error('Failed to load conflict:', loadError);
+        setConflict(null);
+        setError((loadError as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConflict();
+  }, [isOpen, noteId, draft, reloadCount]);
+
+  const merge = useMemo(() => {
+    if (!conflict) return null;
+    return mergeNotes(conflict.base, conflict.mine, conflict.theirs);
+  }, [conflict]);
+
+  // Start every manual merge from the automatic result
+  useEffect(() => {
+    if (!merge || !conflict) return;
+    setMergedTitle(merge.title ?? conflict.mine.title);
+    setChoices(merge.segments.filter(segment => segment.type === 'conflict').map(() => 'mine'));
+    setExcludedAttachments(new Set());
+    setResolution('merge');
+  }, [merge, conflict]);
+
+  const conflictCount = merge ? merge.segments.filter(segment => segment.type === 'conflict').length : 0;
+
+  const buildResolution = (): NoteResolution | null => {
+    if (!conflict || !merge) return null;
+    if (resolution === 'mine') return conflict.mine;
+    if (resolution === 'theirs') return conflict.theirs;
+    return {
+      title: mergedTitle,
+      content: buildMergedContent(merge.segments, choices),
+      tags: merge.tags,
+      attachments: merge.attachments.filter(attachment => !excludedAttachments.has(attachment.id))
+    };
+  };
+
+  const handleSave = async () => {
+    const resolved = buildResolution();
+    if (!conflict || !noteId || !resolved) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const note = await NotesDB.resolveConflict(noteId, resolved, conflict.parents, conflict.expectedVersion);
+      onResolve(note);
+      onClose();
+    } catch (saveError) {
+      console.error('Failed to resolve conflict:', saveError);
+      if (isRpcError(saveError, 'VERSION_CONFLICT')) {
+        // Someone saved yet again; start over from the newest version
+        setError('The note changed again while you were merging. The comparison has been updated.');
+        setReloadCount(count => count + 1);
+      } else {
+        setError((saveError as Error).message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setChoice = (index: number, choice: ConflictChoice) => {
+    setChoices(prev => prev.map((current, i) => i === index ? choice : current));
+  };
+
+  const toggleAttachment = (id: number) => {
+    setExcludedAttachments(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  if (!isOpen) return null;
+
+  let conflictIndex = 0;
+  const mineAttachmentIds = new Set(conflict?.mine.attachments.map(attachment => attachment.id));
+  const theirAttachmentIds = new Set(conflict?.theirs.attachments.map(attachment => attachment.id));
+
+  return (
+    <div className="conflict-resolver-overlay">
+      <div className="conflict-resolver">
+        <div className="conflict-resolver-header">
+          <h2>Resolve conflict</h2>
+          <button className="close-button" onClick={onClose}>×</button>
+        </div>
+        {isLoading ? (
+          <div className="conflict-resolver-empty">Loading...</div>
+        ) : !conflict || !merge ? (
+          <div className="conflict-resolver-empty">{error || 'Nothing to resolve.'}</div>
+        ) : (
+          <div className="conflict-resolver-body">
+            <div className="conflict-caption">
+              This note was changed in two places. {conflict.theirsSource}
+              {conflict.base ? `, both starting from v${conflict.base.version}.` : '.'}
+            </div>
+            <div className="conflict-sides">
+              <SidePreview label="Mine" side={conflict.mine} />
+              <SidePreview label="Theirs" side={conflict.theirs} />
+            </div>
+
+            <div className="conflict-options">
+              <label>
+                <input type="radio" checked={resolution === 'mine'} onChange={() => setResolution('mine')} />
+                Keep mine
+              </label>
+              <label>
+                <input type="radio" checked={resolution === 'theirs'} onChange={() => setResolution('theirs')} />
+                Keep theirs
+              </label>
+              <label>
+                <input type="radio" checked={resolution === 'merge'} onChange={() => setResolution('merge')} />
+                Merge
+              </label>
+            </div>
+
+            {resolution === 'merge' && (
+              <div className="conflict-merge">
+                <label className="conflict-merge-field">
+                  <span>Title</span>
+                  <input type="text" value={mergedTitle} onChange={(e) => setMergedTitle(e.target.value)} />
+                </label>
+                {merge.title === null && (
+                  <div className="conflict-title-options">
+                    <button onClick={() => setMergedTitle(conflict.mine.title)}>Use mine</button>
+                    <button onClick={() => setMergedTitle(conflict.theirs.title)}>Use theirs</button>
+                  </div>
+                )}
+
+                <div className="conflict-merge-summary">
+                  {conflictCount === 0
+                    ? 'The content merged without conflicts.'
+                    : `${conflictCount} part${conflictCount === 1 ? '' : 's'} of the content changed on both sides:`}
+                </div>
+                {merge.segments.map((segment, segmentIndex) => {
+                  if (segment.type === 'resolved') return null;
+                  const index = conflictIndex++;
+                  return (
+                    <div key={segmentIndex} className="conflict-hunk">
+                      <div className="conflict-hunk-sides">
+                        <div className="conflict-hunk-side">{extractPlainText(segment.mine) || <em>(removed)</em>}</div>
+                        <div className="conflict-hunk-side">{extractPlainText(segment.theirs) || <em>(removed)</em>}</div>
+                      </div>
+                      <div className="conflict-hunk-choices">
+                        {(['mine', 'theirs', 'both'] as ConflictChoice[]).map(choice => (
+                          <label key={choice}>
+                            <input
+                              type="radio"
+                              checked={choices[index] === choice}
+                              onChange={() => setChoice(index, choice)}
+                            />
+                            {choice === 'mine' ? 'Mine' : choice === 'theirs' ? 'Theirs' : 'Both'}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {merge.tags.length > 0 && (
+                  <div className="conflict-merge-field">
+                    <span>Tags</span>
+                    <div>{merge.tags.join(', ')}</div>
+                  </div>
+                )}
+                {merge.attachments.length > 0 && (
+                  <div className="conflict-merge-field">
+                    <span>Attachments</span>
+                    <ul className="conflict-attachments">
+                      {merge.attachments.map(attachment => (
+                        <li key={attachment.id}>
+                          <label>
+                            <input
+                              type="checkbox"
+                              checked={!excludedAttachments.has(attachment.id)}
+                              onChange={() => toggleAttachment(attachment.id)}
+                            />
+                            {describeAttachment(attachment)}
+                            {!theirAttachmentIds.has(attachment.id) && ' (mine)'}
+                            {!mineAttachmentIds.has(attachment.id) && ' (theirs)'}
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {error && <div className="conflict-error">{error}</div>}
+            <div className="conflict-actions">
+              <button className="conflict-save-button" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save as new version'}
+              </button>
+              <button onClick={onClose} disabled={isSaving}>Cancel</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
@@ -1,21 +1,49 @@
 import React, { useState, useEffect } from 'react';
 import { ThemeManager } from '../UI/component';
+import { TrashManager } from '../lib/TrashManager';
+import { RevisionSettings, RevisionRetention } from '../lib/RevisionSettings';
+import BackupSection from './BackupSection';
+import VaultSection from './VaultSection';
+import SyncSection from './SyncSection';
 
 interface MenuProps {
   isOpen: boolean;
   onClose: () => void;
+  onShowShortcuts?: () => void;
 }
 
-const Menu: React.FC<MenuProps> = ({ isOpen, onClose }) => {
+const Menu: React.FC<MenuProps> = ({ isOpen, onClose, onShowShortcuts }) => {
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>(ThemeManager.getCurrentTheme());
+  const [retentionDays, setRetentionDays] = useState(TrashManager.DEFAULT_RETENTION_DAYS);
+  const [revisionRetention, setRevisionRetention] = useState<RevisionRetention>(RevisionSettings.DEFAULT_RETENTION);
 
   useEffect(() => {
     const updateTheme = () => {
       setTheme(ThemeManager.getCurrentTheme());
     };
     updateTheme();
+    TrashManager.getRetentionDays().then(setRetentionDays);
+    RevisionSettings.getRetention().then(setRevisionRetention);
   }, []);
 
+  const handleRevisionRetentionChange = async (changes: Partial<RevisionRetention>) => {
+    setRevisionRetention(prev => ({ ...prev, ...changes }));
+    try {
+      await RevisionSettings.setRetention(changes);
+    } catch (error) {
+      console.error('Failed to save revision retention:', error);
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    try {
+      await TrashManager.setRetentionDays(days);
+    } catch (error) {
+      console.error('Failed to save trash retention:', error);
+    }
+  };
+
   const handleThemeChange = async (newTheme: 'light' | 'dark' | 'system') => {
     await ThemeManager.setTheme(newTheme);
     setTheme(ThemeManager.getCurrentTheme());
@@ -67,6 +95,67 @@ const Menu: React.FC<MenuProps> = ({ isOpen, onClose }) => {
             </label>
           </div>
         </div>
+        <div className="menu-section">
+          <h3 className="menu-title">Trash</h3>
+          <label className="menu-option">
+            <span className="menu-option-label">
+              <span className="menu-option-icon">🗑</span>
+              Delete after
+            </span>
+            <select
+              className="menu-select"
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            >
+              {TrashManager.RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="menu-section">
+          <h3 className="menu-title">Version History</h3>
+          <div className="menu-options">
+            <label className="menu-option">
+              <span className="menu-option-label">Keep last</span>
+              <select
+                className="menu-select"
+                value={revisionRetention.maxRevisions}
+                onChange={(e) => handleRevisionRetentionChange({ maxRevisions: Number(e.target.value) })}
+              >
+                {RevisionSettings.MAX_REVISION_OPTIONS.map(count => (
+                  <option key={count} value={count}>{count === 0 ? 'All versions' : `${count} versions`}</option>
+                ))}
+              </select>
+            </label>
+            <label className="menu-option">
+              <span className="menu-option-label">One per day after</span>
+              <select
+                className="menu-select"
+                value={revisionRetention.thinAfterDays}
+                onChange={(e) => handleRevisionRetentionChange({ thinAfterDays: Number(e.target.value) })}
+              >
+                {RevisionSettings.THIN_AFTER_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days === 0 ? 'Never' : `${days} days`}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+        {onShowShortcuts && (
+          <div className="menu-section">
+            <h3 className="menu-title">Keyboard</h3>
+            <button className="menu-option menu-option-button" onClick={onShowShortcuts}>
+              <span className="menu-option-label">
+                <span className="menu-option-icon">⌨️</span>
+                Keyboard shortcuts
+              </span>
+            </button>
+          </div>
+        )}
+        <VaultSection />
+        <SyncSection />
+        <BackupSection />
       </div>
     </div>
   );
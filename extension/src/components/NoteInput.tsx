@@ -1,9 +1,11 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { Attachment } from '../lib/Attachment';
 import { AttachmentOperation } from './AttachmentOperation';
+import { AttachmentViewer } from './AttachmentViewer';
 import { TextFormatter } from '../lib/TextFormatter';
 import { ListFormatter } from '../lib/ListFormatter';
 import { SpreadsheetFormatter } from '../lib/SpreadsheetFormatter';
+import { TagInput } from './TagInput';
 import '../styles/components/note-input.css';
 import '../styles/components/list-formatting.css';
 import '../styles/components/spreadsheet.css';
@@ -14,6 +16,7 @@ interface NoteInputProps {
   content: string;
   attachments?: Attachment[];
   noteId?: string;
+  tags?: string[];
   // Tab ID for SpreadsheetFormatter
   tabId: string;
   // Simple change handlers
@@ -21,6 +24,8 @@ interface NoteInputProps {
   onContentChange: (content: string) => void;
   onAttachmentAdd: (attachment: Attachment) => void;
   onAttachmentRemove: (attachment: Attachment) => void;
+  onAttachmentAnnotate?: (attachment: Attachment) => void;
+  onTagsChange?: (tags: string[]) => void;
   // Attachment section expanded state
   isAttachmentSectionExpanded?: boolean;
   onAttachmentSectionExpandedChange?: (isExpanded: boolean) => void;
@@ -34,17 +39,21 @@ const NoteInput: React.FC<NoteInputProps> = ({
   title,
   content,
   attachments,
+  tags,
   tabId,
   onTitleChange,
   onContentChange,
   onAttachmentAdd,
   onAttachmentRemove,
+  onAttachmentAnnotate,
+  onTagsChange,
   isAttachmentSectionExpanded: propIsExpanded,
   onAttachmentSectionExpandedChange,
   onFormatChange,
   contentRef: externalContentRef
 }) => {
-  const [isLoadingAttachments, setIsLoadingAttachments] = useState(false);
+  // Index of the attachment open in the viewer
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
   const [isAttachmentSectionExpanded, setIsAttachmentSectionExpanded] = useState(propIsExpanded ?? false);
   const titleRef = useRef<HTMLDivElement>(null);
   // Use external ref if provided, otherwise create our own
@@ -59,31 +68,6 @@ const NoteInput: React.FC<NoteInputProps> = ({
     }
   }, [propIsExpanded]);
 
-  // Handle lazy loading of attachments if needed
-  useEffect(() => {
-    const loadLazyAttachments = async () => {
-      if (!attachments || attachments.length === 0) return;
-      
-      // Check if any attachments need to be lazy loaded
-      const needsLazyLoading = attachments.some(
-        attachment => attachment.metadata?.isLazyLoaded && !attachment.screenshotData
-      );
-      
-      if (needsLazyLoading) {
-        setIsLoadingAttachments(true);
-        try {
-          // In a real implementation, this would load the full attachment data
-          // For now, we'll just simulate a delay
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } finally {
-          setIsLoadingAttachments(false);
-        }
-      }
-    };
-    
-    loadLazyAttachments();
-  }, [attachments]);
-
   // Update the contenteditable divs when props change
   useEffect(() => {
     if (titleRef.current) {
@@ -573,6 +557,10 @@ const NoteInput: React.FC<NoteInputProps> = ({
           data-placeholder="Title"
           suppressContentEditableWarning
         ></div>
+
+        {onTagsChange && (
+          <TagInput tags={tags || []} onChange={onTagsChange} />
+        )}
         
         <div 
           ref={contentRef}
@@ -605,23 +593,31 @@ const NoteInput: React.FC<NoteInputProps> = ({
           
           {isAttachmentSectionExpanded && (
             <>
-              {isLoadingAttachments && (
-                <div className="attachments-loading">
-                  Loading...
-                </div>
-              )}
               <div className="attachments-list">
                 {attachments.map((attachment, index) => (
                   <AttachmentOperation
                     key={`${attachment.id}-${index}`}
                     attachment={attachment}
                     onRemove={onAttachmentRemove}
+                    onAnnotate={onAttachmentAnnotate}
+                    onOpen={() => setViewerIndex(index)}
                     isPending={attachment.syncStatus === 'pending'}
                   />
                 ))}
               </div>
             </>
           )}
+          {attachments && attachments.length > 0 && viewerIndex !== null && (
+            <AttachmentViewer
+              attachments={attachments}
+              initialIndex={viewerIndex}
+              onClose={() => setViewerIndex(null)}
+              onAnnotate={onAttachmentAnnotate && (attachment => {
+                setViewerIndex(null);
+                onAttachmentAnnotate(attachment);
+              })}
+            />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Notebook } from '../lib/DBProxy';
+import '../styles/components/notebook-tree.css';
+
+// 'all' shows every note, 'unfiled' shows notes outside any notebook
+export type NotebookSelection = 'all' | 'unfiled' | string;
+
+// Drag payload types, shared with NoteItem in NotesManager
+export const NOTE_DRAG_TYPE = 'application/x-ga-note';
+export const NOTEBOOK_DRAG_TYPE = 'application/x-ga-notebook';
+
+interface NotebookTreeProps {
+  notebooks: Notebook[];
+  noteCounts: Map<string | null, number>; // Direct note count per notebook id (null = unfiled)
+  totalCount: number;
+  selected: NotebookSelection;
+  onSelect: (selection: NotebookSelection) => void;
+  onMoveNote: (noteId: string, notebookId: string | null) => void;
+  onMoveNotebook: (notebookId: string, parentId: string | null) => void;
+  onCreateNotebook: (parentId: string | null) => void;
+  onRenameNotebook: (notebook: Notebook) => void;
+  onDeleteNotebook: (notebook: Notebook) => void;
+}
+
+/**
+ * Collect a notebook's id and the ids of all notebooks nested under it
+ */
+export const getNotebookSubtreeIds = (notebooks: Notebook[], rootId: string): Set<string> => {
+  const ids = new Set<string>([rootId]);
+  let added = true;
+  // Keep sweeping until no new children are found; trees are small
+  while (added) {
+    added = false;
+    notebooks.forEach(notebook => {
+      if (notebook.parentId && ids.has(notebook.parentId) && !ids.has(notebook.id)) {
+        ids.add(notebook.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+export const NotebookTree: React.FC<NotebookTreeProps> = ({
+  notebooks,
+  noteCounts,
+  totalCount,
+  selected,
+  onSelect,
+  onMoveNote,
+  onMoveNotebook,
+  onCreateNotebook,
+  onRenameNotebook,
+  onDeleteNotebook
+}) => {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const isDragAccepted = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes(NOTE_DRAG_TYPE) || e.dataTransfer.types.includes(NOTEBOOK_DRAG_TYPE);
+
+  const handleDragOver = (e: React.DragEvent, targetKey: string) => {
+    if (!isDragAccepted(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetId(targetKey);
+  };
+
+  // targetId is null when dropping onto the "Unfiled" entry
+  const handleDrop = (e: React.DragEvent, targetId: string | null) => {
+    e.preventDefault();
+    setDropTargetId(null);
+
+    const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (noteId) {
+      onMoveNote(noteId, targetId);
+      return;
+    }
+
+    const notebookId = e.dataTransfer.getData(NOTEBOOK_DRAG_TYPE);
+    if (notebookId && notebookId !== targetId) {
+      onMoveNotebook(notebookId, targetId);
+      if (targetId) {
+        setExpandedIds(prev => new Set(prev).add(targetId));
+      }
+    }
+  };
+
+  const renderNotebook = (notebook: Notebook, depth: number): React.ReactNode => {
+    const children = notebooks
+      .filter(child => child.parentId === notebook.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const isExpanded = expandedIds.has(notebook.id);
+
+    return (
+      <li key={notebook.id}>
+        <div
+          className={`notebook-tree-item ${selected === notebook.id ? 'selected' : ''} ${dropTargetId === notebook.id ? 'drop-target' : ''}`}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(NOTEBOOK_DRAG_TYPE, notebook.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => handleDragOver(e, notebook.id)}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => handleDrop(e, notebook.id)}
+          onClick={() => onSelect(notebook.id)}
+        >
+          <button
+            className="notebook-tree-toggle"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleExpanded(notebook.id);
+            }}
+            style={{ visibility: children.length > 0 ? 'visible' : 'hidden' }}
+          >
+            {isExpanded ? '▼' : '▶'}
+          </button>
+          <span className="notebook-tree-name">{notebook.name}</span>
+          <span className="notebook-tree-count">{noteCounts.get(notebook.id) || 0}</span>
+          <span className="notebook-tree-actions">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setExpandedIds(prev => new Set(prev).add(notebook.id));
+                onCreateNotebook(notebook.id);
+              }}
+              title="New notebook inside"
+            >
+              +
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRenameNotebook(notebook);
+              }}
+              title="Rename notebook"
+            >
+              ✎
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteNotebook(notebook);
+              }}
+              title="Delete notebook"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+        {isExpanded && children.length > 0 && (
+          <ul>{children.map(child => renderNotebook(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  const topLevel = notebooks
+    .filter(notebook => !notebook.parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="notebook-tree">
+      <div className="notebook-tree-header">
+        <span>Notebooks</span>
+        <button onClick={() => onCreateNotebook(null)} title="New notebook">+</button>
+      </div>
+      <ul>
+        <li>
+          <div
+            className={`notebook-tree-item ${selected === 'all' ? 'selected' : ''}`}
+            onClick={() => onSelect('all')}
+          >
+            <span className="notebook-tree-name">All notes</span>
+            <span className="notebook-tree-count">{totalCount}</span>
+          </div>
+        </li>
+        <li>
+          <div
+            className={`notebook-tree-item ${selected === 'unfiled' ? 'selected' : ''} ${dropTargetId === 'unfiled' ? 'drop-target' : ''}`}
+            onClick={() => onSelect('unfiled')}
+            onDragOver={(e) => handleDragOver(e, 'unfiled')}
+            onDragLeave={() => setDropTargetId(null)}
+            onDrop={(e) => handleDrop(e, null)}
+          >
+            <span className="notebook-tree-name">Unfiled</span>
+            <span className="notebook-tree-count">{noteCounts.get(null) || 0}</span>
+          </div>
+        </li>
+        {topLevel.map(notebook => renderNotebook(notebook, 0))}
+      </ul>
+    </div>
+  );
+};
+
+export default NotebookTree;
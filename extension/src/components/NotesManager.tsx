@@ -1,8 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { DBProxy as NotesDB } from '../lib/DBProxy';
+import { TabCacheManager } from '../lib/TabCacheManager';
+import { TrashManager } from '../lib/TrashManager';
+import { TrashView } from './TrashView';
+import { ExportFormat, EXPORT_FORMAT_LABELS, exportNotes, downloadExportFile } from '../lib/noteExport';
+import { IMPORT_ACCEPT, ImportReport, importFiles } from '../lib/noteImport';
 import '../styles/components/notes-manager.css';
 import { TabManagerRef } from './TabManager';
-import { Note } from '../lib/DBProxy';
+import { Note, Notebook, NoteSearchResult, SearchHighlight } from '../lib/DBProxy';
+import {
+  NotebookTree,
+  NotebookSelection,
+  NOTE_DRAG_TYPE,
+  getNotebookSubtreeIds
+} from './NotebookTree';
 
 interface NotesManagerProps {
   isOpen: boolean;
@@ -10,15 +21,31 @@ interface NotesManagerProps {
   onEditNote: (note: Note) => void;
   activeNoteId?: string;
   onNoteDelete?: (noteId: string) => void;
-  tabManagerRef: React.RefObject<TabManagerRef>;
+  tabManagerRef?: React.RefObject<TabManagerRef>;
+  docked?: boolean; // Shown as a column of the workspace instead of an overlay
+  reloadKey?: number; // Change to reload the list while it stays open
 }
 
 interface NoteItemProps {
   note: Note;
   onEdit: (note: Note) => void;
   onDelete: (id: string) => void;
+  onExport: (note: Note, format: ExportFormat) => void;
+  isSelected: boolean;
+  onToggleSelect: (id: string) => void;
+  searchResult?: NoteSearchResult;
 }
 
+type AttachmentFilter = 'all' | 'with' | 'without' | 'url' | 'screenshot';
+type TagMatchMode = 'and' | 'or';
+type SortField = 'relevance' | 'updated' | 'created' | 'title' | 'size';
+type SortDirection = 'asc' | 'desc';
+
+const SEARCH_DEBOUNCE_MS = 200;
+const SEARCH_RESULT_LIMIT = 500;
+// Wait for a burst of changes, such as a tag merge, before reloading the list
+const CHANGE_RELOAD_DELAY_MS = 300;
+
 // Function to strip HTML tags from content while handling spreadsheets specially
 const stripHtmlTags = (html: string): string => {
   // Create a temporary DOM element to parse HTML
@@ -41,25 +68,134 @@ const stripHtmlTags = (html: string): string => {
   return textContent;
 };
 
-const NoteItem: React.FC<NoteItemProps> = ({ note, onEdit, onDelete }) => {
+// Approximate storage size of a note: content plus attachment data
+const getNoteSize = (note: Note): number => {
+  const attachmentsSize = (note.attachments || []).reduce((total, attachment) => {
+    return total + (attachment.metadata?.processedSize || attachment.screenshotData?.length || 0);
+  }, 0);
+  return note.title.length + note.content.length + attachmentsSize;
+};
+
+const matchesAttachmentFilter = (note: Note, filter: AttachmentFilter): boolean => {
+  const attachments = note.attachments || [];
+  switch (filter) {
+    case 'with':
+      return attachments.length > 0;
+    case 'without':
+      return attachments.length === 0;
+    case 'url':
+    case 'screenshot':
+      return attachments.some(attachment => attachment.type === filter);
+    default:
+      return true;
+  }
+};
+
+// Date inputs give YYYY-MM-DD; the range is inclusive of both days
+const matchesDateRange = (note: Note, from: string, to: string): boolean => {
+  const updated = note.updatedAt.slice(0, 10);
+  if (from && updated < from) return false;
+  if (to && updated > to) return false;
+  return true;
+};
+
+const matchesTags = (note: Note, selectedTags: string[], mode: TagMatchMode): boolean => {
+  if (selectedTags.length === 0) return true;
+  const noteTags = note.tags || [];
+  return mode === 'and'
+    ? selectedTags.every(tag => noteTags.includes(tag))
+    : selectedTags.some(tag => noteTags.includes(tag));
+};
+
+const compareNotes = (a: Note, b: Note, field: SortField): number => {
+  switch (field) {
+    case 'created':
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    case 'title':
+      return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'size':
+      return getNoteSize(a) - getNoteSize(b);
+    default:
+      return new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+  }
+};
+
+// Wrap the highlighted ranges of text in <mark> elements
+const renderHighlighted = (text: string, highlights: SearchHighlight[] = []): React.ReactNode => {
+  if (highlights.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach((highlight, index) => {
+    if (highlight.start < cursor) return;
+    parts.push(text.slice(cursor, highlight.start));
+    parts.push(
+      <mark key={index} className="note-item-highlight">
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return parts;
+};
+
+const NoteItem: React.FC<NoteItemProps> = ({
+  note,
+  onEdit,
+  onDelete,
+  onExport,
+  isSelected,
+  onToggleSelect,
+  searchResult
+}) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const cleanedContent = stripHtmlTags(note.content);
   const previewContent = cleanedContent.slice(0, 30) + (cleanedContent.length > 30 ? '...' : '');
 
+  // Deleted notes go to the trash, so no confirmation is needed here
   const handleDelete = () => {
-    if (window.confirm('Are you sure you want to delete this note?')) {
-      onDelete(note.id);
-    }
+    setIsMenuOpen(false);
+    onDelete(note.id);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    setIsMenuOpen(false);
+    onExport(note, format);
   };
 
   return (
-    <div className="note-item">
+    <div
+      className={`note-item ${isSelected ? 'selected' : ''}`}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+    >
+      <input
+        type="checkbox"
+        className="note-item-select"
+        checked={isSelected}
+        onChange={() => onToggleSelect(note.id)}
+        title="Select for export"
+      />
       <div 
         className="note-item-content"
         onClick={() => onEdit(note)}
       >
-        <h3>{note.title}</h3>
-        <p>{previewContent}</p>
+        <h3>{renderHighlighted(note.title, searchResult?.titleHighlights)}</h3>
+        <p>
+          {searchResult
+            ? renderHighlighted(searchResult.snippet, searchResult.highlights)
+            : previewContent}
+        </p>
+        {note.tags && note.tags.length > 0 && (
+          <div className="note-item-tags">
+            {note.tags.map(tag => <span key={tag} className="tag-chip">#{tag}</span>)}
+          </div>
+        )}
         <small>{new Date(note.updatedAt).toLocaleDateString()}</small>
       </div>
       <div className="note-item-actions">
@@ -75,7 +211,12 @@ const NoteItem: React.FC<NoteItemProps> = ({ note, onEdit, onDelete }) => {
         </button>
         {isMenuOpen && (
           <div className="menu-dropdown">
-            <button onClick={handleDelete}>Delete</button>
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+              <button key={format} onClick={() => handleExport(format)}>
+                Export as {EXPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+            <button onClick={handleDelete}>Move to Trash</button>
           </div>
         )}
       </div>
@@ -89,32 +230,329 @@ export const NotesManager: React.FC<NotesManagerProps> = ({
   onEditNote,
   activeNoteId,
   onNoteDelete,
-  tabManagerRef
+  tabManagerRef,
+  docked = false,
+  reloadKey
 }) => {
   const [notes, setNotes] = useState<Note[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Map<string, NoteSearchResult> | null>(null);
+  const [attachmentFilter, setAttachmentFilter] = useState<AttachmentFilter>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [sortField, setSortField] = useState<SortField>('updated');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('and');
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [selectedNotebook, setSelectedNotebook] = useState<NotebookSelection>('all');
+  const [isTrashView, setIsTrashView] = useState(false);
+  const [trashedNotes, setTrashedNotes] = useState<Note[]>([]);
+  const [retentionDays, setRetentionDays] = useState(TrashManager.DEFAULT_RETENTION_DAYS);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const searchRequestRef = useRef(0);
+  // Bumped when notes change in another tab or through sync
+  const [changeCount, setChangeCount] = useState(0);
 
   useEffect(() => {
     if (isOpen) {
       loadNotes();
+    } else {
+      setIsTrashView(false);
+      setSelectedNoteIds(new Set());
+      setImportReport(null);
     }
+  }, [isOpen, reloadKey]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = NotesDB.onNotesChanged(() => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => setChangeCount(count => count + 1), CHANGE_RELOAD_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
   }, [isOpen]);
 
+  useEffect(() => {
+    if (changeCount === 0) return;
+    loadNotes();
+    if (isTrashView) {
+      loadTrash();
+    }
+  }, [changeCount]);
+
+  // Live search, debounced so we don't query on every keystroke
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const requestId = ++searchRequestRef.current;
+
+    if (!query) {
+      setSearchResults(null);
+      if (sortField === 'relevance') {
+        setSortField('updated');
+      }
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await NotesDB.searchNotes(query, { limit: SEARCH_RESULT_LIMIT });
+        // Ignore responses for queries that have since changed
+        if (requestId !== searchRequestRef.current) return;
+        setSearchResults(new Map(results.map(result => [result.note.id, result])));
+      } catch (error) {
+        console.error('Error searching notes:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, changeCount]);
+
+  const loadTrash = async () => {
+    try {
+      const [loadedTrash, days] = await Promise.all([
+        NotesDB.getTrashedNotes(),
+        TrashManager.getRetentionDays()
+      ]);
+      setTrashedNotes(loadedTrash);
+      setRetentionDays(days);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    }
+  };
+
+  const toggleTrashView = () => {
+    if (!isTrashView) {
+      loadTrash();
+    }
+    setIsTrashView(!isTrashView);
+  };
+
+  const handleRestoreNote = async (noteId: string) => {
+    try {
+      const restoredNote = await NotesDB.restoreNote(noteId);
+      setTrashedNotes(prev => prev.filter(note => note.id !== noteId));
+      setNotes(prev => [...prev, restoredNote]);
+    } catch (error) {
+      console.error('Failed to restore note:', error);
+    }
+  };
+
+  const handleDeleteForever = async (noteId: string) => {
+    if (!window.confirm('Delete this note forever? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await NotesDB.purgeNote(noteId);
+      await TabCacheManager.cleanupAttachmentsForNote(noteId);
+      setTrashedNotes(prev => prev.filter(note => note.id !== noteId));
+    } catch (error) {
+      console.error('Failed to delete note forever:', error);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Delete all ${trashedNotes.length} note(s) in the trash forever? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      // A retention of 0 days purges everything in the trash
+      const purgedIds = await NotesDB.purgeExpiredNotes(0);
+      for (const noteId of purgedIds) {
+        await TabCacheManager.cleanupAttachmentsForNote(noteId);
+      }
+      setTrashedNotes([]);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+    }
+  };
+
   const loadNotes = async () => {
     try {
-      const loadedNotes = await NotesDB.getAllNotes();
-      const sortedNotes = loadedNotes.sort((a, b) => 
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-      );
-      setNotes(sortedNotes);
+      const [loadedNotes, loadedNotebooks] = await Promise.all([
+        NotesDB.getAllNotes(),
+        NotesDB.getAllNotebooks()
+      ]);
+      setNotes(loadedNotes);
+      setNotebooks(loadedNotebooks);
     } catch (error) {
       console.error('Error loading notes:', error);
     }
   };
 
+  const visibleNotes = useMemo(() => {
+    // A selected notebook also shows the notes of the notebooks nested in it
+    const notebookIds = selectedNotebook !== 'all' && selectedNotebook !== 'unfiled'
+      ? getNotebookSubtreeIds(notebooks, selectedNotebook)
+      : null;
+
+    const filtered = notes.filter(note =>
+      (!searchResults || searchResults.has(note.id)) &&
+      (selectedNotebook === 'all' ||
+        (selectedNotebook === 'unfiled' ? !note.notebookId : notebookIds!.has(note.notebookId || ''))) &&
+      matchesAttachmentFilter(note, attachmentFilter) &&
+      matchesDateRange(note, dateFrom, dateTo) &&
+      matchesTags(note, selectedTags, tagMatchMode)
+    );
+
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return filtered.sort((a, b) => {
+      if (sortField === 'relevance' && searchResults) {
+        return direction * (searchResults.get(a.id)!.score - searchResults.get(b.id)!.score);
+      }
+      return direction * compareNotes(a, b, sortField);
+    });
+  }, [notes, notebooks, selectedNotebook, searchResults, attachmentFilter, dateFrom, dateTo, selectedTags, tagMatchMode, sortField, sortDirection]);
+
+  const notebookNoteCounts = useMemo(() => {
+    const counts = new Map<string | null, number>();
+    notes.forEach(note => {
+      const key = note.notebookId || null;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  }, [notes]);
+
+  const handleMoveNote = async (noteId: string, notebookId: string | null) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note || (note.notebookId || null) === notebookId) return;
+
+    try {
+      const movedNote = await NotesDB.moveNote(noteId, notebookId);
+      setNotes(prev => prev.map(n => n.id === noteId ? { ...n, notebookId: movedNote.notebookId } : n));
+    } catch (error) {
+      console.error('Failed to move note:', error);
+    }
+  };
+
+  const handleMoveNotebook = async (notebookId: string, parentId: string | null) => {
+    try {
+      await NotesDB.moveNotebook(notebookId, parentId);
+      setNotebooks(await NotesDB.getAllNotebooks());
+    } catch (error) {
+      console.error('Failed to move notebook:', error);
+      if (error instanceof Error && error.message === 'Cannot move a notebook into itself') {
+        alert('A notebook cannot be moved into itself or one of its sub-notebooks.');
+      }
+    }
+  };
+
+  const handleCreateNotebook = async (parentId: string | null) => {
+    const name = window.prompt('Notebook name:');
+    if (!name || !name.trim()) return;
+
+    try {
+      const notebook = await NotesDB.createNotebook(name, parentId);
+      setNotebooks(prev => [...prev, notebook]);
+    } catch (error) {
+      console.error('Failed to create notebook:', error);
+    }
+  };
+
+  const handleRenameNotebook = async (notebook: Notebook) => {
+    const name = window.prompt('Rename notebook:', notebook.name);
+    if (!name || !name.trim() || name.trim() === notebook.name) return;
+
+    try {
+      const renamed = await NotesDB.renameNotebook(notebook.id, name);
+      setNotebooks(prev => prev.map(n => n.id === renamed.id ? renamed : n));
+    } catch (error) {
+      console.error('Failed to rename notebook:', error);
+    }
+  };
+
+  const handleDeleteNotebook = async (notebook: Notebook) => {
+    if (!window.confirm(`Delete notebook "${notebook.name}"? Its notes and sub-notebooks will be moved up one level.`)) {
+      return;
+    }
+
+    try {
+      await NotesDB.deleteNotebook(notebook.id);
+      if (selectedNotebook === notebook.id) {
+        setSelectedNotebook('all');
+      }
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to delete notebook:', error);
+    }
+  };
+
+  // Tag counts over all loaded notes, for the tag bar
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    notes.forEach(note => {
+      (note.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+    return Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [notes]);
+
+  const hasActiveFilters = Boolean(searchQuery.trim()) ||
+    attachmentFilter !== 'all' || Boolean(dateFrom) || Boolean(dateTo) ||
+    selectedTags.length > 0;
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setAttachmentFilter('all');
+    setDateFrom('');
+    setDateTo('');
+    setSelectedTags([]);
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag)
+      ? prev.filter(t => t !== tag)
+      : [...prev, tag]);
+  };
+
+  const handleRenameTag = async () => {
+    const [oldTag] = selectedTags;
+    const newTag = window.prompt(`Rename tag "${oldTag}" to:`, oldTag);
+    if (!newTag || newTag.trim() === oldTag) return;
+
+    try {
+      await NotesDB.renameTag(oldTag, newTag);
+      setSelectedTags([]);
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to rename tag:', error);
+      alert('Failed to rename tag. Please try again.');
+    }
+  };
+
+  const handleMergeTags = async () => {
+    const target = window.prompt(
+      `Merge ${selectedTags.map(tag => `"${tag}"`).join(', ')} into:`,
+      selectedTags[0]
+    );
+    if (!target) return;
+
+    try {
+      await NotesDB.mergeTags(selectedTags, target);
+      setSelectedTags([]);
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to merge tags:', error);
+      alert('Failed to merge tags. Please try again.');
+    }
+  };
+
   const handleDeleteNote = async (noteId: string) => {
     try {
       // Check if note is open in any tab
-      const isNoteOpen = tabManagerRef.current?.isNoteOpenInAnyTab(noteId);
+      const isNoteOpen = tabManagerRef?.current?.isNoteOpenInAnyTab(noteId);
       
       if (isNoteOpen) {
         if (!window.confirm('This note is currently open in editor. Are you sure to delete it?')) {
@@ -136,6 +574,7 @@ export const NotesManager: React.FC<NotesManagerProps> = ({
       
       // Update UI
       setNotes(notes.filter(note => note.id !== noteId));
+      setTrashedNotes([]); // Reloaded when the trash is opened
       
       // Notify parent component
       if (onNoteDelete) {
@@ -146,34 +585,321 @@ export const NotesManager: React.FC<NotesManagerProps> = ({
     }
   };
 
+  const toggleNoteSelection = (noteId: string) => {
+    setSelectedNoteIds(prev => {
+      const next = new Set(prev);
+      if (next.has(noteId)) {
+        next.delete(noteId);
+      } else {
+        next.add(noteId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async (notesToExport: Note[], format: ExportFormat) => {
+    if (notesToExport.length === 0 || isExporting) return;
+
+    setIsExporting(true);
+    try {
+      const file = await exportNotes(notesToExport, format, notebooks, id => NotesDB.getAttachmentData(id));
+      downloadExportFile(file);
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+      alert('Failed to export notes. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectedNotes = notes.filter(note => selectedNoteIds.has(note.id));
+
+  const handleImport = async (files: File[]) => {
+    if (files.length === 0 || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      // Files without notebook info go into the notebook being viewed
+      const targetNotebookId = selectedNotebook !== 'all' && selectedNotebook !== 'unfiled'
+        ? selectedNotebook
+        : null;
+      setImportReport(await importFiles(files, targetNotebookId));
+      await loadNotes();
+    } catch (error) {
+      console.error('Failed to import notes:', error);
+      alert('Failed to import notes. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Note and notebook drags are handled by the tree; only react to files here
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || isTrashView) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleFileDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || isTrashView) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    handleImport(Array.from(e.dataTransfer.files));
+  };
+
   const handleEdit = (note: Note) => {
     onEditNote(note);
-    onClose();
+    if (!docked) {
+      onClose();
+    }
   };
 
   if (!isOpen) return null;
 
   return (
-    <div className="notes-manager-overlay">
-      <div className="notes-manager">
+    <div className={docked ? 'notes-manager-dock' : 'notes-manager-overlay'}>
+      <div
+        className={`notes-manager ${docked ? 'docked' : ''} ${isDraggingFiles ? 'dragging-files' : ''}`}
+        onDragOver={handleFileDragOver}
+        onDragLeave={handleFileDragLeave}
+        onDrop={handleFileDrop}
+      >
         <div className="notes-manager-header">
-          <h2>Your Notes</h2>
-          <button className="close-button" onClick={onClose}>×</button>
+          <h2>{isTrashView ? 'Trash' : 'Your Notes'}</h2>
+          <button
+            className="notes-trash-toggle"
+            onClick={toggleTrashView}
+            title={isTrashView ? 'Back to notes' : 'Show trash'}
+          >
+            {isTrashView ? '← Notes' : '🗑 Trash'}
+          </button>
+          {!docked && <button className="close-button" onClick={onClose}>×</button>}
         </div>
-        <div className="notes-list">
-          {notes.length === 0 ? (
-            <div className="no-notes">No notes yet</div>
-          ) : (
-            notes.map(note => (
-              <NoteItem
-                key={note.id}
-                note={note}
-                onEdit={handleEdit}
-                onDelete={handleDeleteNote}
+        {isTrashView ? (
+          <TrashView
+            notes={trashedNotes}
+            retentionDays={retentionDays}
+            onRestore={handleRestoreNote}
+            onDeleteForever={handleDeleteForever}
+            onEmptyTrash={handleEmptyTrash}
+          />
+        ) : (
+          <>
+            <div className="notes-manager-controls">
+              <input
+                type="search"
+                className="notes-search-input"
+                placeholder="Search notes..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                autoFocus
               />
-            ))
-          )}
-        </div>
+              <div className="notes-filter-row">
+                <select
+                  value={attachmentFilter}
+                  onChange={(e) => setAttachmentFilter(e.target.value as AttachmentFilter)}
+                  title="Filter by attachments"
+                >
+                  <option value="all">All notes</option>
+                  <option value="with">With attachments</option>
+                  <option value="without">Without attachments</option>
+                  <option value="url">With URLs</option>
+                  <option value="screenshot">With screenshots</option>
+                </select>
+                <select
+                  value={sortField}
+                  onChange={(e) => setSortField(e.target.value as SortField)}
+                  title="Sort by"
+                >
+                  {searchResults && <option value="relevance">Relevance</option>}
+                  <option value="updated">Updated</option>
+                  <option value="created">Created</option>
+                  <option value="title">Title</option>
+                  <option value="size">Size</option>
+                </select>
+                <button
+                  className="notes-sort-direction"
+                  onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+                  title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+                >
+                  {sortDirection === 'asc' ? '↑' : '↓'}
+                </button>
+              </div>
+              <div className="notes-filter-row">
+                <label>
+                  From
+                  <input
+                    type="date"
+                    value={dateFrom}
+                    max={dateTo || undefined}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                  />
+                </label>
+                <label>
+                  To
+                  <input
+                    type="date"
+                    value={dateTo}
+                    min={dateFrom || undefined}
+                    onChange={(e) => setDateTo(e.target.value)}
+                  />
+                </label>
+                {hasActiveFilters && (
+                  <button className="notes-clear-filters" onClick={clearFilters}>
+                    Clear
+                  </button>
+                )}
+              </div>
+              <div className="notes-filter-row notes-export-row">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  title="Export format"
+                >
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                <button
+                  className="notes-export-button"
+                  onClick={() => handleExport(selectedNotes.length > 0 ? selectedNotes : notes, exportFormat)}
+                  disabled={isExporting || notes.length === 0}
+                >
+                  {isExporting
+                    ? 'Exporting...'
+                    : selectedNotes.length > 0 ? `Export ${selectedNotes.length} selected` : 'Export all'}
+                </button>
+                {selectedNotes.length > 0 && (
+                  <button className="notes-clear-filters" onClick={() => setSelectedNoteIds(new Set())}>
+                    Clear selection
+                  </button>
+                )}
+                <button
+                  className="notes-export-button"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  title="Import Markdown, HTML, JSON, text or ZIP files (or drop them here)"
+                >
+                  {isImporting ? 'Importing...' : 'Import'}
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept={IMPORT_ACCEPT}
+                  multiple
+                  hidden
+                  onChange={(e) => {
+                    handleImport(Array.from(e.target.files || []));
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              {importReport && (
+                <div className="notes-import-report">
+                  <div className="notes-import-summary">
+                    <span>
+                      Created {importReport.created}
+                      {' · '}Skipped {importReport.skipped}
+                      {' · '}Conflicts {importReport.conflicts.length}
+                      {importReport.errors.length > 0 && ` · Failed ${importReport.errors.length}`}
+                      {importReport.notebooksCreated > 0 && ` · ${importReport.notebooksCreated} notebook(s) added`}
+                    </span>
+                    <button className="notes-clear-filters" onClick={() => setImportReport(null)}>×</button>
+                  </div>
+                  {importReport.conflicts.length > 0 && (
+                    <ul>
+                      {importReport.conflicts.map(conflict => (
+                        <li key={conflict.id}>
+                          "{conflict.title}" already exists with different changes and was not imported
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {importReport.errors.length > 0 && (
+                    <ul className="notes-import-errors">
+                      {importReport.errors.map((error, index) => (
+                        <li key={index}>{error.file}: {error.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {tagCounts.length > 0 && (
+                <div className="notes-tag-bar">
+                  {tagCounts.map(([tag, count]) => (
+                    <button
+                      key={tag}
+                      className={`tag-chip ${selectedTags.includes(tag) ? 'active' : ''}`}
+                      onClick={() => toggleTag(tag)}
+                    >
+                      #{tag} <span className="tag-chip-count">{count}</span>
+                    </button>
+                  ))}
+                  {selectedTags.length > 1 && (
+                    <button
+                      className="notes-tag-mode"
+                      onClick={() => setTagMatchMode(tagMatchMode === 'and' ? 'or' : 'and')}
+                      title={tagMatchMode === 'and' ? 'Notes with all selected tags' : 'Notes with any selected tag'}
+                    >
+                      {tagMatchMode === 'and' ? 'AND' : 'OR'}
+                    </button>
+                  )}
+                  {selectedTags.length === 1 && (
+                    <button className="notes-tag-action" onClick={handleRenameTag}>
+                      Rename
+                    </button>
+                  )}
+                  {selectedTags.length > 1 && (
+                    <button className="notes-tag-action" onClick={handleMergeTags}>
+                      Merge
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <NotebookTree
+              notebooks={notebooks}
+              noteCounts={notebookNoteCounts}
+              totalCount={notes.length}
+              selected={selectedNotebook}
+              onSelect={setSelectedNotebook}
+              onMoveNote={handleMoveNote}
+              onMoveNotebook={handleMoveNotebook}
+              onCreateNotebook={handleCreateNotebook}
+              onRenameNotebook={handleRenameNotebook}
+              onDeleteNotebook={handleDeleteNotebook}
+            />
+            <div className="notes-list">
+              {notes.length === 0 ? (
+                <div className="no-notes">No notes yet</div>
+              ) : visibleNotes.length === 0 ? (
+                <div className="no-notes">No matching notes</div>
+              ) : (
+                visibleNotes.map(note => (
+                  <NoteItem
+                    key={note.id}
+                    note={note}
+                    onEdit={handleEdit}
+                    onDelete={handleDeleteNote}
+                    onExport={(exported, format) => handleExport([exported], format)}
+                    isSelected={selectedNoteIds.has(note.id)}
+                    onToggleSelect={toggleNoteSelection}
+                    searchResult={searchResults?.get(note.id)}
+                  />
+                ))
+              )}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
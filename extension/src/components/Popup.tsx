@@ -1,19 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
 import TabManager from './TabManager';
-import { SaveButton } from './SaveButton';
+import { SaveButton, SaveButtonRef } from './SaveButton';
 import { ActionButton } from './ActionButton';
 import Menu from './Menu';
 import { ThemeManager } from '../UI/component';
 import '../styles/components/components.css';
 import { NotesManager } from './NotesManager';
-import { Note } from '../lib/DBProxy';
+import { Note, DBProxy as NotesDB } from '../lib/DBProxy';
 import { AttachmentMenu } from './AttachmentMenu';
-import { Attachment } from '../lib/Attachment';
+import { Attachment, CapturedElement, ScreenshotType } from '../lib/Attachment';
 import { TabManagerRef } from './TabManager';
 import { hideExtensionUI, showExtensionUI } from '../content';
 import { processImage } from '../lib/imageProcessor';
 import { createLazyLoadableImage } from '../lib/imageProcessor';
 import FormatToolbar from './FormatToolbar';
+import { RevisionHistory } from './RevisionHistory';
+import { ConflictResolver, ConflictDraft } from './ConflictResolver';
+import { VaultLockScreen } from './VaultLockScreen';
+import { VaultProxy } from '../lib/VaultProxy';
+import { transferMessage } from '../lib/chunkedTransfer';
+import { ShortcutCheatSheet } from './ShortcutCheatSheet';
+import { PanelCommand, PanelShortcut, matchPanelShortcut, onPanelCommand } from '../lib/shortcuts';
+import { onClip } from '../lib/clipCapture';
+import {
+  CaptureCancelledError,
+  CaptureOptions,
+  FullPageImage,
+  FullPageProgress,
+  captureElement,
+  captureFullPage
+} from '../UI/fullPageCapture';
+import { describeElement, pickElement } from '../UI/elementPicker';
+import { CaptureProgress } from './CaptureProgress';
 
 const Popup: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -32,9 +50,65 @@ const Popup: React.FC = () => {
   });
   const [isNotesManagerOpen, setIsNotesManagerOpen] = useState(false);
   const [isAttachmentMenuOpen, setIsAttachmentMenuOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+  const [captureProgress, setCaptureProgress] = useState<FullPageProgress | null>(null);
+  const scrollingCaptureRef = useRef<AbortController | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [activeContentRef, setActiveContentRef] = useState<React.RefObject<HTMLDivElement> | null>(null);
+  const [isVaultLocked, setIsVaultLocked] = useState(false);
+  // Open resolver: a draft for a failed save, none for a conflict from sync
+  const [conflict, setConflict] = useState<{ noteId: string; draft: ConflictDraft | null } | null>(null);
+  const [syncConflictIds, setSyncConflictIds] = useState<string[]>([]);
+
+  // Show the lock screen whenever the background script reports the vault locked
+  useEffect(() => {
+    const refreshVaultStatus = async () => {
+      try {
+        const status = await VaultProxy.getStatus();
+        const locked = status.enabled && !status.unlocked;
+        setIsVaultLocked(locked);
+        if (locked) {
+          setIsNotesManagerOpen(false);
+          setIsHistoryOpen(false);
+        }
+      } catch (error) {
+        console.error('Failed to read vault status:', error);
+      }
+    };
+
+    const handleMessage = (message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
+      if (message.type === 'VAULT_STATE_CHANGED') {
+        refreshVaultStatus();
+        sendResponse({ success: true });
+      }
+    };
+
+    refreshVaultStatus();
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
   
+  // Keep track of notes that sync found changed on another device as well
+  useEffect(() => {
+    const refreshSyncConflicts = () => {
+      NotesDB.getConflictIds()
+        .then(setSyncConflictIds)
+        .catch(error => console.error('Failed to read sync conflicts:', error));
+    };
+
+    const handleMessage = (message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
+      if (message.type === 'SYNC_CONFLICTS') {
+        refreshSyncConflicts();
+        sendResponse({ success: true });
+      }
+    };
+
+    refreshSyncConflicts();
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
   // Initialize theme when component mounts
   useEffect(() => {
     ThemeManager.setTheme(ThemeManager.getCurrentTheme());
@@ -112,7 +186,16 @@ const Popup: React.FC = () => {
     }
   };
 
-  const handleScreenshotCapture = async (type: 'visible' | 'full') => {
+  const handleScreenshotCapture = async (type: ScreenshotType) => {
+    if (type === 'full') {
+      await runScrollingCapture('full', captureFullPage);
+      return;
+    }
+    if (type === 'element') {
+      await handleElementCapture();
+      return;
+    }
+
     try {
       // Show loading indicator
       setIsLoading(true);
@@ -140,19 +223,19 @@ const Popup: React.FC = () => {
         }
       }
       
-      const response = await new Promise<{ success: boolean; screenshotData?: string; error?: string }>((resolve) => {
-        const timeoutId = setTimeout(() => {
-          resolve({ success: false, error: 'Capture timeout' });
-        }, 30000); // 30 second timeout
-
-        chrome.runtime.sendMessage(
-          { type: 'CAPTURE_SCREENSHOT', screenshotType: type },
-          (result) => {
-            clearTimeout(timeoutId);
-            resolve(result || { success: false, error: 'No response' });
-          }
-        );
-      });
+      // Captures can run to tens of megabytes, so they come back in chunks
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+      let response: { success: boolean; screenshotData?: string; error?: string };
+      try {
+        response = await transferMessage({ type: 'CAPTURE_SCREENSHOT', screenshotType: type }, {
+          signal: controller.signal
+        }) || { success: false, error: 'No response' };
+      } catch (transferError) {
+        response = { success: false, error: controller.signal.aborted ? 'Capture timeout' : String(transferError) };
+      } finally {
+        clearTimeout(timeoutId);
+      }
       
       // Show UI again using the global function
       await showExtensionUI();
@@ -190,6 +273,7 @@ const Popup: React.FC = () => {
         screenshotType: type,
         createdAt: new Date().toISOString(),
         syncStatus: 'pending',
+        source: { url: window.location.href, title: document.title },
         metadata: {
           format: processedImage.format,
           originalSize: processedImage.originalSize,
@@ -201,8 +285,8 @@ const Popup: React.FC = () => {
         }
       };
       
-      // Add the attachment to the active tab
-      await tabManagerRef.current?.addPendingAttachment(activeNote.tabId, attachment);
+      // Offer it for annotating before it goes into the active tab
+      await tabManagerRef.current?.addScreenshot(activeNote.tabId, attachment);
       
       // Hide loading indicator
       setIsLoading(false);
@@ -213,6 +297,83 @@ const Popup: React.FC = () => {
     }
   };
 
+  // The page is scrolled and captured here in the content script rather than in the background
+  const runScrollingCapture = async (
+    type: ScreenshotType,
+    capture: (options: CaptureOptions) => Promise<FullPageImage[]>,
+    element?: CapturedElement
+  ) => {
+    if (scrollingCaptureRef.current) return;
+
+    const controller = new AbortController();
+    scrollingCaptureRef.current = controller;
+    const tabId = activeNote.tabId;
+    setCaptureProgress({ phase: 'capture', done: 0, total: 0 });
+
+    try {
+      const images = await capture({
+        signal: controller.signal,
+        onProgress: setCaptureProgress
+      });
+
+      // Very tall pages come back as several images, added top to bottom
+      const createdAt = new Date().toISOString();
+      for (const [index, { processed, width, height }] of images.entries()) {
+        const attachment: Attachment = {
+          type: 'screenshot',
+          id: Date.now() + index,
+          screenshotData: processed.dataUrl,
+          thumbnailData: processed.thumbnailUrl,
+          screenshotType: type,
+          createdAt,
+          syncStatus: 'pending',
+          source: { url: window.location.href, title: document.title },
+          metadata: {
+            format: processed.format,
+            originalSize: processed.originalSize,
+            processedSize: processed.processedSize,
+            compressionRatio: processed.compressionRatio,
+            width,
+            height,
+            isLazyLoaded: true,
+            element
+          }
+        };
+        // Pages split across several images skip the annotation editor
+        if (images.length === 1) {
+          await tabManagerRef.current?.addScreenshot(tabId, attachment);
+        } else {
+          await tabManagerRef.current?.addPendingAttachment(tabId, attachment);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof CaptureCancelledError)) {
+        console.error('Scrolling capture failed:', error);
+        alert('Failed to capture screenshot. Please try again.');
+      }
+    } finally {
+      scrollingCaptureRef.current = null;
+      setCaptureProgress(null);
+    }
+  };
+
+  // The panel is hidden while picking, then shows the capture's progress like a full-page one
+  const handleElementCapture = async () => {
+    if (scrollingCaptureRef.current) return;
+
+    hideExtensionUI();
+    let element: Element | null;
+    try {
+      element = await pickElement();
+    } finally {
+      showExtensionUI();
+    }
+    if (!element) return;
+
+    const picked = element;
+    await runScrollingCapture('element', options => captureElement(picked, options), describeElement(picked));
+  };
+
   const handleNoteDelete = (noteId: string) => {
     // Reset activeNote state if the deleted note was active
     if (activeNote.id === noteId) {
@@ -225,6 +386,120 @@ const Popup: React.FC = () => {
   };
 
   const tabManagerRef = React.useRef<TabManagerRef | null>(null);
+  const saveButtonRef = useRef<SaveButtonRef | null>(null);
+
+  const handlePanelShortcut = (shortcut: PanelShortcut) => {
+    if (shortcut === 'show-shortcuts') {
+      setIsCheatSheetOpen(open => !open);
+      return;
+    }
+    if (isVaultLocked) return;
+
+    switch (shortcut) {
+      case 'save':
+        saveButtonRef.current?.save();
+        break;
+      case 'close-tab':
+        tabManagerRef.current?.closeActiveTab();
+        break;
+      case 'next-tab':
+        tabManagerRef.current?.selectAdjacentTab(1);
+        break;
+      case 'previous-tab':
+        tabManagerRef.current?.selectAdjacentTab(-1);
+        break;
+      case 'open-notes-manager':
+        setIsNotesManagerOpen(true);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const shortcut = matchPanelShortcut(e);
+    if (!shortcut) return;
+    // Keep the page and the browser (Ctrl+S saving the page) from handling it too
+    e.preventDefault();
+    e.stopPropagation();
+    handlePanelShortcut(shortcut);
+  };
+
+  // Commands from the browser-wide shortcuts, forwarded by the background script
+  const handlePanelCommand = (command: PanelCommand) => {
+    if (isVaultLocked) return;
+
+    switch (command) {
+      case 'new-note-tab':
+        tabManagerRef.current?.addNewTab();
+        break;
+      case 'quick-capture-url':
+        handleUrlCapture().catch(() => alert('Failed to capture the page URL. Please try again.'));
+        break;
+      case 'capture-visible-screenshot':
+        handleScreenshotCapture('visible');
+        break;
+      case 'init-screenshot-selection':
+        handleScreenshotCapture('area');
+        break;
+      case 'save-active-tab':
+        saveButtonRef.current?.save();
+        break;
+    }
+  };
+
+  // Subscribe once; the ref always points at the handler from the latest render
+  const panelCommandHandlerRef = useRef(handlePanelCommand);
+  panelCommandHandlerRef.current = handlePanelCommand;
+
+  useEffect(() => onPanelCommand(command => panelCommandHandlerRef.current(command)), []);
+
+  // Clips from the context menu go into the panel's tabs while it's mounted
+  useEffect(() => onClip(async clip => {
+    if (!tabManagerRef.current) {
+      throw new Error('The panel is not ready');
+    }
+    await tabManagerRef.current.addClip(clip);
+  }), []);
+
+  // A restored revision is saved as a new version; load it into the open tab
+  const handleRevisionRestore = (restoredNote: Note) => {
+    setHasUnsavedChanges(false);
+    setActiveNote(prev => ({
+      ...prev,
+      id: restoredNote.id,
+      title: restoredNote.title,
+      content: restoredNote.content,
+      version: restoredNote.version,
+      syncStatus: 'synced'
+    }));
+
+    if (tabManagerRef.current) {
+      tabManagerRef.current.updateTabWithId(activeNote.tabId, restoredNote);
+    }
+  };
+
+  // A resolved conflict is saved as a new version, just like a restored revision
+  const handleConflictResolve = (resolvedNote: Note) => {
+    handleRevisionRestore(resolvedNote);
+    setSyncConflictIds(prev => prev.filter(id => id !== resolvedNote.id));
+  };
+
+  // Compare the unsaved edits with the version another tab saved
+  const handleVersionConflict = () => {
+    const activeTab = tabManagerRef.current?.getActiveTab();
+    if (!activeNote.id || activeNote.version === undefined) return;
+    setConflict({
+      noteId: activeNote.id,
+      draft: {
+        title: activeNote.title,
+        content: activeNote.content,
+        attachments: activeTab?.attachments || [],
+        tags: activeTab?.tags || [],
+        baseVersion: activeNote.version
+      }
+    });
+  };
+
+  const hasSyncConflict = !!activeNote.id && syncConflictIds.includes(activeNote.id);
 
   // Handle format change
   const handleFormatChange = () => {
@@ -242,7 +517,7 @@ const Popup: React.FC = () => {
   };
 
   return (
-    <div className="popup-container">
+    <div className="popup-container" onKeyDown={handleKeyDown}>
       <div className="header" title="Drag to move (Double-click to reset position)">
         <div className="header-left">
           <ActionButton 
@@ -250,6 +525,21 @@ const Popup: React.FC = () => {
             onClick={() => setIsNotesManagerOpen(true)} 
             title="View Notes" 
           />
+          {activeNote.id && (
+            <ActionButton
+              type="history"
+              onClick={() => setIsHistoryOpen(true)}
+              title="Version History"
+            />
+          )}
+          <ActionButton
+            type="expand"
+            onClick={() => {
+              chrome.runtime.sendMessage({ type: 'OPEN_WORKSPACE' })
+                .catch(error => console.error('Failed to open workspace:', error));
+            }}
+            title="Open Full-Page Workspace"
+          />
         </div>
         <div className="header-right">
           <ActionButton 
@@ -288,7 +578,20 @@ const Popup: React.FC = () => {
           />
         </div>
       </div>
-      <div className="content">
+      {isVaultLocked && <VaultLockScreen onUnlock={() => setIsVaultLocked(false)} />}
+      <div className={`content ${isVaultLocked ? 'vault-hidden' : ''}`}>
+        {hasSyncConflict && (
+          <div className="conflict-banner">
+            <span>This note was also changed on another device.</span>
+            <button
+              onClick={() => setConflict({ noteId: activeNote.id!, draft: null })}
+              disabled={hasUnsavedChanges}
+              title={hasUnsavedChanges ? 'Save your changes first' : 'Compare and merge both versions'}
+            >
+              Resolve
+            </button>
+          </div>
+        )}
         <TabManager 
           ref={tabManagerRef}
           onChangeStatus={handleUnsavedChanges}
@@ -296,7 +599,13 @@ const Popup: React.FC = () => {
           onContentRefChange={setActiveContentRef}
         />
       </div>
-      <div className="footer">
+      {captureProgress && (
+        <CaptureProgress
+          progress={captureProgress}
+          onCancel={() => scrollingCaptureRef.current?.abort()}
+        />
+      )}
+      <div className={`footer ${isVaultLocked ? 'vault-hidden' : ''}`}>
         <div className="footer-left">
           <div className="attachment-container">
             <button 
@@ -327,12 +636,16 @@ const Popup: React.FC = () => {
           )}
         </div>
         <SaveButton 
+          ref={saveButtonRef}
           title={activeNote.title}
           content={activeNote.content}
           existingNoteId={activeNote.id}
           currentVersion={activeNote.version}
           tabId={activeNote.tabId}
           attachments={tabManagerRef.current?.getActiveTab()?.attachments}
+          tags={tabManagerRef.current?.getActiveTab()?.tags}
+          notebookId={tabManagerRef.current?.getActiveTab()?.notebookId}
+          onVersionConflict={handleVersionConflict}
           onSaveComplete={(savedNote) => {
             const currentTabId = activeNote.tabId;
             setHasUnsavedChanges(false);
@@ -351,15 +664,40 @@ const Popup: React.FC = () => {
           }}
         />
       </div>
-      <Menu isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} />
+      <Menu
+        isOpen={isMenuOpen}
+        onClose={() => setIsMenuOpen(false)}
+        onShowShortcuts={() => {
+          setIsMenuOpen(false);
+          setIsCheatSheetOpen(true);
+        }}
+      />
       <NotesManager 
-        isOpen={isNotesManagerOpen}
+        isOpen={isNotesManagerOpen && !isVaultLocked}
         onClose={() => setIsNotesManagerOpen(false)}
         onEditNote={handleEditNote}
         activeNoteId={activeNote.id}
         onNoteDelete={handleNoteDelete}
         tabManagerRef={tabManagerRef}
       />
+      <RevisionHistory
+        isOpen={isHistoryOpen && !isVaultLocked}
+        noteId={activeNote.id}
+        hasUnsavedChanges={hasUnsavedChanges}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={handleRevisionRestore}
+      />
+      <ShortcutCheatSheet
+        isOpen={isCheatSheetOpen}
+        onClose={() => setIsCheatSheetOpen(false)}
+      />
+      <ConflictResolver
+        isOpen={!!conflict && !isVaultLocked}
+        noteId={conflict?.noteId}
+        draft={conflict?.draft}
+        onClose={() => setConflict(null)}
+        onResolve={handleConflictResolve}
+      />
     </div>
   );
 };
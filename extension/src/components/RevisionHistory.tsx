@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DBProxy as NotesDB, Note, NoteRevision } from '../lib/DBProxy';
+import { DiffPart, SpreadsheetDiff, diffNotes } from '../lib/noteDiff';
+import { isRpcError } from '../lib/rpc';
+import '../styles/components/revision-history.css';
+
+interface RevisionHistoryProps {
+  isOpen: boolean;
+  noteId?: string;
+  hasUnsavedChanges: boolean;
+  onClose: () => void;
+  onRestore: (note: Note) => void;
+}
+
+const renderDiffParts = (parts: DiffPart[]): React.ReactNode =>
+  parts.map((part, index) => {
+    if (part.type === 'added') return <ins key={index} className="diff-added">{part.text}</ins>;
+    if (part.type === 'removed') return <del key={index} className="diff-removed">{part.text}</del>;
+    return <span key={index}>{part.text}</span>;
+  });
+
+const SpreadsheetDiffTable: React.FC<{ diff: SpreadsheetDiff; index: number }> = ({ diff, index }) => (
+  <div className={`diff-spreadsheet ${diff.status}`}>
+    <div className="diff-spreadsheet-label">
+      Spreadsheet {index + 1}
+      {diff.status !== 'same' && diff.status !== 'changed' && ` (${diff.status})`}
+    </div>
+    <table>
+      <tbody>
+        {diff.rows.map((row, r) => (
+          <tr key={r}>
+            {row.map((cell, c) => (
+              <td key={c} className={`diff-cell ${cell.status}`}>
+                {cell.status === 'changed' ? (
+                  <>
+                    <del className="diff-removed">{cell.oldValue}</del>
+                    <ins className="diff-added">{cell.newValue}</ins>
+                  </>
+                ) : cell.status === 'removed' ? cell.oldValue : cell.newValue}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  isOpen,
+  noteId,
+  hasUnsavedChanges,
+  onClose,
+  onRestore
+}) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [currentNote, setCurrentNote] = useState<Note | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !noteId) return;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      try {
+        const [loadedRevisions, note] = await Promise.all([
+          NotesDB.getRevisions(noteId),
+          NotesDB.getNote(noteId)
+        ]);
+        setRevisions(loadedRevisions);
+        setCurrentNote(note);
+        setSelectedVersion(loadedRevisions[0]?.version ?? null);
+      } catch (error) {
+        console.error('Failed to load revision history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [isOpen, noteId]);
+
+  const selectedRevision = revisions.find(revision => revision.version === selectedVersion);
+
+  // Show what changed from the selected revision to the current version
+  const diff = useMemo(() => {
+    if (!selectedRevision || !currentNote) return null;
+    return diffNotes(selectedRevision, currentNote);
+  }, [selectedRevision, currentNote]);
+
+  const handleRestore = async () => {
+    if (!selectedRevision || !currentNote || !noteId) return;
+
+    const message = hasUnsavedChanges
+      ? `Restore version ${selectedRevision.version}? Your unsaved changes will be lost.`
+      : `Restore version ${selectedRevision.version}? The current version stays in the history.`;
+    if (!window.confirm(message)) return;
+
+    setIsRestoring(true);
+    try {
+      const restoredNote = await NotesDB.restoreRevision(noteId, selectedRevision.version, currentNote.version);
+      onRestore(restoredNote);
+      onClose();
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      if (isRpcError(error, 'VERSION_CONFLICT')) {
+        alert('This note was modified elsewhere. Please reopen the history and try again.');
+      } else {
+        alert('Failed to restore revision. Please try again.');
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="revision-history-overlay">
+      <div className="revision-history">
+        <div className="revision-history-header">
+          <h2>History</h2>
+          <button className="close-button" onClick={onClose}>×</button>
+        </div>
+        {!noteId ? (
+          <div className="revision-history-empty">Save the note to start its history.</div>
+        ) : isLoading ? (
+          <div className="revision-history-empty">Loading...</div>
+        ) : revisions.length === 0 ? (
+          <div className="revision-history-empty">No earlier versions yet.</div>
+        ) : (
+          <div className="revision-history-body">
+            <ul className="revision-list">
+              {revisions.map(revision => (
+                <li
+                  key={revision.version}
+                  className={revision.version === selectedVersion ? 'selected' : ''}
+                  onClick={() => setSelectedVersion(revision.version)}
+                >
+                  <span className="revision-version">v{revision.version}{revision.parents && ' · merged'}</span>
+                  <span className="revision-date">
+                    {new Date(revision.updatedAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {diff && selectedRevision && (
+              <div className="revision-diff">
+                <div className="revision-diff-caption">
+                  Changes from v{selectedRevision.version} to the current version (v{currentNote?.version})
+                </div>
+                <h3 className="revision-diff-title">{renderDiffParts(diff.title)}</h3>
+                <div className="revision-diff-content">{renderDiffParts(diff.content)}</div>
+                {diff.spreadsheets.map((spreadsheet, index) => (
+                  <SpreadsheetDiffTable key={index} diff={spreadsheet} index={index} />
+                ))}
+                <button
+                  className="revision-restore-button"
+                  onClick={handleRestore}
+                  disabled={isRestoring}
+                >
+                  {isRestoring ? 'Restoring...' : `Restore v${selectedRevision.version}`}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
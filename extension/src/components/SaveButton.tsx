@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, forwardRef, useImperativeHandle } from 'react';
 import { Note, DBProxy as NotesDB } from '../lib/DBProxy';
 import { Attachment } from '../lib/Attachment';
+import { isRpcError } from '../lib/rpc';
 
 interface SaveButtonProps {
   title: string;
@@ -9,20 +10,29 @@ interface SaveButtonProps {
   currentVersion?: number;
   tabId: string;
   attachments?: Attachment[];
+  tags?: string[];
+  notebookId?: string | null;
   onSaveComplete?: (note: Note) => void;
   onVersionConflict?: () => void;
 }
 
-export const SaveButton: React.FC<SaveButtonProps> = ({
+// Lets keyboard shortcuts save the same way the button does
+export interface SaveButtonRef {
+  save: () => Promise<void>;
+}
+
+export const SaveButton = forwardRef<SaveButtonRef, SaveButtonProps>(({
   title,
   content,
   existingNoteId,
   currentVersion,
   tabId,
   attachments,
+  tags,
+  notebookId,
   onSaveComplete,
   onVersionConflict
-}) => {
+}, ref) => {
   const [isSaving, setIsSaving] = useState(false);
 
   const handleSave = async () => {
@@ -45,13 +55,16 @@ export const SaveButton: React.FC<SaveButtonProps> = ({
           title, 
           content, 
           currentVersion,
-          attachments
+          attachments,
+          tags
         );
       } else {
         note = await NotesDB.createNote(
           title, 
           content,
-          attachments
+          attachments,
+          tags,
+          notebookId
         );
       }
       
@@ -61,24 +74,26 @@ export const SaveButton: React.FC<SaveButtonProps> = ({
     } catch (error) {
       console.error('[SaveButton] Save operation failed:', error);
       
-      if (error instanceof Error) {
-        if (error.message === 'Note not found') {
-          alert('Unable to update note: Note not found');
-        } else if (error.message === 'Version conflict - note was modified elsewhere') {
-          if (onVersionConflict) {
-            onVersionConflict();
-          } else {
-            alert('This note was modified elsewhere. Please refresh and try again.');
-          }
+      if (isRpcError(error, 'NOT_FOUND')) {
+        alert('Unable to update note: Note not found');
+      } else if (isRpcError(error, 'VERSION_CONFLICT')) {
+        if (onVersionConflict) {
+          onVersionConflict();
         } else {
-          alert('Error saving note. Please try again.');
+          alert('This note was modified elsewhere. Please refresh and try again.');
         }
+      } else {
+        alert('Error saving note. Please try again.');
       }
     } finally {
       setIsSaving(false);
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    save: handleSave
+  }));
+
   // Determine button title based on operation type
   const buttonTitle = existingNoteId ? 'Update Note' : 'Save Note';
 
@@ -104,4 +119,4 @@ export const SaveButton: React.FC<SaveButtonProps> = ({
       )}
     </button>
   );
-};
+});
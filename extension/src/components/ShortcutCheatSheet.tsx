@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { CommandBinding, PANEL_SHORTCUTS } from '../lib/shortcuts';
+import '../styles/components/shortcut-cheat-sheet.css';
+
+interface ShortcutCheatSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ isOpen, onClose }) => {
+  const [commands, setCommands] = useState<CommandBinding[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Browser shortcuts can be reassigned by the user, so read them fresh each time
+  useEffect(() => {
+    if (!isOpen) return;
+
+    chrome.runtime.sendMessage({ type: 'GET_COMMANDS' })
+      .then((response: { success: boolean; commands?: CommandBinding[]; error?: string } | undefined) => {
+        if (!response?.success || !response.commands) {
+          throw new Error(response?.error || 'No response');
+        }
+        setCommands(response.commands);
+        setError(null);
+      })
+      .catch(loadError => {
+        console.error('Failed to load keyboard commands:', loadError);
+        setError('Could not load the browser shortcuts.');
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, onClose]);
+
+  const openShortcutSettings = () => {
+    chrome.runtime.sendMessage({ type: 'OPEN_SHORTCUT_SETTINGS' })
+      .catch(openError => console.error('Failed to open shortcut settings:', openError));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="shortcut-cheat-sheet-overlay" onClick={onClose}>
+      <div className="shortcut-cheat-sheet" onClick={e => e.stopPropagation()}>
+        <div className="shortcut-cheat-sheet-header">
+          <h2>Keyboard Shortcuts</h2>
+          <button className="close-button" onClick={onClose}>×</button>
+        </div>
+        <div className="shortcut-cheat-sheet-body">
+          <h3>In the panel</h3>
+          <ul className="shortcut-list">
+            {PANEL_SHORTCUTS.map(shortcut => (
+              <li key={shortcut.id}>
+                <span>{shortcut.description}</span>
+                <kbd>{shortcut.keys}</kbd>
+              </li>
+            ))}
+          </ul>
+          <h3>Anywhere in the browser</h3>
+          {error ? (
+            <div className="shortcut-cheat-sheet-empty">{error}</div>
+          ) : (
+            <ul className="shortcut-list">
+              {commands.map(command => (
+                <li key={command.name}>
+                  <span>{command.description}</span>
+                  {command.shortcut ? (
+                    <kbd>{command.shortcut}</kbd>
+                  ) : (
+                    <span className="shortcut-unset">Not set</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <button className="shortcut-settings-button" onClick={openShortcutSettings}>
+            Change browser shortcuts
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { SyncProxy, SyncStatus } from '../lib/SyncProxy';
+import { SyncProvider } from '../lib/SyncSettings';
+import '../styles/components/sync.css';
+
+export const SyncSection: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [provider, setProvider] = useState<SyncProvider>('supabase');
+  const [url, setUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [accessToken, setAccessToken] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyStatus = (nextStatus: SyncStatus) => {
+    setStatus(nextStatus);
+    setProvider(nextStatus.config.provider);
+    setUrl(nextStatus.config.url);
+    setApiKey(nextStatus.config.apiKey);
+    setAccessToken(nextStatus.config.accessToken);
+  };
+
+  useEffect(() => {
+    SyncProxy.getStatus().then(applyStatus).catch(() => setStatus(null));
+  }, []);
+
+  // Run a sync operation with the form disabled, reporting any error
+  const runOperation = async (operation: () => Promise<SyncStatus>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      applyStatus(await operation());
+    } catch (operationError) {
+      setError((operationError as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    runOperation(() => SyncProxy.configure({ provider, url, apiKey, accessToken }));
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    runOperation(() => SyncProxy.configure({ enabled, provider, url, apiKey, accessToken }));
+  };
+
+  if (!status) return null;
+
+  const { config, state, pending, conflicts } = status;
+  const isDirty = provider !== config.provider || url !== config.url || apiKey !== config.apiKey || accessToken !== config.accessToken;
+
+  return (
+    <div className="menu-section sync-section">
+      <h3 className="menu-title">Cloud Sync</h3>
+      <div className="menu-options">
+        <label className="menu-option">
+          <span className="menu-option-label">Sync notes</span>
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            disabled={isBusy}
+            onChange={(e) => handleToggle(e.target.checked)}
+          />
+        </label>
+      </div>
+
+      <form className="sync-form" onSubmit={handleSubmit}>
+        <select value={provider} onChange={(e) => setProvider(e.target.value as SyncProvider)}>
+          <option value="supabase">Supabase</option>
+          <option value="server">Self-hosted server</option>
+        </select>
+        <input
+          type="url"
+          placeholder={provider === 'server' ? 'http://localhost:3001' : 'https://your-project.supabase.co'}
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <input
+          type="password"
+          placeholder={provider === 'server' ? 'API key (if the server has one)' : 'API key'}
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+        />
+        {provider === 'supabase' && (
+          <input
+            type="password"
+            placeholder="Access token (optional)"
+            value={accessToken}
+            onChange={(e) => setAccessToken(e.target.value)}
+          />
+        )}
+        <div className="sync-actions">
+          <button type="submit" disabled={isBusy || !isDirty}>Save</button>
+          <button
+            type="button"
+            onClick={() => runOperation(() => SyncProxy.syncNow())}
+            disabled={isBusy || !config.enabled || isDirty}
+          >
+            {isBusy ? 'Syncing…' : 'Sync now'}
+          </button>
+        </div>
+      </form>
+
+      {config.enabled && (
+        <div className="sync-status">
+          <div>
+            {state.lastSyncedAt
+              ? `Last synced ${new Date(state.lastSyncedAt).toLocaleString()}`
+              : 'Not synced yet'}
+          </div>
+          <div>{pending === 0 ? 'Everything is up to date' : `${pending} change${pending === 1 ? '' : 's'} waiting`}</div>
+          {conflicts > 0 && (
+            <div>{`${conflicts} note${conflicts === 1 ? '' : 's'} changed on another device too; open ${conflicts === 1 ? 'it' : 'them'} to resolve`}</div>
+          )}
+          {state.lastError && (
+            <div className="sync-error">
+              {state.lastError}
+              {state.nextAttemptAt !== null && ` (retrying at ${new Date(state.nextAttemptAt).toLocaleTimeString()})`}
+            </div>
+          )}
+        </div>
+      )}
+      {error && <div className="sync-error">{error}</div>}
+    </div>
+  );
+};
+
+export default SyncSection;
@@ -1,7 +1,9 @@
 import React, { useState, forwardRef, useImperativeHandle, useEffect, useRef } from 'react';
 import NoteInput from './NoteInput';
-import { Note, DBProxy as NotesDB } from '../lib/DBProxy';
+import { AnnotationEditor } from './AnnotationEditor';
+import { Note, NoteChange, DBProxy as NotesDB } from '../lib/DBProxy';
 import { Attachment } from '../lib/Attachment';
+import { Clip } from '../lib/clipCapture';
 import '../styles/components/tab-manager.css';
 import { v4 as uuidv4 } from 'uuid';
 import { TabCacheManager, Tab as CacheTab, TabCache, AttachmentReference } from '../lib/TabCacheManager';
@@ -16,6 +18,8 @@ interface Tab {
   isRichText?: boolean; // Add flag to indicate rich text content
   attachments?: AttachmentReference[];
   loadedAttachments?: Attachment[]; // New field to store loaded attachments
+  tags?: string[];
+  notebookId?: string | null; // Notebook the note is filed in; new notes inherit it
   isNew: boolean;
   version?: number;
   createdAt?: string;
@@ -26,6 +30,7 @@ interface Tab {
   pinned?: boolean; // Add pinned property to support tab pinning
   attachmentSectionExpanded?: boolean; // Track if attachment section is expanded
   spreadsheetData?: boolean; // Add flag to indicate the tab contains spreadsheet data
+  staleChange?: 'updated' | 'deleted'; // The note changed elsewhere while this tab had unsaved edits
 }
 
 interface TabManagerProps {
@@ -45,18 +50,25 @@ export interface TabManagerRef {
     version?: number;
     noteId?: string;
     attachments?: Attachment[];
+    tags?: string[];
+    notebookId?: string | null;
   } | null;
   updateTabContent: (id: string, title: string, content: string) => void;
   removeTabContent: (noteId: string) => Promise<void>;
   updateTabWithId: (tabId: string, note: Note) => void;
   isNoteOpenInAnyTab: (noteId: string) => boolean;
   addPendingAttachment: (tabId: string, attachment: Attachment) => void;
+  addScreenshot: (tabId: string, attachment: Attachment) => void;
   pinTab: (tabId: string) => Promise<void>;
   unpinTab: (tabId: string) => Promise<void>;
   isPinned: (tabId: string) => boolean;
   syncCache: () => Promise<void>;
   
   handleSave: (tabId: string, note: Note) => Promise<void>;
+  addNewTab: () => void;
+  closeActiveTab: () => Promise<void>;
+  selectAdjacentTab: (offset: 1 | -1) => void;
+  addClip: (clip: Clip) => Promise<void>;
   setAttachmentSectionExpanded: (tabId: string, isExpanded: boolean) => void;
   isAttachmentSectionExpanded: (tabId: string) => boolean;
 }
@@ -68,6 +80,10 @@ interface TabManagerCache {
 
 const CACHE_KEY = 'tabManager_cache';
 
+// Tag order matters to the user, so compare element by element
+const tagsEqual = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every((tag, index) => tag === b[index]);
+
 // Add ConfirmationDialog component
 interface ConfirmationDialogProps {
   isOpen: boolean;
@@ -161,6 +177,13 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     hasUnsavedChanges: false
   });
 
+  // Screenshot open in the annotation editor; new ones are attached when it's saved
+  const [annotating, setAnnotating] = useState<{
+    tabId: string;
+    attachment: Attachment;
+    isNew: boolean;
+  } | null>(null);
+
   // Expose the content ref to the parent component when active tab changes
   useEffect(() => {
     if (onContentRefChange) {
@@ -369,7 +392,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
             if (currentCache) {
               for (const attachment of fullNote.attachments) {
                 // Only add if it has the required data and isn't already loaded
-                if ((attachment.screenshotData || attachment.url) && 
+                // Screenshots come back as references; their image data is fetched on demand
+                if ((attachment.type === 'screenshot' || attachment.url) && 
                     !loadedAttachments.some(a => a.id === attachment.id)) {
                   await TabCacheManager.addAttachmentToTab(currentCache, tabId, attachment);
                 }
@@ -427,9 +451,12 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         title: savedNote.title,
         content: savedNote.content,
         version: savedNote.version,
+        tags: savedNote.tags,
+        notebookId: savedNote.notebookId,
         createdAt: savedNote.createdAt,
         updatedAt: savedNote.updatedAt,
         syncStatus: 'synced' as const,
+        staleChange: undefined,
         isNew: false
       } : tab
     ));
@@ -472,9 +499,10 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           // Compare titles and content to see if there are changes
           const titleChanged = tab.title !== savedNote.title;
           const contentChanged = tab.content !== savedNote.content;
+          const tagsChanged = !tagsEqual(tab.tags, savedNote.tags);
           
           // If nothing has changed, close without confirmation
-          if (!titleChanged && !contentChanged) {
+          if (!titleChanged && !contentChanged && !tagsChanged) {
             closeTab(tabId);
             return;
           }
@@ -496,9 +524,10 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           // Compare titles and content to see if there are changes
           const titleChanged = tab.title !== savedNote.title;
           const contentChanged = tab.content !== savedNote.content;
+          const tagsChanged = !tagsEqual(tab.tags, savedNote.tags);
           
-          // If either has changed, there are unsaved changes
-          hasUnsavedChanges = titleChanged || contentChanged;
+          // If any has changed, there are unsaved changes
+          hasUnsavedChanges = titleChanged || contentChanged || tagsChanged;
           
           if (hasUnsavedChanges) {
           }
@@ -549,7 +578,9 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         savedNote = await NotesDB.createNote(
           tab.title,
           tab.content,
-          attachmentsToSave
+          attachmentsToSave,
+          tab.tags,
+          tab.notebookId
         );
       } else {
         // Update existing note
@@ -558,7 +589,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           tab.title,
           tab.content,
           tab.version,
-          attachmentsToSave
+          attachmentsToSave,
+          tab.tags
         );
       }
       
@@ -755,6 +787,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
             title: note.title,
             content: clonedContent,
             attachments: note.attachments,
+            tags: note.tags,
+            notebookId: note.notebookId,
             isNew: false,
             version: note.version,
             noteId: note.id,
@@ -811,6 +845,9 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
       title: note ? note.title : '',
       content: clonedContent,
       attachments: note ? note.attachments : undefined,
+      tags: note ? note.tags : undefined,
+      // A blank tab files its note in the same notebook as the note currently open
+      notebookId: note ? note.notebookId : tabs.find(tab => tab.id === activeTabId)?.notebookId,
       isNew: !note,
       version: note ? note.version : undefined,
       noteId: note ? note.id : undefined,
@@ -853,6 +890,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           title: note.title,
           content: note.content,
           version: note.version,
+          tags: note.tags,
+          notebookId: note.notebookId,
           syncStatus: 'synced' as const
         };
       }
@@ -893,6 +932,7 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
               version: undefined,
               attachments: undefined, // Clear attachment references
               loadedAttachments: undefined, // Clear loaded attachments
+              tags: undefined,
               isNew: true,
               syncStatus: 'pending' as const,
               lastEdited: new Date().toISOString(),
@@ -944,6 +984,118 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     await TabCacheManager.cleanupOrphanedAttachments();
   };
   
+  // Attachments added from the page stay in the tab until the note is saved
+  const addPendingAttachment = async (tabId: string, attachment: Attachment) => {
+    // Get current cache
+    const currentCache = await TabCacheManager.initCache();
+    if (!currentCache) return;
+    
+    // Use TabCacheManager to add the attachment
+    const updatedCache = await TabCacheManager.addAttachmentToTab(
+      currentCache,
+      tabId,
+      attachment
+    );
+    
+    // Update tabs state and set attachment section to expanded
+    // This is a user-initiated attachment addition, so we should expand the section
+    const tab = tabs.find(t => t.id === tabId);
+    if (tab) {
+      // Functional, so attachments added back to back (e.g. a multi-image capture) all stay loaded
+      setTabs(prevTabs => prevTabs.map(t => t.id === tabId ? {
+        ...t,
+        attachments: updatedCache.tabs.find(cached => cached.id === tabId)?.attachments,
+        loadedAttachments: [...(t.loadedAttachments || []), attachment],
+        attachmentSectionExpanded: true, // Explicitly expand when adding attachment
+        lastEdited: new Date().toISOString()
+      } : t));
+      updateTabAssociations(tabId);
+    } else {
+      // Fallback if tab not found
+      setTabs(updatedCache.tabs);
+    }
+  };
+
+  // New screenshots open in the annotation editor first
+  const addScreenshot = async (tabId: string, attachment: Attachment) => {
+    if (annotating) {
+      // Already annotating another one; this one goes straight in
+      await addPendingAttachment(tabId, attachment);
+      return;
+    }
+    setAnnotating({ tabId, attachment, isNew: true });
+  };
+
+  const handleAttachmentUpdate = async (tabId: string, attachment: Attachment) => {
+    const currentCache = await TabCacheManager.initCache();
+    if (!currentCache) return;
+
+    const updatedCache = await TabCacheManager.updateAttachmentInTab(currentCache, tabId, attachment);
+    const updatedTab = updatedCache.tabs.find(t => t.id === tabId);
+    if (updatedTab) {
+      // Saving the note stores the annotated image
+      updateTabState(tabId, {
+        attachments: updatedTab.attachments,
+        loadedAttachments: (tabs.find(t => t.id === tabId)?.loadedAttachments || [])
+          .map(a => a.id === attachment.id ? attachment : a),
+        syncStatus: 'pending'
+      });
+    }
+  };
+
+  const handleAnnotationSave = async (attachment: Attachment) => {
+    if (!annotating) return;
+    const { tabId, isNew } = annotating;
+    setAnnotating(null);
+    if (isNew) {
+      await addPendingAttachment(tabId, attachment);
+    } else {
+      await handleAttachmentUpdate(tabId, attachment);
+    }
+  };
+
+  // Put content clipped from the page into the tab it was routed to
+  const addClip = async (clip: Clip) => {
+    if (clip.kind === 'note') {
+      const newTab: Tab = {
+        id: `new-${uuidv4()}`,
+        title: clip.title,
+        content: clip.html,
+        notebookId: tabs.find(tab => tab.id === activeTabId)?.notebookId,
+        isNew: true,
+        syncStatus: 'pending',
+        lastEdited: new Date().toISOString(),
+        pinned: false,
+        attachmentSectionExpanded: false
+      };
+      setTabs(prevTabs => [...prevTabs, newTab]);
+      setActiveTabId(newTab.id);
+      tabContentRefsMap.current.set(newTab.id, { initialized: false });
+      updateTabAssociations(newTab.id);
+      onChangeStatus(true);
+      return;
+    }
+
+    // The routed tab may have been closed since; fall back to the open one
+    const targetTab = tabs.find(tab => tab.id === clip.tabId) || tabs.find(tab => tab.id === activeTabId);
+    if (!targetTab) return;
+
+    if (targetTab.id !== activeTabId) {
+      handleTabClick(targetTab.id);
+    }
+    if (clip.kind === 'text') {
+      setTabs(prevTabs => prevTabs.map(tab => tab.id === targetTab.id ? {
+        ...tab,
+        content: tab.content + clip.html,
+        syncStatus: 'pending' as const,
+        lastEdited: new Date().toISOString()
+      } : tab));
+    } else {
+      await addPendingAttachment(targetTab.id, clip.attachment);
+    }
+    onChangeStatus(true);
+  };
+
   useImperativeHandle(ref, () => ({
     addTab: (note: Note) => {
       // Use the component-level addTab function for consistency
@@ -958,9 +1110,12 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           title: savedNote.title,
           content: savedNote.content,
           version: savedNote.version,
+          tags: savedNote.tags,
+          notebookId: savedNote.notebookId,
           createdAt: savedNote.createdAt,
           updatedAt: savedNote.updatedAt,
           syncStatus: 'synced' as const,
+          staleChange: undefined,
           isNew: false,
           // Preserve the current attachment section expanded state
           attachmentSectionExpanded: tab.attachmentSectionExpanded
@@ -981,7 +1136,9 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         content: activeTab.content,
         version: activeTab.version,
         noteId: activeTab.noteId,
-        attachments: activeTab.loadedAttachments
+        attachments: activeTab.loadedAttachments,
+        tags: activeTab.tags,
+        notebookId: activeTab.notebookId
       };
     },
     updateTabContent: (id: string, title: string, content: string) => {
@@ -1039,8 +1196,11 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
               content: clonedContent,
               version: note.version,
               attachments: note.attachments,
+              tags: note.tags,
+              notebookId: note.notebookId,
               isNew: false,
               syncStatus: 'synced' as const,
+              staleChange: undefined,
               spreadsheetData: hasSpreadsheet,
               // For new notes, set attachmentSectionExpanded to false
               // For existing notes, preserve the current state
@@ -1064,31 +1224,10 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
       return tabs.some(tab => tab.noteId === noteId || tab.id === noteId);
     },
     addPendingAttachment: async (tabId: string, attachment: Attachment) => {
-      // Get current cache
-      const currentCache = await TabCacheManager.initCache();
-      if (!currentCache) return;
-      
-      // Use TabCacheManager to add the attachment
-      const updatedCache = await TabCacheManager.addAttachmentToTab(
-        currentCache,
-        tabId,
-        attachment
-      );
-      
-      // Update tabs state and set attachment section to expanded
-      // This is a user-initiated attachment addition, so we should expand the section
-      const tab = tabs.find(t => t.id === tabId);
-      if (tab) {
-        // Use updateTabState to ensure all necessary updates happen
-        updateTabState(tabId, {
-          attachments: updatedCache.tabs.find(t => t.id === tabId)?.attachments,
-          loadedAttachments: [...(tab.loadedAttachments || []), attachment],
-          attachmentSectionExpanded: true // Explicitly expand when adding attachment
-        });
-      } else {
-        // Fallback if tab not found
-        setTabs(updatedCache.tabs);
-      }
+      await addPendingAttachment(tabId, attachment);
+    },
+    addScreenshot: async (tabId: string, attachment: Attachment) => {
+      await addScreenshot(tabId, attachment);
     },
     pinTab: async (tabId: string) => {
       await handlePinTab(tabId);
@@ -1106,6 +1245,23 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     handleSave: async (tabId: string, note: Note) => {
       await handleSave(tabId, note);
     },
+    addNewTab: () => {
+      addTab(undefined, true);
+    },
+    closeActiveTab: async () => {
+      if (activeTabId) {
+        await confirmCloseTab(activeTabId);
+      }
+    },
+    addClip: async (clip: Clip) => {
+      await addClip(clip);
+    },
+    selectAdjacentTab: (offset: 1 | -1) => {
+      const index = tabs.findIndex(tab => tab.id === activeTabId);
+      if (index === -1 || tabs.length < 2) return;
+      // Wrap around at either end, like browser tabs
+      handleTabClick(tabs[(index + offset + tabs.length) % tabs.length].id);
+    },
     setAttachmentSectionExpanded: (tabId: string, isExpanded: boolean) => {
       handleAttachmentSectionExpandedChange(tabId, isExpanded);
     },
@@ -1250,6 +1406,14 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     updateTabState(tabId, updates);
   };
   
+  const handleTagsChange = (tabId: string, tags: string[]) => {
+    updateTabState(tabId, {
+      tags,
+      syncStatus: 'pending'
+    });
+    onChangeStatus(true);
+  };
+
   const handleContentChange = (tabId: string, content: string) => {
     // Determine if content is rich text (contains HTML tags)
     const isRichText = /<[a-z][\s\S]*>/i.test(content);
@@ -1299,7 +1463,6 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         const updatedNote = await NotesDB.addAttachment(
           tab.noteId,
           attachment.url || '', 
-          tab.title, 
           attachment.screenshotData,
           attachment.screenshotType);
           
@@ -1424,7 +1587,9 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         savedNote = await NotesDB.createNote(
           tab.title,
           tab.content,
-          attachmentsToSave
+          attachmentsToSave,
+          tab.tags,
+          tab.notebookId
         );
       } else {
         savedNote = await NotesDB.updateNote(
@@ -1432,7 +1597,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
           tab.title,
           tab.content,
           tab.version,
-          attachmentsToSave
+          attachmentsToSave,
+          tab.tags
         );
       }
 
@@ -1444,6 +1610,8 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
             ...t,
             noteId: savedNote.id,
             version: savedNote.version,
+            tags: savedNote.tags,
+            notebookId: savedNote.notebookId,
             isRichText: savedNote.isRichText, // Update isRichText flag
             spreadsheetData: hasSpreadsheet, // Set spreadsheet data flag
             syncStatus: 'synced' as const,
@@ -1651,6 +1819,91 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     };
   }, []);
 
+  // Replace a tab's contents with the stored note, dropping any edits
+  const reloadTabFromNote = async (tabId: string, noteId: string) => {
+    const note = await NotesDB.getNote(noteId);
+    if (!note) return;
+
+    setTabs(prevTabs => prevTabs.map(tab => tab.id === tabId ? {
+      ...tab,
+      title: note.title,
+      content: note.content,
+      version: note.version,
+      attachments: note.attachments,
+      loadedAttachments: undefined, // Loaded again from the new references
+      tags: note.tags,
+      notebookId: note.notebookId,
+      updatedAt: note.updatedAt,
+      syncStatus: 'synced' as const,
+      staleChange: undefined
+    } : tab));
+  };
+
+  // Pick up a move or a restore, which keep the version and leave the contents alone
+  const refreshTabFiling = async (tabId: string, noteId: string) => {
+    const note = await NotesDB.getNote(noteId);
+    if (!note) return;
+
+    setTabs(prevTabs => prevTabs.map(tab => tab.id === tabId ? {
+      ...tab,
+      notebookId: note.notebookId,
+      updatedAt: note.updatedAt,
+      staleChange: tab.staleChange === 'deleted' ? undefined : tab.staleChange
+    } : tab));
+  };
+
+  const markTabStale = (tabId: string, staleChange: Tab['staleChange']) => {
+    setTabs(prevTabs => prevTabs.map(tab => tab.id === tabId ? { ...tab, staleChange } : tab));
+  };
+
+  /**
+   * Catch up with notes written in other tabs or pulled by sync
+   * Tabs without edits follow along; tabs being edited are only flagged, so
+   * nothing the user typed is lost. Updates with the version the tab
+   * already has are moves, restores or this panel's own saves, so only
+   * where the note is filed is read again.
+   */
+  const handleNoteChanges = async (changes: NoteChange[]) => {
+    for (const change of changes) {
+      const openTabs = tabs.filter(tab => tab.noteId === change.noteId || tab.id === change.noteId);
+      for (const tab of openTabs) {
+        const isEditing = tab.syncStatus === 'pending';
+        if (change.kind === 'deleted') {
+          if (isEditing) {
+            markTabStale(tab.id, 'deleted');
+          } else {
+            await removeTabByNoteId(change.noteId);
+          }
+        } else if (change.version !== undefined && change.version > (tab.version ?? 0)) {
+          if (!isEditing) {
+            await reloadTabFromNote(tab.id, change.noteId);
+            continue;
+          }
+          // A save from this tab can be announced before its own response arrives
+          const note = await NotesDB.getNote(change.noteId);
+          if (note && note.title.trim() === tab.title.trim() && note.content.trim() === tab.content.trim()) {
+            continue;
+          }
+          markTabStale(tab.id, 'updated');
+        } else if (change.version !== undefined && change.version === tab.version) {
+          await refreshTabFiling(tab.id, change.noteId);
+        }
+      }
+    }
+  };
+
+  // The subscription outlives renders, so it calls the latest handler
+  const noteChangeHandlerRef = useRef(handleNoteChanges);
+  noteChangeHandlerRef.current = handleNoteChanges;
+
+  useEffect(() => {
+    return NotesDB.onNotesChanged(changes => {
+      noteChangeHandlerRef.current(changes).catch(error => {
+        console.error('Failed to apply note changes to tabs:', error);
+      });
+    });
+  }, []);
+
   // Add a method to handle attachment section expanded state changes
   const handleAttachmentSectionExpandedChange = (tabId: string, isExpanded: boolean) => {
     setTabs(prevTabs => prevTabs.map(tab => {
@@ -1673,21 +1926,41 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
     }
     
     return (
+      <>
+      {activeTab.staleChange && (
+        <div className="stale-note-banner">
+          <span>
+            {activeTab.staleChange === 'deleted'
+              ? 'This note was deleted elsewhere.'
+              : 'This note was changed elsewhere since you started editing.'}
+          </span>
+          {activeTab.staleChange === 'updated' && activeTab.noteId && (
+            <button onClick={() => reloadTabFromNote(activeTab.id, activeTab.noteId!)}>
+              Load latest
+            </button>
+          )}
+          <button onClick={() => markTabStale(activeTab.id, undefined)}>Keep editing</button>
+        </div>
+      )}
       <NoteInput
         title={activeTab.title}
         content={activeTab.content}
         attachments={activeTab.loadedAttachments}
         noteId={activeTab.noteId}
+        tags={activeTab.tags}
+        onTagsChange={(tags) => handleTagsChange(activeTab.id, tags)}
         contentRef={contentRef} // Pass the ref to NoteInput
         tabId={activeTab.id} // Pass the tab ID to NoteInput for SpreadsheetFormatter
         onTitleChange={(title) => handleTitleChange(activeTab.id, title)}
         onContentChange={(content) => handleContentChange(activeTab.id, content)}
         onAttachmentAdd={(attachment) => handleAttachmentAdd(activeTab.id, attachment)}
         onAttachmentRemove={(attachment) => handleAttachmentRemove(activeTab.id, attachment)}
+        onAttachmentAnnotate={(attachment) => setAnnotating({ tabId: activeTab.id, attachment, isNew: false })}
         isAttachmentSectionExpanded={activeTab.attachmentSectionExpanded}
         onAttachmentSectionExpandedChange={(isExpanded) => handleAttachmentSectionExpandedChange(activeTab.id, isExpanded)}
         onFormatChange={(event) => handleFormatChange(activeTab.id, event)}
       />
+      </>
     );
   };
 
@@ -1720,7 +1993,7 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         {tabs.map(tab => (
           <div 
             key={tab.id}
-            className={`tab ${activeTabId === tab.id ? 'active' : ''} ${tab.pinned ? 'pinned' : ''} ${tab.syncStatus}`}
+            className={`tab ${activeTabId === tab.id ? 'active' : ''} ${tab.pinned ? 'pinned' : ''} ${tab.syncStatus} ${tab.staleChange ? 'stale' : ''}`}
             onClick={() => handleTabClick(tab.id)}
           >
             {tab.pinned && <span className="pin-indicator" title="Pinned">📌</span>}
@@ -1774,6 +2047,15 @@ const TabManager = forwardRef<TabManagerRef, TabManagerProps>(({
         onCancel={handleCloseWithoutSaving}
         onClose={() => setConfirmationState({ isOpen: false, tabId: '', hasUnsavedChanges: false })}
       />
+
+      {annotating && (
+        <AnnotationEditor
+          attachment={annotating.attachment}
+          isNew={annotating.isNew}
+          onSave={handleAnnotationSave}
+          onCancel={() => setAnnotating(null)}
+        />
+      )}
     </div>
   );
 });
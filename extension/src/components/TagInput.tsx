@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { DBProxy as NotesDB } from '../lib/DBProxy';
+import { normalizeTag, normalizeTags } from '../lib/tagUtils';
+import '../styles/components/tag-input.css';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({ tags, onChange }) => {
+  const [inputValue, setInputValue] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Unique per instance so the datalist doesn't clash when rendered twice
+  const [listId] = useState(() => `ga-tag-suggestions-${Math.random().toString(36).slice(2)}`);
+
+  // Load existing tags once the user starts editing, for autocomplete
+  const loadSuggestions = async () => {
+    try {
+      const allTags = await NotesDB.getAllTags();
+      setSuggestions(allTags.map(({ tag }) => tag));
+    } catch (error) {
+      console.error('Failed to load tag suggestions:', error);
+    }
+  };
+
+  const addTags = (value: string) => {
+    const newTags = value.split(',').map(normalizeTag).filter(Boolean);
+    if (newTags.length > 0) {
+      onChange(normalizeTags([...tags, ...newTags]));
+    }
+    setInputValue('');
+  };
+
+  const removeTag = (tagToRemove: string) => {
+    onChange(tags.filter(tag => tag !== tagToRemove));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep typing inside the tag input from reaching the editor handlers
+    e.stopPropagation();
+
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(inputValue);
+    } else if (e.key === 'Backspace' && !inputValue && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className="tag-input">
+      {tags.map(tag => (
+        <span key={tag} className="tag-chip">
+          #{tag}
+          <button
+            className="tag-chip-remove"
+            onClick={() => removeTag(tag)}
+            title={`Remove tag "${tag}"`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        className="tag-input-field"
+        value={inputValue}
+        list={listId}
+        placeholder={tags.length === 0 ? 'Add tags...' : ''}
+        onChange={(e) => setInputValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={loadSuggestions}
+        onBlur={() => inputValue.trim() && addTags(inputValue)}
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter(tag => !tags.includes(tag))
+          .map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Note } from '../lib/DBProxy';
+import { TrashManager } from '../lib/TrashManager';
+
+interface TrashViewProps {
+  notes: Note[];
+  retentionDays: number;
+  onRestore: (noteId: string) => void;
+  onDeleteForever: (noteId: string) => void;
+  onEmptyTrash: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  notes,
+  retentionDays,
+  onRestore,
+  onDeleteForever,
+  onEmptyTrash
+}) => {
+  // Most recently deleted first
+  const sortedNotes = [...notes].sort((a, b) =>
+    (b.deletedAt || '').localeCompare(a.deletedAt || '')
+  );
+
+  return (
+    <div className="trash-view">
+      <div className="trash-view-header">
+        <span>
+          Notes in the trash are deleted forever after {retentionDays} days.
+        </span>
+        {notes.length > 0 && (
+          <button className="trash-empty-button" onClick={onEmptyTrash}>
+            Empty Trash
+          </button>
+        )}
+      </div>
+      {sortedNotes.length === 0 ? (
+        <div className="no-notes">Trash is empty</div>
+      ) : (
+        <div className="notes-list">
+          {sortedNotes.map(note => {
+            const daysLeft = TrashManager.getDaysUntilPurge(note.deletedAt!, retentionDays);
+            return (
+              <div key={note.id} className="note-item trash-item">
+                <div className="note-item-content">
+                  <h3>{note.title}</h3>
+                  <small>
+                    Deleted {new Date(note.deletedAt!).toLocaleDateString()}
+                    {' · '}
+                    {daysLeft > 0 ? `${daysLeft} day${daysLeft === 1 ? '' : 's'} left` : 'Purging soon'}
+                  </small>
+                </div>
+                <div className="trash-item-actions">
+                  <button onClick={() => onRestore(note.id)}>Restore</button>
+                  <button className="danger" onClick={() => onDeleteForever(note.id)}>
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
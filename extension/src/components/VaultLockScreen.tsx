@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { VaultProxy } from '../lib/VaultProxy';
+import '../styles/components/vault.css';
+
+interface VaultLockScreenProps {
+  onUnlock: () => void;
+}
+
+/**
+ * Covers the panel while the vault is locked
+ */
+export const VaultLockScreen: React.FC<VaultLockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await VaultProxy.unlock(passphrase);
+      setPassphrase('');
+      onUnlock();
+    } catch (unlockError) {
+      setError((unlockError as Error).message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="vault-lock-screen">
+      <form className="vault-lock-form" onSubmit={handleSubmit}>
+        <div className="vault-lock-icon">🔒</div>
+        <div className="vault-lock-title">Notes are locked</div>
+        <input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+        />
+        {error && <div className="vault-error">{error}</div>}
+        <button type="submit" disabled={isUnlocking || !passphrase}>
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { VaultProxy, VaultStatus } from '../lib/VaultProxy';
+import { VaultSession } from '../lib/VaultSession';
+import '../styles/components/vault.css';
+
+type VaultForm = 'enable' | 'change' | 'disable' | null;
+
+export const VaultSection: React.FC = () => {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [form, setForm] = useState<VaultForm>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    VaultProxy.getStatus().then(setStatus).catch(() => setStatus(null));
+  }, []);
+
+  const openForm = (nextForm: VaultForm) => {
+    setForm(nextForm);
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  // Run a vault operation with the form disabled, keeping it open on errors
+  const runOperation = async (operation: () => Promise<VaultStatus>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setStatus(await operation());
+      openForm(null);
+    } catch (operationError) {
+      setError((operationError as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (form === 'enable') {
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match');
+        return;
+      }
+      runOperation(() => VaultProxy.enable(passphrase));
+    } else if (form === 'change') {
+      if (newPassphrase !== confirmation) {
+        setError('The new passphrases do not match');
+        return;
+      }
+      runOperation(() => VaultProxy.changePassphrase(passphrase, newPassphrase));
+    } else if (form === 'disable') {
+      runOperation(() => VaultProxy.disable(passphrase));
+    }
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    runOperation(() => VaultProxy.setAutoLock(minutes));
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="menu-section vault-section">
+      <h3 className="menu-title">Encryption</h3>
+      {status.enabled ? (
+        <div className="menu-options">
+          <div className="vault-state">
+            🔒 Notes are encrypted{status.unlocked ? ' (unlocked)' : ' (locked)'}
+          </div>
+          <label className="menu-option">
+            <span className="menu-option-label">Lock after</span>
+            <select
+              className="menu-select"
+              value={status.autoLockMinutes}
+              disabled={isBusy}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+            >
+              {VaultSession.AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} minutes idle`}</option>
+              ))}
+            </select>
+          </label>
+          <div className="vault-actions">
+            <button onClick={() => runOperation(() => VaultProxy.lock())} disabled={isBusy || !status.unlocked}>
+              Lock now
+            </button>
+            <button onClick={() => openForm('change')} disabled={isBusy}>Change passphrase</button>
+            <button className="danger" onClick={() => openForm('disable')} disabled={isBusy}>Turn off</button>
+          </div>
+        </div>
+      ) : (
+        <div className="menu-options">
+          <div className="vault-state">Notes are stored unencrypted</div>
+          {form !== 'enable' && (
+            <div className="vault-actions">
+              <button onClick={() => openForm('enable')}>Encrypt with a passphrase</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {form && (
+        <form className="vault-form" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            placeholder={form === 'enable' ? 'Passphrase' : 'Current passphrase'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+          />
+          {form === 'change' && (
+            <input
+              type="password"
+              placeholder="New passphrase"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+            />
+          )}
+          {form !== 'disable' && (
+            <input
+              type="password"
+              placeholder="Repeat passphrase"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          )}
+          {form === 'enable' && (
+            <div className="vault-hint">There is no way to recover notes if the passphrase is lost.</div>
+          )}
+          {form === 'disable' && (
+            <div className="vault-hint">Every note will be decrypted and stored as plain text.</div>
+          )}
+          {error && <div className="vault-error">{error}</div>}
+          <div className="vault-actions">
+            <button type="submit" disabled={isBusy || !passphrase}>
+              {isBusy ? 'Working…' : form === 'enable' ? 'Encrypt notes' : form === 'change' ? 'Change' : 'Decrypt notes'}
+            </button>
+            <button type="button" onClick={() => openForm(null)} disabled={isBusy}>Cancel</button>
+          </div>
+        </form>
+      )}
+      {!form && error && <div className="vault-error">{error}</div>}
+    </div>
+  );
+};
+
+export default VaultSection;
@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Note, NoteChange, DBProxy as NotesDB } from '../lib/DBProxy';
+import { Attachment } from '../lib/Attachment';
+import { VaultProxy } from '../lib/VaultProxy';
+import { NotesManager } from './NotesManager';
+import NoteInput from './NoteInput';
+import FormatToolbar from './FormatToolbar';
+import { SaveButton } from './SaveButton';
+import { ActionButton } from './ActionButton';
+import Menu from './Menu';
+import { RevisionHistory } from './RevisionHistory';
+import { ConflictResolver, ConflictDraft } from './ConflictResolver';
+import { VaultLockScreen } from './VaultLockScreen';
+import '../styles/components/workspace.css';
+
+// The note open in the editor, saved or not
+interface WorkspaceDraft {
+  noteId?: string;
+  version?: number;
+  title: string;
+  content: string;
+  attachments: Attachment[];
+  tags: string[];
+  notebookId: string | null;
+}
+
+const EMPTY_DRAFT: WorkspaceDraft = {
+  title: '',
+  content: '',
+  attachments: [],
+  tags: [],
+  notebookId: null
+};
+
+// SpreadsheetFormatter keys its state by tab; the workspace has a single editor
+const WORKSPACE_TAB_ID = 'workspace';
+
+const noteToDraft = (note: Note): WorkspaceDraft => ({
+  noteId: note.id,
+  version: note.version,
+  title: note.title,
+  content: note.content,
+  attachments: note.attachments || [],
+  tags: note.tags || [],
+  notebookId: note.notebookId ?? null
+});
+
+/**
+ * Full-page notes workspace, opened as an extension page
+ * Works on pages where the panel can't be injected, such as chrome:// pages,
+ * and reads and writes the same notes through DBProxy.
+ */
+export const Workspace: React.FC = () => {
+  const [draft, setDraft] = useState<WorkspaceDraft>(EMPTY_DRAFT);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Bumped to remount the editor when another note is opened
+  const [editorKey, setEditorKey] = useState(0);
+  // Bumped to refresh the notes list after a save
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [conflictDraft, setConflictDraft] = useState<ConflictDraft | null>(null);
+  // Notes sync found changed on another device as well
+  const [syncConflictIds, setSyncConflictIds] = useState<string[]>([]);
+  const [isSyncConflictOpen, setIsSyncConflictOpen] = useState(false);
+  const [isVaultLocked, setIsVaultLocked] = useState(false);
+  // Set when the open note changes elsewhere while it has unsaved edits
+  const [staleChange, setStaleChange] = useState<'updated' | 'deleted' | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // Follow the vault being locked or unlocked from a panel or by auto-lock
+  useEffect(() => {
+    const refreshVaultStatus = async () => {
+      try {
+        const status = await VaultProxy.getStatus();
+        const locked = status.enabled && !status.unlocked;
+        setIsVaultLocked(locked);
+        if (locked) {
+          setIsHistoryOpen(false);
+          setConflictDraft(null);
+          setIsSyncConflictOpen(false);
+        }
+      } catch (error) {
+        console.error('Failed to read vault status:', error);
+      }
+    };
+
+    const refreshSyncConflicts = () => {
+      NotesDB.getConflictIds()
+        .then(setSyncConflictIds)
+        .catch(error => console.error('Failed to read sync conflicts:', error));
+    };
+
+    const handleMessage = (message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
+      if (message.type === 'VAULT_STATE_CHANGED') {
+        refreshVaultStatus();
+        sendResponse({ success: true });
+      } else if (message.type === 'SYNC_CONFLICTS') {
+        refreshSyncConflicts();
+        sendResponse({ success: true });
+      }
+    };
+
+    refreshVaultStatus();
+    refreshSyncConflicts();
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (hasUnsavedChanges) {
+        e.preventDefault();
+        e.returnValue = '';
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  useEffect(() => {
+    document.title = draft.noteId ? `${draft.title || 'Untitled'} - Notes` : 'Notes';
+  }, [draft.noteId, draft.title]);
+
+  const loadDraft = (nextDraft: WorkspaceDraft) => {
+    setDraft(nextDraft);
+    setHasUnsavedChanges(false);
+    setStaleChange(null);
+    setEditorKey(key => key + 1);
+  };
+
+  const loadLatest = async (noteId: string) => {
+    const note = await NotesDB.getNote(noteId);
+    loadDraft(note ? noteToDraft(note) : EMPTY_DRAFT);
+  };
+
+  // Follow the open note when it's written in another tab or pulled by sync
+  const handleNoteChanges = async (changes: NoteChange[]) => {
+    const change = [...changes].reverse().find(c => c.noteId === draft.noteId);
+    if (!change || !draft.noteId) return;
+
+    if (change.kind === 'deleted') {
+      if (hasUnsavedChanges) {
+        setStaleChange('deleted');
+      } else {
+        loadDraft(EMPTY_DRAFT);
+      }
+      return;
+    }
+    if (change.version !== undefined && change.version === draft.version) {
+      // A move or a restore keeps the version, so only the filing can have changed
+      const note = await NotesDB.getNote(draft.noteId);
+      if (note) {
+        setDraft(current => ({ ...current, notebookId: note.notebookId ?? null }));
+        setStaleChange(current => (current === 'deleted' ? null : current));
+      }
+      return;
+    }
+    if (change.version === undefined || change.version <= (draft.version ?? 0)) return;
+
+    const note = await NotesDB.getNote(draft.noteId);
+    if (!note) return;
+    if (!hasUnsavedChanges) {
+      loadDraft(noteToDraft(note));
+    } else if (note.title.trim() !== draft.title.trim() || note.content.trim() !== draft.content.trim()) {
+      // Unless it's our own save, announced before its response arrived
+      setStaleChange('updated');
+    }
+  };
+
+  // The subscription outlives renders, so it calls the latest handler
+  const noteChangeHandlerRef = useRef(handleNoteChanges);
+  noteChangeHandlerRef.current = handleNoteChanges;
+
+  useEffect(() => {
+    return NotesDB.onNotesChanged(changes => {
+      noteChangeHandlerRef.current(changes).catch(error => {
+        console.error('Failed to follow note changes:', error);
+      });
+    });
+  }, []);
+
+  const confirmDiscard = () =>
+    !hasUnsavedChanges || window.confirm('Discard the unsaved changes to this note?');
+
+  const handleOpenNote = (note: Note) => {
+    if (note.id === draft.noteId || !confirmDiscard()) return;
+    loadDraft(noteToDraft(note));
+  };
+
+  const handleNewNote = () => {
+    if (!confirmDiscard()) return;
+    loadDraft(EMPTY_DRAFT);
+  };
+
+  const updateDraft = (changes: Partial<WorkspaceDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setHasUnsavedChanges(true);
+  };
+
+  const handleFormatChange = () => {
+    if (contentRef.current) {
+      updateDraft({ content: contentRef.current.innerHTML });
+    } else {
+      setHasUnsavedChanges(true);
+    }
+  };
+
+  const handleSaveComplete = (savedNote: Note) => {
+    setDraft(prev => ({
+      ...prev,
+      noteId: savedNote.id,
+      version: savedNote.version,
+      title: savedNote.title,
+      attachments: savedNote.attachments || []
+    }));
+    setHasUnsavedChanges(false);
+    setStaleChange(null);
+    setReloadKey(key => key + 1);
+  };
+
+  // A restored revision or resolved conflict is saved as a new version
+  const handleSavedVersion = (note: Note) => {
+    loadDraft(noteToDraft(note));
+    setReloadKey(key => key + 1);
+  };
+
+  const handleConflictResolve = (note: Note) => {
+    setSyncConflictIds(ids => ids.filter(id => id !== note.id));
+    handleSavedVersion(note);
+  };
+
+  const closeConflictResolver = () => {
+    setConflictDraft(null);
+    setIsSyncConflictOpen(false);
+  };
+
+  const handleNoteDelete = (noteId: string) => {
+    if (draft.noteId === noteId) {
+      loadDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const handleVersionConflict = () => {
+    if (!draft.noteId || draft.version === undefined) return;
+    setConflictDraft({
+      title: draft.title,
+      content: draft.content,
+      attachments: draft.attachments,
+      tags: draft.tags,
+      baseVersion: draft.version
+    });
+  };
+
+  const hasSyncConflict = !!draft.noteId && syncConflictIds.includes(draft.noteId);
+
+  if (isVaultLocked) {
+    return (
+      <div className="workspace workspace-locked">
+        <VaultLockScreen onUnlock={() => setIsVaultLocked(false)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="workspace">
+      <aside className="workspace-sidebar">
+        <NotesManager
+          isOpen={true}
+          docked={true}
+          reloadKey={reloadKey}
+          onClose={() => undefined}
+          onEditNote={handleOpenNote}
+          activeNoteId={draft.noteId}
+          onNoteDelete={handleNoteDelete}
+        />
+      </aside>
+      <main className="workspace-editor">
+        <div className="workspace-toolbar">
+          <button className="workspace-new-note" onClick={handleNewNote}>+ New note</button>
+          <FormatToolbar
+            contentRef={contentRef}
+            onFormatChange={handleFormatChange}
+            standalone={true}
+            tabId={WORKSPACE_TAB_ID}
+          />
+          <div className="workspace-toolbar-actions">
+            {hasUnsavedChanges && <span className="workspace-unsaved">Unsaved changes</span>}
+            {draft.noteId && (
+              <ActionButton type="history" onClick={() => setIsHistoryOpen(true)} title="Version History" />
+            )}
+            <ActionButton type="menu" onClick={() => setIsMenuOpen(!isMenuOpen)} title="Menu" />
+            <SaveButton
+              title={draft.title}
+              content={draft.content}
+              existingNoteId={draft.noteId}
+              currentVersion={draft.version}
+              tabId={WORKSPACE_TAB_ID}
+              attachments={draft.attachments}
+              tags={draft.tags}
+              notebookId={draft.notebookId}
+              onSaveComplete={handleSaveComplete}
+              onVersionConflict={handleVersionConflict}
+            />
+          </div>
+        </div>
+        {hasSyncConflict && (
+          <div className="conflict-banner">
+            <span>This note was also changed on another device.</span>
+            <button
+              onClick={() => setIsSyncConflictOpen(true)}
+              disabled={hasUnsavedChanges}
+              title={hasUnsavedChanges ? 'Save your changes first' : 'Compare and merge both versions'}
+            >
+              Resolve
+            </button>
+          </div>
+        )}
+        {staleChange && (
+          <div className="stale-note-banner">
+            <span>
+              {staleChange === 'deleted'
+                ? 'This note was deleted elsewhere.'
+                : 'This note was changed elsewhere since you started editing.'}
+            </span>
+            {staleChange === 'updated' && draft.noteId && (
+              <button onClick={() => loadLatest(draft.noteId!)}>Load latest</button>
+            )}
+            <button onClick={() => setStaleChange(null)}>Keep editing</button>
+          </div>
+        )}
+        <div className="workspace-note">
+          <NoteInput
+            key={editorKey}
+            title={draft.title}
+            content={draft.content}
+            attachments={draft.attachments}
+            noteId={draft.noteId}
+            tags={draft.tags}
+            tabId={WORKSPACE_TAB_ID}
+            contentRef={contentRef}
+            onTitleChange={(title) => updateDraft({ title })}
+            onContentChange={(content) => updateDraft({ content })}
+            onTagsChange={(tags) => updateDraft({ tags })}
+            onAttachmentAdd={(attachment) => updateDraft({ attachments: [...draft.attachments, attachment] })}
+            onAttachmentRemove={(attachment) => updateDraft({
+              attachments: draft.attachments.filter(a => a.id !== attachment.id)
+            })}
+            onFormatChange={handleFormatChange}
+          />
+        </div>
+      </main>
+      <Menu isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} />
+      <RevisionHistory
+        isOpen={isHistoryOpen}
+        noteId={draft.noteId}
+        hasUnsavedChanges={hasUnsavedChanges}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={handleSavedVersion}
+      />
+      <ConflictResolver
+        isOpen={!!conflictDraft || isSyncConflictOpen}
+        noteId={draft.noteId}
+        draft={conflictDraft}
+        onClose={closeConflictResolver}
+        onResolve={handleConflictResolve}
+      />
+    </div>
+  );
+};
+
+export default Workspace;
@@ -8,6 +8,8 @@ import './styles/index.css';
 import { ScreenshotSelection } from './UI/selection';
 import { ThemeManager, createThemeToggle } from './UI/component';
 import { PositionScale, PositionScaleManager, OperationType } from './lib/PositionScaleManager';
+import { isPanelCommand, runPanelCommand } from './lib/shortcuts';
+import { captureClip, deliverClip } from './lib/clipCapture';
 
 // Establish connection with background script
 let port = chrome.runtime.connect({ name: 'content-script' });
@@ -1498,6 +1500,26 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   } else if (message.type === 'SHOW_EXTENSION_UI') {
     showExtensionUI();
     sendResponse({ success: true });
+  } else if (message.type === 'PANEL_COMMAND') {
+    if (!isPanelCommand(message.command)) {
+      sendResponse({ success: false, error: 'Unknown command' });
+      return;
+    }
+    // Show the panel first so the command's result is visible
+    toggleInterface(true).then(() => {
+      runPanelCommand(message.command);
+      sendResponse({ success: true });
+    });
+    return true;
+  } else if (message.type === 'CLIP') {
+    captureClip(message.clip)
+      .then(deliverClip)
+      .then(() => sendResponse({ success: true }))
+      .catch(error => {
+        console.error('Failed to clip into a note:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+    return true;
   } else if (message.type === 'initScreenshotSelection') {
     new ScreenshotSelection();
     sendResponse({ success: true });
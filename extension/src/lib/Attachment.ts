@@ -1,12 +1,40 @@
+import { AnnotationDocument } from './annotations';
+
+// 'full' scrolls the whole page; 'area' is a region the user dragged out; 'element' one they picked
+export type ScreenshotType = 'visible' | 'full' | 'area' | 'element';
+
+export const SCREENSHOT_LABELS: Record<ScreenshotType, string> = {
+  visible: 'Visible area',
+  full: 'Full page',
+  area: 'Selected area',
+  element: 'Page element'
+};
+
+// The page an attachment or snippet was clipped from
+export interface ClipSource {
+  url: string;
+  title: string;
+}
+
+// The element an 'element' screenshot was taken of
+export interface CapturedElement {
+  selector: string;
+  text: string; // visible text, shortened
+}
+
 export interface Attachment {
   type: "url" | "screenshot";
   id: number;
   url?: string;
   screenshotData?: string; // base64 encoded image data
   thumbnailData?: string; // thumbnail for preview (smaller version)
-  screenshotType?: 'visible' | 'full'; // type of screenshot
+  screenshotType?: ScreenshotType;
   createdAt: string;
   syncStatus: 'pending' | 'synced';
+  source?: ClipSource; // The page a clip or screenshot came from
+  annotations?: AnnotationDocument; // Drawn over originalData to give screenshotData
+  encryptedAnnotations?: string; // Stored in place of annotations while the vault is on
+  originalData?: string; // The screenshot before annotating, kept so the annotations stay editable
   metadata?: {
     format: string;
     originalSize: number;
@@ -15,14 +43,61 @@ export interface Attachment {
     width?: number;
     height?: number;
     isLazyLoaded?: boolean;
+    element?: CapturedElement;
   };
 }
 
+/**
+ * Full image data of an attachment, kept in its own IndexedDB store so notes
+ * only carry references and thumbnails
+ */
+export interface AttachmentData {
+  id: number; // Attachment ID
+  noteId: string;
+  data: Blob; // Encrypted bytes while the vault is on
+  encryptedType?: string; // MIME type of the image when data is encrypted
+  // The image before annotating; only kept locally, backups and sync carry the flattened image
+  original?: Blob;
+  encryptedOriginalType?: string;
+}
+
 /**
  * Creates a lightweight version of an attachment with minimal data
  * Useful for passing around references without the heavy data
  */
-export function createAttachmentReference(attachment: Attachment): Omit<Attachment, 'screenshotData'> {
-  const { screenshotData, ...reference } = attachment;
+export function createAttachmentReference(attachment: Attachment): Omit<Attachment, 'screenshotData' | 'originalData'> {
+  const { screenshotData, originalData, ...reference } = attachment;
   return reference;
 }
+
+/**
+ * Convert a base64 data URL into a Blob
+ * Synchronous so it can run inside an IndexedDB transaction
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Convert a Blob back into a data URL, e.g. to send it through chrome.runtime messaging
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
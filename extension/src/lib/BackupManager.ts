@@ -0,0 +1,405 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NotesDB, DatabaseSnapshot, DatabaseRestoreMode } from './notesDB';
+import { DB_VERSION } from './dbMigrations';
+import { BackupSettings } from './BackupSettings';
+import { VaultSession } from './VaultSession';
+import { SyncSettings } from './SyncSettings';
+import { SyncEngine } from './SyncEngine';
+
+export const BACKUP_FORMAT = 'ga-notes-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything the extension stores, in one serializable document
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number; // notesDB version the database was read from
+  storage: Record<string, unknown>; // chrome.storage.local: tab cache, attachments, associations, settings
+  database: DatabaseSnapshot;
+}
+
+export interface BackupSummary {
+  createdAt: string;
+  schemaVersion: number;
+  notes: number;
+  trashedNotes: number;
+  notebooks: number;
+  revisions: number;
+  attachments: number;
+  storageEntries: number;
+}
+
+// What a restore would do, shown before the user picks merge or replace
+export interface BackupPreview {
+  summary: BackupSummary;
+  merge: { added: number; updated: number; kept: number };
+}
+
+export interface BackupRestoreResult {
+  mode: DatabaseRestoreMode;
+  notesWritten: number;
+  notesKept: number;
+  storageEntries: number;
+}
+
+// A backup kept inside the extension, listed without its archive
+export interface SavedBackup {
+  id: string;
+  createdAt: string;
+  trigger: 'manual' | 'scheduled';
+  size: number; // Bytes of serialized archive
+  summary: BackupSummary;
+}
+
+interface SavedBackupRecord extends SavedBackup {
+  archive: Blob; // Serialized BackupArchive
+}
+
+// Saved backups get their own database so replacing notesDB can't touch them
+const BACKUP_DB_NAME = 'notesBackups';
+const BACKUP_DB_VERSION = 1;
+const BACKUP_STORE_NAME = 'backups';
+
+// Storage keys that describe this browser rather than the user's data
+const LOCAL_ONLY_STORAGE_KEYS = [BackupSettings.STORAGE_KEY, SyncSettings.STORAGE_KEY, SyncEngine.STATE_KEY];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * BackupManager creates and restores full backups of the extension's data,
+ * and keeps scheduled backups with rotation.
+ * It runs in the background script, which owns the extension's IndexedDB.
+ */
+export class BackupManager {
+  private static dbConnection: IDBDatabase | null = null;
+
+  /**
+   * Collect the database and chrome.storage.local into an archive
+   * Window positions are per tab and only held in memory, so they aren't included.
+   */
+  public static async createArchive(): Promise<BackupArchive> {
+    const [database, storage] = await Promise.all([
+      NotesDB.exportDatabase(),
+      chrome.storage.local.get(null)
+    ]);
+    LOCAL_ONLY_STORAGE_KEYS.forEach(key => delete storage[key]);
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: DB_VERSION,
+      storage,
+      database
+    };
+  }
+
+  /**
+   * Create a backup and return it serialized, ready to download
+   */
+  public static async createBackup(): Promise<string> {
+    return JSON.stringify(await this.createArchive());
+  }
+
+  /**
+   * Parse and validate a serialized archive
+   */
+  public static parseArchive(text: string): BackupArchive {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error('The backup file is not valid JSON');
+    }
+    return this.validateArchive(value);
+  }
+
+  /**
+   * Check that a value is a backup this version of the extension can restore
+   * Throws an error describing the first problem found.
+   */
+  public static validateArchive(value: unknown): BackupArchive {
+    if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+      throw new Error('This file is not a notes backup');
+    }
+    if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+      throw new Error(`Backup format version ${value.version} is not supported; update the extension to restore it`);
+    }
+    if (typeof value.schemaVersion !== 'number' || value.schemaVersion > DB_VERSION) {
+      throw new Error(
+        `The backup was made with database version ${value.schemaVersion}, newer than this extension's ${DB_VERSION}`
+      );
+    }
+    if (typeof value.createdAt !== 'string' || isNaN(Date.parse(value.createdAt))) {
+      throw new Error('The backup has no valid creation date');
+    }
+    if (!isRecord(value.storage)) {
+      throw new Error('The backup has no storage section');
+    }
+
+    const database = value.database;
+    if (!isRecord(database)) {
+      throw new Error('The backup has no database section');
+    }
+    for (const key of ['notes', 'notebooks', 'revisions', 'attachments']) {
+      if (!Array.isArray(database[key])) {
+        throw new Error(`The backup database is missing its ${key}`);
+      }
+    }
+
+    (database.notes as unknown[]).forEach((note, index) => {
+      if (!isRecord(note) || typeof note.id !== 'string' || typeof note.title !== 'string' ||
+        typeof note.content !== 'string' || typeof note.version !== 'number' ||
+        typeof note.updatedAt !== 'string') {
+        throw new Error(`Note ${index + 1} in the backup is malformed`);
+      }
+    });
+    (database.notebooks as unknown[]).forEach((notebook, index) => {
+      if (!isRecord(notebook) || typeof notebook.id !== 'string' || typeof notebook.name !== 'string') {
+        throw new Error(`Notebook ${index + 1} in the backup is malformed`);
+      }
+    });
+    (database.revisions as unknown[]).forEach((revision, index) => {
+      if (!isRecord(revision) || typeof revision.noteId !== 'string' || typeof revision.version !== 'number') {
+        throw new Error(`Revision ${index + 1} in the backup is malformed`);
+      }
+    });
+    (database.attachments as unknown[]).forEach((attachment, index) => {
+      if (!isRecord(attachment) || typeof attachment.id !== 'number' ||
+        typeof attachment.noteId !== 'string' ||
+        typeof attachment.data !== 'string' || !attachment.data.startsWith('data:')) {
+        throw new Error(`Attachment ${index + 1} in the backup is malformed`);
+      }
+    });
+
+    return value as unknown as BackupArchive;
+  }
+
+  public static summarizeArchive(archive: BackupArchive): BackupSummary {
+    const { notes, notebooks, revisions, attachments } = archive.database;
+    const trashedNotes = notes.filter(note => note.deletedAt).length;
+    return {
+      createdAt: archive.createdAt,
+      schemaVersion: archive.schemaVersion,
+      notes: notes.length - trashedNotes,
+      trashedNotes,
+      notebooks: notebooks.length,
+      revisions: revisions.length,
+      attachments: attachments.length,
+      storageEntries: Object.keys(archive.storage).length
+    };
+  }
+
+  public static async previewBackup(text: string): Promise<BackupPreview> {
+    return this.previewArchive(this.parseArchive(text));
+  }
+
+  /**
+   * Restore a serialized archive
+   * The database is restored first, in one transaction, so a failure there
+   * leaves both the notes and the settings untouched.
+   */
+  public static async restoreBackup(text: string, mode: DatabaseRestoreMode): Promise<BackupRestoreResult> {
+    return this.restoreArchive(this.parseArchive(text), mode);
+  }
+
+  public static async restoreArchive(archive: BackupArchive, mode: DatabaseRestoreMode): Promise<BackupRestoreResult> {
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new Error(`Unknown restore mode: ${mode}`);
+    }
+    const plan = await NotesDB.restoreDatabase(archive.database, mode);
+    const storageEntries = await this.restoreStorage(archive.storage, mode);
+    if (mode === 'replace') {
+      // The vault settings now come from the backup, so the current key may not fit
+      await VaultSession.clearKey();
+    }
+
+    return {
+      mode,
+      notesWritten: plan.added.length + plan.updated.length,
+      notesKept: plan.kept.length,
+      storageEntries
+    };
+  }
+
+  /**
+   * Replace swaps chrome.storage.local for the backup's copy; merge only
+   * adds the entries that don't exist yet
+   */
+  private static async restoreStorage(storage: Record<string, unknown>, mode: DatabaseRestoreMode): Promise<number> {
+    const current = await chrome.storage.local.get(null);
+    const incoming = { ...storage };
+    LOCAL_ONLY_STORAGE_KEYS.forEach(key => delete incoming[key]);
+
+    if (mode === 'replace') {
+      const preserved: Record<string, unknown> = {};
+      LOCAL_ONLY_STORAGE_KEYS
+        .filter(key => key in current)
+        .forEach(key => { preserved[key] = current[key]; });
+      await chrome.storage.local.clear();
+      await chrome.storage.local.set({ ...incoming, ...preserved });
+      return Object.keys(incoming).length;
+    }
+
+    // Merged notes are re-encrypted for this browser's vault, so its settings stay
+    const missing = Object.fromEntries(Object.entries(incoming).filter(([key]) =>
+      !(key in current) && key !== VaultSession.CONFIG_KEY
+    ));
+    await chrome.storage.local.set(missing);
+    return Object.keys(missing).length;
+  }
+
+  private static async previewArchive(archive: BackupArchive): Promise<BackupPreview> {
+    const plan = await NotesDB.planDatabaseMerge(archive.database.notes);
+    return {
+      summary: this.summarizeArchive(archive),
+      merge: {
+        added: plan.added.length,
+        updated: plan.updated.length,
+        kept: plan.kept.length
+      }
+    };
+  }
+
+  private static async getDB(): Promise<IDBDatabase> {
+    if (this.dbConnection) {
+      return this.dbConnection;
+    }
+    this.dbConnection = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(BACKUP_DB_NAME, BACKUP_DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        db.onclose = () => {
+          this.dbConnection = null;
+        };
+        resolve(db);
+      };
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(BACKUP_STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+      };
+    });
+    return this.dbConnection;
+  }
+
+  /**
+   * Create a backup and keep it inside the extension
+   * Scheduled backups beyond the configured number are deleted, oldest first;
+   * manual ones stay until the user deletes them.
+   */
+  public static async saveBackup(trigger: SavedBackup['trigger'] = 'manual'): Promise<SavedBackup> {
+    const archive = await this.createArchive();
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const record: SavedBackupRecord = {
+      id: uuidv4(),
+      createdAt: archive.createdAt,
+      trigger,
+      size: blob.size,
+      summary: this.summarizeArchive(archive),
+      archive: blob
+    };
+
+    const db = await this.getDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(BACKUP_STORE_NAME, 'readwrite');
+      transaction.objectStore(BACKUP_STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (trigger === 'scheduled') {
+      await this.rotateBackups();
+    }
+
+    const { archive: _archive, ...savedBackup } = record;
+    return savedBackup;
+  }
+
+  /**
+   * Saved backups, newest first
+   */
+  public static async listBackups(): Promise<SavedBackup[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const backups: SavedBackup[] = [];
+      const transaction = db.transaction(BACKUP_STORE_NAME, 'readonly');
+      const cursorRequest = transaction.objectStore(BACKUP_STORE_NAME).index('createdAt').openCursor(null, 'prev');
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const { archive, ...savedBackup } = cursor.value as SavedBackupRecord;
+          backups.push(savedBackup);
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve(backups);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Serialized archive of a saved backup, for downloading
+   */
+  public static async getBackup(id: string): Promise<string> {
+    const db = await this.getDB();
+    const record = await new Promise<SavedBackupRecord | undefined>((resolve, reject) => {
+      const request = db.transaction(BACKUP_STORE_NAME, 'readonly').objectStore(BACKUP_STORE_NAME).get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!record) {
+      throw new Error('Backup not found');
+    }
+    return record.archive.text();
+  }
+
+  public static async deleteBackup(id: string): Promise<void> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(BACKUP_STORE_NAME, 'readwrite');
+      transaction.objectStore(BACKUP_STORE_NAME).delete(id);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  public static async previewSavedBackup(id: string): Promise<BackupPreview> {
+    return this.previewBackup(await this.getBackup(id));
+  }
+
+  public static async restoreSavedBackup(id: string, mode: DatabaseRestoreMode): Promise<BackupRestoreResult> {
+    return this.restoreBackup(await this.getBackup(id), mode);
+  }
+
+  private static async rotateBackups(): Promise<void> {
+    const { keep } = await BackupSettings.getSchedule();
+    const expired = (await this.listBackups())
+      .filter(backup => backup.trigger === 'scheduled')
+      .slice(keep);
+    for (const backup of expired) {
+      await this.deleteBackup(backup.id);
+    }
+  }
+
+  /**
+   * Save a scheduled backup if one is due
+   * Called from the backup alarm; returns null when nothing was due.
+   */
+  public static async runScheduledBackup(): Promise<SavedBackup | null> {
+    const { frequency } = await BackupSettings.getSchedule();
+    const interval = BackupSettings.getInterval(frequency);
+    if (interval === null) return null;
+
+    const lastBackup = (await this.listBackups()).find(backup => backup.trigger === 'scheduled');
+    if (lastBackup && Date.now() - Date.parse(lastBackup.createdAt) < interval) {
+      return null;
+    }
+    return this.saveBackup('scheduled');
+  }
+}
@@ -0,0 +1,59 @@
+import { callRpc, RpcMethod, RpcParams, RpcResult } from './rpc';
+import type { BackupPreview, BackupRestoreResult, SavedBackup } from './BackupManager';
+import type { DatabaseRestoreMode } from './notesDB';
+
+export type { BackupPreview, BackupRestoreResult, SavedBackup, DatabaseRestoreMode };
+
+/**
+ * Runs backup operations in the background script, which owns the databases
+ * Archives travel as JSON text since messages can't carry Blobs.
+ */
+export class BackupProxy {
+  private static async sendMessage<M extends RpcMethod<'BACKUP_OPERATION'>>(
+    method: M,
+    ...params: RpcParams<'BACKUP_OPERATION', M>
+  ): Promise<RpcResult<'BACKUP_OPERATION', M>> {
+    try {
+      return await callRpc('BACKUP_OPERATION', method, ...params);
+    } catch (error) {
+      console.error(`BackupProxy ${method} failed:`, error);
+      throw error;
+    }
+  }
+
+  static async createBackup(): Promise<string> {
+    return this.sendMessage('createBackup');
+  }
+
+  static async previewBackup(text: string): Promise<BackupPreview> {
+    return this.sendMessage('previewBackup', text);
+  }
+
+  static async restoreBackup(text: string, mode: DatabaseRestoreMode): Promise<BackupRestoreResult> {
+    return this.sendMessage('restoreBackup', text, mode);
+  }
+
+  static async saveBackup(): Promise<SavedBackup> {
+    return this.sendMessage('saveBackup', 'manual');
+  }
+
+  static async listBackups(): Promise<SavedBackup[]> {
+    return this.sendMessage('listBackups');
+  }
+
+  static async getBackup(id: string): Promise<string> {
+    return this.sendMessage('getBackup', id);
+  }
+
+  static async deleteBackup(id: string): Promise<void> {
+    return this.sendMessage('deleteBackup', id);
+  }
+
+  static async previewSavedBackup(id: string): Promise<BackupPreview> {
+    return this.sendMessage('previewSavedBackup', id);
+  }
+
+  static async restoreSavedBackup(id: string, mode: DatabaseRestoreMode): Promise<BackupRestoreResult> {
+    return this.sendMessage('restoreSavedBackup', id, mode);
+  }
+}
@@ -0,0 +1,61 @@
+export type BackupFrequency = 'off' | 'daily' | 'weekly';
+
+export interface BackupSchedule {
+  frequency: BackupFrequency;
+  keep: number; // Scheduled backups to keep before the oldest is deleted
+}
+
+/**
+ * BackupSettings holds the automatic backup schedule.
+ * The schedule lives in chrome.storage.local so the background script can
+ * check it whenever the backup alarm fires.
+ */
+export class BackupSettings {
+  // Left out of backups so restoring one doesn't change this browser's schedule
+  public static STORAGE_KEY = 'backupSchedule';
+  public static DEFAULT_SCHEDULE: BackupSchedule = {
+    frequency: 'off',
+    keep: 5
+  };
+  public static FREQUENCY_OPTIONS: BackupFrequency[] = ['off', 'daily', 'weekly'];
+  public static KEEP_OPTIONS = [3, 5, 10, 20];
+  // Alarm name used by the background script to check whether a backup is due
+  public static BACKUP_ALARM = 'scheduled-backup';
+
+  public static async getSchedule(): Promise<BackupSchedule> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY);
+      return { ...this.DEFAULT_SCHEDULE, ...(result[this.STORAGE_KEY] || {}) };
+    } catch (error) {
+      console.error('Failed to read backup schedule:', error);
+      return this.DEFAULT_SCHEDULE;
+    }
+  }
+
+  public static async setSchedule(schedule: Partial<BackupSchedule>): Promise<BackupSchedule> {
+    const current = await this.getSchedule();
+    const updated = { ...current, ...schedule };
+    if (!this.FREQUENCY_OPTIONS.includes(updated.frequency)) {
+      throw new Error(`Unknown backup frequency: ${updated.frequency}`);
+    }
+    if (!Number.isFinite(updated.keep) || updated.keep < 1) {
+      throw new Error('At least one backup must be kept');
+    }
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: updated });
+    return updated;
+  }
+
+  /**
+   * Time between scheduled backups in milliseconds (null when they're off)
+   */
+  public static getInterval(frequency: BackupFrequency): number | null {
+    switch (frequency) {
+      case 'daily':
+        return 24 * 60 * 60 * 1000;
+      case 'weekly':
+        return 7 * 24 * 60 * 60 * 1000;
+      default:
+        return null;
+    }
+  }
+}
@@ -1,75 +1,115 @@
-import { Note } from './notesDB';
-import { Attachment } from './Attachment';
+import {
+  Note,
+  Notebook,
+  NoteRevision,
+  NoteSearchResult,
+  NoteSearchOptions,
+  SearchHighlight,
+  TagCount,
+  NoteConflict,
+  NoteParent,
+  NoteResolution,
+  NoteChange,
+  NoteChangeKind
+} from './notesDB';
+import { Attachment, ScreenshotType } from './Attachment';
+import { callRpc, RpcMethod, RpcParams, RpcResult } from './rpc';
 import { v4 as uuidv4 } from 'uuid';
 
 // Re-export types from notesDB
-export type { Note, Attachment };
+export type {
+  Note,
+  Notebook,
+  NoteRevision,
+  Attachment,
+  NoteSearchResult,
+  NoteSearchOptions,
+  SearchHighlight,
+  TagCount,
+  NoteConflict,
+  NoteParent,
+  NoteResolution,
+  NoteChange,
+  NoteChangeKind
+};
 
 export class DBProxy {
-  private static async sendMessage<T>(method: string, params: any[]): Promise<T> {
+  private static async sendMessage<M extends RpcMethod<'DB_OPERATION'>>(
+    method: M,
+    ...params: RpcParams<'DB_OPERATION', M>
+  ): Promise<RpcResult<'DB_OPERATION', M>> {
     try {
-      // Check for large attachments in params
-      if (method === 'createNote' || method === 'updateNote') {
-        const attachments = params.find(param => Array.isArray(param) && param.length > 0 && param[0].type);
-        
-        if (attachments) {
-          // Log attachment sizes to help debug
-          let totalSize = 0;
-          attachments.forEach((attachment: any, index: number) => {
-            let attachmentSize = 0;
-            if (attachment.screenshotData) {
-              attachmentSize += attachment.screenshotData.length;
-            }
-            if (attachment.thumbnailData) {
-              attachmentSize += attachment.thumbnailData.length;
-            }
-            totalSize += attachmentSize;
-          });
-          // Chrome message size limit is around 64MB, but we should warn if getting close
-          if (totalSize > 50 * 1024 * 1024) {
-            console.warn('DBProxy: Warning - Large attachment data may exceed message size limits');
-          }
-        }
-      }
-      
-      const response = await chrome.runtime.sendMessage({
-        type: 'DB_OPERATION',
-        method,
-        params
-      });
-      
-      if (response.error) {
-        throw new Error(response.error);
-      }
-      
-      return response.data;
+      // Notes with large screenshots are sent in chunks once they pass TRANSFER_THRESHOLD
+      return await callRpc('DB_OPERATION', method, ...params);
     } catch (error) {
       console.error(`DBProxy ${method} failed:`, error);
       throw error;
     }
   }
 
+  /**
+   * Listen for notes written anywhere, as announced by the background script
+   * Returns a function that stops listening.
+   */
+  static onNotesChanged(listener: (changes: NoteChange[]) => void): () => void {
+    const handleMessage = (message: any, _sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
+      if (message?.type === 'NOTES_CHANGED') {
+        listener(message.changes);
+        // The broadcast waits for an answer before moving on to the next tab
+        sendResponse({ success: true });
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }
+
   static async getNote(id: string): Promise<Note | null> {
-    return this.sendMessage('getNote', [id]);
+    return this.sendMessage('getNote', id);
   }
 
   static async getAllNotes(): Promise<Note[]> {
-    return this.sendMessage('getAllNotes', []);
+    return this.sendMessage('getAllNotes');
   }
 
   static async deleteNote(id: string): Promise<void> {
-    return this.sendMessage('deleteNote', [id]);
+    return this.sendMessage('deleteNote', id);
+  }
+
+  static async getTrashedNotes(): Promise<Note[]> {
+    return this.sendMessage('getTrashedNotes');
+  }
+
+  static async restoreNote(id: string): Promise<Note> {
+    return this.sendMessage('restoreNote', id);
+  }
+
+  static async purgeNote(id: string): Promise<void> {
+    return this.sendMessage('purgeNote', id);
+  }
+
+  static async purgeExpiredNotes(retentionDays: number): Promise<string[]> {
+    return this.sendMessage('purgeExpiredNotes', retentionDays);
+  }
+
+  static async searchNotes(query: string, options?: NoteSearchOptions): Promise<NoteSearchResult[]> {
+    return this.sendMessage('searchNotes', query, options);
   }
 
   static async createNote(
     title: string,
     content: string,
-    attachments?: Attachment[]
+    attachments?: Attachment[],
+    tags?: string[],
+    notebookId?: string | null
   ): Promise<Note> {
     // Determine if content is rich text (contains HTML tags)
     const isRichText = /<[a-z][\s\S]*>/i.test(content);
     
-    return this.sendMessage('createNote', [title, content, attachments]);
+    return this.sendMessage('createNote', title, content, attachments, tags, notebookId);
+  }
+
+  static async importNote(note: Note): Promise<Note> {
+    return this.sendMessage('importNote', note);
   }
 
   static async updateNote(
@@ -77,24 +117,101 @@ export class DBProxy {
     title: string,
     content: string,
     version?: number,
-    attachments?: Attachment[]
+    attachments?: Attachment[],
+    tags?: string[]
   ): Promise<Note> {
     // Determine if content is rich text (contains HTML tags)
     const isRichText = /<[a-z][\s\S]*>/i.test(content);
     
-    return this.sendMessage('updateNote', [id, title, content, version, attachments]);
+    return this.sendMessage('updateNote', id, title, content, version, attachments, tags);
+  }
+
+  static async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    return this.sendMessage('getRevisions', noteId);
+  }
+
+  static async getRevision(noteId: string, version: number): Promise<NoteRevision | null> {
+    return this.sendMessage('getRevision', noteId, version);
+  }
+
+  static async restoreRevision(noteId: string, version: number, expectedVersion?: number): Promise<Note> {
+    return this.sendMessage('restoreRevision', noteId, version, expectedVersion);
+  }
+
+  static async getConflict(noteId: string): Promise<NoteConflict | null> {
+    return this.sendMessage('getConflict', noteId);
+  }
+
+  static async getConflictIds(): Promise<string[]> {
+    return this.sendMessage('getConflictIds');
+  }
+
+  static async resolveConflict(
+    id: string,
+    resolution: NoteResolution,
+    parents: NoteParent[],
+    expectedVersion: number
+  ): Promise<Note> {
+    return this.sendMessage('resolveConflict', id, resolution, parents, expectedVersion);
   }
 
   static async addAttachment(noteId: string,
     url: string,
-    title: string | undefined,
     screenshotData?: string,
-    screenshotType?: 'visible' | 'full'
+    screenshotType?: ScreenshotType
   ): Promise<Note> {
-    return this.sendMessage('addAttachment', [noteId, url, title, screenshotData, screenshotType]);
+    return this.sendMessage('addAttachment', noteId, url, screenshotData, screenshotType);
   }
 
   static async removeAttachment(noteId: string, attachmentId: number): Promise<Note> {
-    return this.sendMessage('removeAttachment', [noteId, attachmentId]);
+    return this.sendMessage('removeAttachment', noteId, attachmentId);
+  }
+
+  static async getAttachmentData(attachmentId: number): Promise<string | null> {
+    return this.sendMessage('getAttachmentData', attachmentId);
+  }
+
+  static async getOriginalAttachmentData(attachmentId: number): Promise<string | null> {
+    return this.sendMessage('getOriginalAttachmentData', attachmentId);
+  }
+
+  static async getAllTags(): Promise<TagCount[]> {
+    return this.sendMessage('getAllTags');
+  }
+
+  static async renameTag(oldTag: string, newTag: string): Promise<Note[]> {
+    return this.sendMessage('renameTag', oldTag, newTag);
+  }
+
+  static async mergeTags(sourceTags: string[], targetTag: string): Promise<Note[]> {
+    return this.sendMessage('mergeTags', sourceTags, targetTag);
+  }
+
+  static async getAllNotebooks(): Promise<Notebook[]> {
+    return this.sendMessage('getAllNotebooks');
+  }
+
+  static async createNotebook(name: string, parentId?: string | null): Promise<Notebook> {
+    return this.sendMessage('createNotebook', name, parentId ?? null);
+  }
+
+  static async importNotebooks(notebooks: Notebook[]): Promise<number> {
+    return this.sendMessage('importNotebooks', notebooks);
+  }
+
+  static async renameNotebook(id: string, name: string): Promise<Notebook> {
+    return this.sendMessage('renameNotebook', id, name);
+  }
+
+  static async moveNotebook(id: string, parentId: string | null): Promise<Notebook> {
+    return this.sendMessage('moveNotebook', id, parentId);
+  }
+
+  static async deleteNotebook(id: string): Promise<void> {
+    return this.sendMessage('deleteNotebook', id);
+  }
+
+  static async moveNote(noteId: string, notebookId: string | null): Promise<Note> {
+    return this.sendMessage('moveNote', noteId, notebookId);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+export interface RevisionRetention {
+  maxRevisions: number; // Keep at most this many revisions per note (0 = unlimited)
+  thinAfterDays: number; // Older revisions keep only the last one per day (0 = never thin)
+}
+
+// Minimal shape needed to decide what to prune
+interface RevisionStamp {
+  version: number;
+  updatedAt: string;
+}
+
+/**
+ * RevisionSettings holds the revision history retention policy.
+ * The policy lives in chrome.storage.local so NotesDB can read it in the
+ * background script before recording a revision.
+ */
+export class RevisionSettings {
+  private static STORAGE_KEY = 'revisionRetention';
+  public static DEFAULT_RETENTION: RevisionRetention = {
+    maxRevisions: 50,
+    thinAfterDays: 30
+  };
+  public static MAX_REVISION_OPTIONS = [10, 25, 50, 100, 0];
+  public static THIN_AFTER_OPTIONS = [0, 7, 30, 90];
+
+  public static async getRetention(): Promise<RevisionRetention> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY);
+      return { ...this.DEFAULT_RETENTION, ...(result[this.STORAGE_KEY] || {}) };
+    } catch (error) {
+      console.error('Failed to read revision retention setting:', error);
+      return this.DEFAULT_RETENTION;
+    }
+  }
+
+  public static async setRetention(retention: Partial<RevisionRetention>): Promise<RevisionRetention> {
+    const current = await this.getRetention();
+    const updated = { ...current, ...retention };
+    if (updated.maxRevisions < 0 || updated.thinAfterDays < 0) {
+      throw new Error('Retention values cannot be negative');
+    }
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: updated });
+    return updated;
+  }
+
+  /**
+   * Pick the revisions that fall outside the retention policy
+   * Returns the versions to delete.
+   */
+  public static selectRevisionsToPrune(
+    revisions: RevisionStamp[],
+    retention: RevisionRetention,
+    now: number = Date.now()
+  ): number[] {
+    const newestFirst = [...revisions].sort((a, b) => b.version - a.version);
+    const prune = new Set<number>();
+
+    if (retention.thinAfterDays > 0) {
+      const cutoff = new Date(now - retention.thinAfterDays * 24 * 60 * 60 * 1000).toISOString();
+      const keptDays = new Set<string>();
+      newestFirst.forEach(revision => {
+        if (revision.updatedAt >= cutoff) return;
+        // Newest revision of each day survives, the rest of that day goes
+        const day = revision.updatedAt.slice(0, 10);
+        if (keptDays.has(day)) {
+          prune.add(revision.version);
+        } else {
+          keptDays.add(day);
+        }
+      });
+    }
+
+    if (retention.maxRevisions > 0) {
+      newestFirst
+        .filter(revision => !prune.has(revision.version))
+        .slice(retention.maxRevisions)
+        .forEach(revision => prune.add(revision.version));
+    }
+
+    return Array.from(prune);
+  }
+}
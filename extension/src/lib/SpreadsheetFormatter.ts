@@ -754,6 +754,34 @@ export class SpreadsheetFormatter {
     });
   }
   
+  /**
+   * Build the serialized HTML of a spreadsheet from cell contents
+   * The result has the same shape as serializeSpreadsheets output, so
+   * deserializeSpreadsheets can turn it into a working spreadsheet.
+   * Used when importing tables from other formats.
+   */
+  public static createSerializedSpreadsheet(cells: string[][]): string {
+    const rows = Math.max(cells.length, 1);
+    const columns = Math.max(...cells.map(row => row.length), 1);
+    const spreadsheetId = `spreadsheet-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const escapeAttribute = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    let tableHtml = '';
+    for (let i = 0; i < rows; i++) {
+      tableHtml += '<tr>';
+      for (let j = 0; j < columns; j++) {
+        const content = cells[i]?.[j] || '';
+        tableHtml += `<td class="ga-spreadsheet-cell" data-content="${escapeAttribute(content)}">${content}</td>`;
+      }
+      tableHtml += '</tr>';
+    }
+
+    return `<div class="ga-spreadsheet-container" data-spreadsheet="true" data-rows="${rows}" ` +
+      `data-columns="${columns}" data-spreadsheet-id="${spreadsheetId}">` +
+      `<table class="ga-spreadsheet-table"><tbody>${tableHtml}</tbody></table></div>`;
+  }
+
   /**
    * Refresh control handlers for all spreadsheets in the content
    * This is useful when switching tabs to ensure the add/remove buttons have fresh event handlers
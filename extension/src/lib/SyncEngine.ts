@@ -0,0 +1,309 @@
+import { NotesDB } from './notesDB';
+import { SyncSettings, SyncConfig } from './SyncSettings';
+import {
+  SyncRemote,
+  createSyncRemote,
+  RemoteNoteInput,
+  attachmentToRow,
+  noteToRow,
+  rowToAttachmentChange,
+  rowToNoteChange
+} from './syncRemote';
+
+export interface SyncState {
+  cursors: { notes: number; attachments: number }; // Highest server_seq pulled so far
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  failures: number; // Failed runs in a row, for the retry backoff
+  nextAttemptAt: number | null; // No scheduled run before this time (ms since epoch)
+}
+
+export interface SyncStatus {
+  config: SyncConfig;
+  state: SyncState;
+  pending: number; // Local changes waiting to be pushed
+  conflicts: number; // Notes changed on both sides, waiting to be resolved
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  skipped: string[]; // Pulled records with local changes, which won and were pushed instead
+  conflicts: string[]; // Notes changed on both sides since the last run
+}
+
+/**
+ * SyncEngine keeps notes and attachment images in step with a Supabase
+ * (or compatible PostgREST) backend. It runs in the background script.
+ *
+ * NotesDB queues every local change in the same transaction as the change
+ * itself. A run pulls everything the server has seen since the last
+ * cursor, then pushes the queue. When a note changed on both sides, the
+ * pulled copy is kept as a conflict and the local one is held back until
+ * the user has merged them. Records go up as stored, so with the vault on the server only sees
+ * ciphertext and every device needs the same passphrase. Notebooks stay
+ * local.
+ *
+ * Failed runs are retried with exponential backoff by the sync alarm.
+ */
+export class SyncEngine {
+  // Left out of backups along with the settings, since cursors belong to this browser
+  public static STATE_KEY = 'syncState';
+  private static DEFAULT_STATE: SyncState = {
+    cursors: { notes: 0, attachments: 0 },
+    lastSyncedAt: null,
+    lastError: null,
+    failures: 0,
+    nextAttemptAt: null
+  };
+  private static BATCH_SIZE = 50;
+  private static BASE_RETRY_DELAY = 30 * 1000;
+  private static MAX_RETRY_DELAY = 30 * 60 * 1000;
+  // Wait for a burst of edits to settle before syncing them
+  private static REQUEST_DELAY = 5 * 1000;
+
+  private static running: Promise<SyncResult> | null = null;
+  private static requestTimer: ReturnType<typeof setTimeout> | null = null;
+  private static conflictListener: ((noteIds: string[]) => void) | null = null;
+
+  /**
+   * Get told about new conflicts, e.g. to show them in open panels
+   */
+  public static setConflictListener(listener: ((noteIds: string[]) => void) | null): void {
+    this.conflictListener = listener;
+  }
+
+  public static async getStatus(): Promise<SyncStatus> {
+    return {
+      config: await SyncSettings.getConfig(),
+      state: await this.getState(),
+      pending: await NotesDB.getSyncQueueSize(),
+      conflicts: (await NotesDB.getConflictIds()).length
+    };
+  }
+
+  /**
+   * Save the connection settings
+   * Pointing sync at another server starts over: the cursors are reset and
+   * every note is queued so the new server gets a full copy.
+   */
+  public static async configure(config: Partial<SyncConfig>): Promise<SyncStatus> {
+    const previous = await SyncSettings.getConfig();
+    const updated = await SyncSettings.setConfig(config);
+
+    if (updated.url !== previous.url || updated.provider !== previous.provider) {
+      await this.setState(this.DEFAULT_STATE);
+      if (updated.url) {
+        await NotesDB.queueAllForSync();
+      }
+    } else if (updated.enabled && !previous.enabled) {
+      // Retry straight away rather than waiting out an old backoff
+      await this.setState({ ...(await this.getState()), failures: 0, nextAttemptAt: null });
+    }
+
+    if (updated.enabled) {
+      this.requestSync();
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * Sync right away, ignoring the backoff
+   * Failures are recorded in the status rather than thrown, so the menu
+   * can show them next to the pending count.
+   */
+  public static async syncNow(): Promise<SyncStatus> {
+    try {
+      await this.sync();
+    } catch (error) {
+      console.error('Sync failed:', error);
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * Schedule a sync shortly after a local change
+   * If the service worker stops before the timer fires, the sync alarm
+   * picks the queue up instead.
+   */
+  public static requestSync(): void {
+    if (this.requestTimer) {
+      clearTimeout(this.requestTimer);
+    }
+    this.requestTimer = setTimeout(() => {
+      this.requestTimer = null;
+      this.runScheduledSync();
+    }, this.REQUEST_DELAY);
+  }
+
+  /**
+   * Sync if it's turned on and the backoff from earlier failures has passed
+   * Coming back online skips the backoff, since that's what it waited for.
+   */
+  public static async runScheduledSync(ignoreBackoff = false): Promise<void> {
+    const config = await SyncSettings.getConfig();
+    if (!config.enabled) return;
+
+    const state = await this.getState();
+    if (!ignoreBackoff && state.nextAttemptAt !== null && Date.now() < state.nextAttemptAt) return;
+
+    try {
+      await this.sync();
+    } catch (error) {
+      console.error('Scheduled sync failed:', error);
+    }
+  }
+
+  /**
+   * Pull and then push, one run at a time
+   * Pass a remote to sync against something other than the configured
+   * server, e.g. a local stand-in.
+   */
+  public static sync(remote?: SyncRemote): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run(remote).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private static async run(remote?: SyncRemote): Promise<SyncResult> {
+    if (!remote) {
+      const config = await SyncSettings.getConfig();
+      if (!config.enabled) {
+        throw new Error('Sync is turned off');
+      }
+      remote = createSyncRemote(config);
+    }
+
+    const state = await this.getState();
+    try {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        throw new Error('No network connection');
+      }
+
+      const { pulled, skipped, conflicts } = await this.pull(remote, state);
+      const pushed = await this.push(remote);
+      if (conflicts.length > 0) {
+        this.conflictListener?.(conflicts);
+      }
+
+      await this.setState({
+        ...state,
+        lastSyncedAt: new Date().toISOString(),
+        lastError: null,
+        failures: 0,
+        nextAttemptAt: null
+      });
+      return { pulled, pushed, skipped, conflicts };
+    } catch (error) {
+      const failures = state.failures + 1;
+      await this.setState({
+        ...state,
+        lastError: (error as Error).message,
+        failures,
+        nextAttemptAt: Date.now() + this.getRetryDelay(failures)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply everything that changed on the server since the cursors
+   * The cursors are saved after each page, so an interrupted pull resumes
+   * where it stopped.
+   */
+  private static async pull(
+    remote: SyncRemote,
+    state: SyncState
+  ): Promise<{ pulled: number; skipped: string[]; conflicts: string[] }> {
+    let pulled = 0;
+    const skipped: string[] = [];
+    const conflicts: string[] = [];
+
+    for (;;) {
+      const rows = await remote.pullNotes(state.cursors.notes, this.BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      const result = await NotesDB.applyRemoteNotes(rows.map(rowToNoteChange));
+      pulled += result.applied.length;
+      skipped.push(...result.skipped);
+      conflicts.push(...result.conflicts);
+      state.cursors.notes = Math.max(...rows.map(row => Number(row.server_seq)));
+      await this.setState(state);
+      if (rows.length < this.BATCH_SIZE) break;
+    }
+
+    for (;;) {
+      const rows = await remote.pullAttachments(state.cursors.attachments, this.BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      const result = await NotesDB.applyRemoteAttachments(rows.map(rowToAttachmentChange));
+      pulled += result.applied.length;
+      skipped.push(...result.skipped);
+      state.cursors.attachments = Math.max(...rows.map(row => Number(row.server_seq)));
+      await this.setState(state);
+      if (rows.length < this.BATCH_SIZE) break;
+    }
+
+    return { pulled, skipped, conflicts };
+  }
+
+  /**
+   * Push the queue a page at a time
+   * Each page is only taken off the queue once the server has it. Notes
+   * with an unresolved conflict stay queued; changes made during the push
+   * go with the next run.
+   */
+  private static async push(remote: SyncRemote): Promise<number> {
+    const conflictIds = new Set(await NotesDB.getConflictIds());
+    const queue = (await NotesDB.getSyncQueue()).filter(entry => !conflictIds.has(entry.noteId));
+    let pushed = 0;
+
+    for (let start = 0; start < queue.length; start += this.BATCH_SIZE) {
+      const entries = queue.slice(start, start + this.BATCH_SIZE);
+      const noteRows: RemoteNoteInput[] = [];
+      for (const entry of entries) {
+        if (entry.kind === 'note') {
+          const note = entry.deleted ? null : await NotesDB.getSyncNote(entry.recordId);
+          if (note) {
+            noteRows.push(noteToRow(note));
+          } else {
+            await remote.purgeNote(entry.recordId, entry.queuedAt);
+          }
+        } else {
+          const attachmentId = Number(entry.recordId);
+          const attachment = entry.deleted ? null : await NotesDB.getSyncAttachment(attachmentId);
+          await remote.pushAttachment(attachmentToRow(
+            attachment ?? { id: attachmentId, noteId: entry.noteId, data: null }
+          ));
+        }
+      }
+      await remote.pushNotes(noteRows);
+      await NotesDB.completeSyncEntries(entries);
+      pushed += entries.length;
+    }
+    return pushed;
+  }
+
+  // Doubles with each failure up to the maximum, with jitter so devices don't retry in lockstep
+  private static getRetryDelay(failures: number): number {
+    const delay = Math.min(this.MAX_RETRY_DELAY, this.BASE_RETRY_DELAY * 2 ** (failures - 1));
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+
+  private static async getState(): Promise<SyncState> {
+    const result = await chrome.storage.local.get(this.STATE_KEY);
+    const stored = result[this.STATE_KEY] || {};
+    return {
+      ...this.DEFAULT_STATE,
+      ...stored,
+      cursors: { ...this.DEFAULT_STATE.cursors, ...(stored.cursors || {}) }
+    };
+  }
+
+  private static async setState(state: SyncState): Promise<void> {
+    await chrome.storage.local.set({ [this.STATE_KEY]: state });
+  }
+}
@@ -0,0 +1,34 @@
+import { callRpc, RpcMethod, RpcParams, RpcResult } from './rpc';
+import type { SyncStatus, SyncState } from './SyncEngine';
+import type { SyncConfig } from './SyncSettings';
+
+export type { SyncStatus, SyncState, SyncConfig };
+
+/**
+ * Runs sync operations in the background script, which owns the database
+ */
+export class SyncProxy {
+  private static async sendMessage<M extends RpcMethod<'SYNC_OPERATION'>>(
+    method: M,
+    ...params: RpcParams<'SYNC_OPERATION', M>
+  ): Promise<RpcResult<'SYNC_OPERATION', M>> {
+    try {
+      return await callRpc('SYNC_OPERATION', method, ...params);
+    } catch (error) {
+      console.error(`SyncProxy ${method} failed:`, error);
+      throw error;
+    }
+  }
+
+  static async getStatus(): Promise<SyncStatus> {
+    return this.sendMessage('getStatus');
+  }
+
+  static async configure(config: Partial<SyncConfig>): Promise<SyncStatus> {
+    return this.sendMessage('configure', config);
+  }
+
+  static async syncNow(): Promise<SyncStatus> {
+    return this.sendMessage('syncNow');
+  }
+}
@@ -0,0 +1,59 @@
+// Supabase project, or the self-hosted server in backend/
+export type SyncProvider = 'supabase' | 'server';
+
+export interface SyncConfig {
+  enabled: boolean;
+  provider: SyncProvider;
+  url: string; // Project URL of a Supabase (or compatible PostgREST) backend, or of the server
+  apiKey: string; // Anon key sent as the apikey header; the server's API_KEY, if it has one
+  accessToken: string; // Optional user JWT, so row-level security can tell users apart
+}
+
+/**
+ * SyncSettings holds the cloud sync connection.
+ * It lives in chrome.storage.local and is left out of backups, since the
+ * key and token belong to this browser.
+ */
+export class SyncSettings {
+  public static STORAGE_KEY = 'syncSettings';
+  public static DEFAULT_CONFIG: SyncConfig = {
+    enabled: false,
+    provider: 'supabase',
+    url: '',
+    apiKey: '',
+    accessToken: ''
+  };
+  // Alarm name used by the background script to retry and pull periodically
+  public static SYNC_ALARM = 'cloud-sync';
+
+  public static async getConfig(): Promise<SyncConfig> {
+    try {
+      const result = await chrome.storage.local.get(this.STORAGE_KEY);
+      return { ...this.DEFAULT_CONFIG, ...(result[this.STORAGE_KEY] || {}) };
+    } catch (error) {
+      console.error('Failed to read sync settings:', error);
+      return this.DEFAULT_CONFIG;
+    }
+  }
+
+  public static async setConfig(config: Partial<SyncConfig>): Promise<SyncConfig> {
+    const current = await this.getConfig();
+    const updated: SyncConfig = {
+      ...current,
+      ...config,
+      url: (config.url ?? current.url).trim().replace(/\/+$/, ''),
+      apiKey: (config.apiKey ?? current.apiKey).trim(),
+      accessToken: (config.accessToken ?? current.accessToken).trim()
+    };
+    if (updated.enabled) {
+      if (!/^https?:\/\/\S+$/.test(updated.url)) {
+        throw new Error('Enter the http(s) URL of the sync server');
+      }
+      if (updated.provider === 'supabase' && !updated.apiKey) {
+        throw new Error('Enter the API key of the sync server');
+      }
+    }
+    await chrome.storage.local.set({ [this.STORAGE_KEY]: updated });
+    return updated;
+  }
+}
@@ -1,4 +1,4 @@
-import { Attachment } from './Attachment';
+import { Attachment, ScreenshotType } from './Attachment';
 import { TabAssociationManager } from './TabAssociationManager';
 
 // Define interfaces for our cache structure
@@ -8,6 +8,8 @@ export interface Tab {
   content: string;
   isRichText?: boolean;
   attachments?: AttachmentReference[];
+  tags?: string[];
+  notebookId?: string | null;
   isNew: boolean;
   version?: number;
   createdAt?: string;
@@ -23,7 +25,7 @@ export interface AttachmentReference {
   id: number;
   type: "url" | "screenshot";
   url?: string;
-  screenshotType?: 'visible' | 'full';
+  screenshotType?: ScreenshotType;
   createdAt: string;
   syncStatus: 'pending' | 'synced';
   // We don't store the actual data in the reference
@@ -369,6 +371,46 @@ export class TabCacheManager {
     return cache;
   }
 
+  /**
+   * Replace an attachment of a tab, e.g. after annotating it
+   */
+  public static async updateAttachmentInTab(
+    cache: TabCache,
+    tabId: string,
+    attachment: Attachment
+  ): Promise<TabCache> {
+    const tabIndex = cache.tabs.findIndex(tab => tab.id === tabId);
+    if (tabIndex < 0) {
+      console.error(`Cannot update attachment: Tab ${tabId} not found in cache`);
+      return cache;
+    }
+
+    try {
+      await chrome.storage.local.set({ [`${this.ATTACHMENT_PREFIX}${attachment.id}`]: attachment });
+    } catch (error) {
+      console.error(`Failed to store attachment ${attachment.id} in cache:`, error);
+    }
+
+    const updatedTabs = [...cache.tabs];
+    const tab = updatedTabs[tabIndex];
+    updatedTabs[tabIndex] = {
+      ...tab,
+      attachments: (tab.attachments || []).map(reference =>
+        reference.id === attachment.id ? this.createAttachmentReference(attachment) : reference
+      ),
+      syncStatus: 'pending' as const
+    };
+
+    const updatedCache = {
+      ...cache,
+      tabs: updatedTabs,
+      lastUpdated: new Date().toISOString()
+    };
+
+    await this.saveCache(updatedCache);
+    return updatedCache;
+  }
+
   /**
    * Clear all tab and attachment caches
    * Only cleans up orphaned attachments and preserves active tab attachments and pinned tabs
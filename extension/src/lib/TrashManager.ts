@@ -0,0 +1,41 @@
+/**
+ * TrashManager holds the trash retention setting.
+ * The setting lives in chrome.storage.local so the background script can
+ * read it when it runs the periodic purge.
+ */
+export class TrashManager {
+  private static RETENTION_KEY = 'trashRetentionDays';
+  public static DEFAULT_RETENTION_DAYS = 30;
+  public static RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+  // Alarm name used by the background script to schedule purges
+  public static PURGE_ALARM = 'trash-purge';
+
+  /**
+   * Get the number of days notes stay in the trash before being purged
+   */
+  public static async getRetentionDays(): Promise<number> {
+    try {
+      const result = await chrome.storage.local.get(this.RETENTION_KEY);
+      const days = result[this.RETENTION_KEY];
+      return typeof days === 'number' && days > 0 ? days : this.DEFAULT_RETENTION_DAYS;
+    } catch (error) {
+      console.error('Failed to read trash retention setting:', error);
+      return this.DEFAULT_RETENTION_DAYS;
+    }
+  }
+
+  public static async setRetentionDays(days: number): Promise<void> {
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error('Retention period must be a positive number of days');
+    }
+    await chrome.storage.local.set({ [this.RETENTION_KEY]: Math.round(days) });
+  }
+
+  /**
+   * Days left before a trashed note is purged (0 when it's due)
+   */
+  public static getDaysUntilPurge(deletedAt: string, retentionDays: number): number {
+    const purgeAt = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  }
+}
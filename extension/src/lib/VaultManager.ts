@@ -0,0 +1,162 @@
+import { NotesDB } from './notesDB';
+import { VaultSession, VaultConfig } from './VaultSession';
+import {
+  PBKDF2_ITERATIONS,
+  WrongPassphraseError,
+  decryptText,
+  deriveKey,
+  encryptText,
+  generateSalt
+} from './vaultCrypto';
+
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+}
+
+// Encrypted into the vault settings so unlock can tell a wrong passphrase
+const VERIFIER_TEXT = 'ga-notes-vault';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * VaultManager turns note encryption on and off, and locks and unlocks it.
+ * It runs in the background script. In notesDB the vault encrypts the
+ * titles and content of notes, revisions and sync conflicts, and for each
+ * attachment its link, thumbnail, image data, unannotated original,
+ * annotations, source page and captured element text.
+ *
+ * These stay plaintext: notebooks, tags, IDs, timestamps and versions,
+ * which notebook a note is filed in, whether it's in the trash, an
+ * attachment's type, screenshot type and image metadata (format, sizes,
+ * element selector), and the unsaved drafts in the tab cache.
+ */
+export class VaultManager {
+  public static async getStatus(): Promise<VaultStatus> {
+    const config = await VaultSession.getConfig();
+    return {
+      enabled: config !== null,
+      unlocked: config !== null && await VaultSession.isUnlocked(),
+      autoLockMinutes: config?.autoLockMinutes ?? VaultSession.DEFAULT_AUTO_LOCK_MINUTES
+    };
+  }
+
+  /**
+   * Turn the vault on and encrypt every note with the passphrase
+   * The settings are written first: if encrypting fails, the database is
+   * still plaintext, which reads fine, and the settings are rolled back.
+   */
+  public static async enable(passphrase: string): Promise<VaultStatus> {
+    if (await VaultSession.getConfig()) {
+      throw new Error('The vault is already turned on');
+    }
+    this.checkPassphrase(passphrase);
+
+    const { config, key } = await this.createConfig(passphrase, VaultSession.DEFAULT_AUTO_LOCK_MINUTES);
+    await VaultSession.setConfig(config);
+    try {
+      await NotesDB.recryptDatabase(null, key);
+    } catch (error) {
+      await VaultSession.setConfig(null);
+      throw error;
+    }
+    await VaultSession.setKey(key);
+    return this.getStatus();
+  }
+
+  /**
+   * Unlock the vault; throws WrongPassphraseError for a wrong passphrase
+   */
+  public static async unlock(passphrase: string): Promise<VaultStatus> {
+    const config = await this.requireConfig();
+    await VaultSession.setKey(await this.verifyPassphrase(config, passphrase));
+    return this.getStatus();
+  }
+
+  public static async lock(): Promise<VaultStatus> {
+    await VaultSession.clearKey();
+    return this.getStatus();
+  }
+
+  /**
+   * Re-encrypt everything with a key derived from a new passphrase
+   */
+  public static async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<VaultStatus> {
+    const config = await this.requireConfig();
+    const currentKey = await this.verifyPassphrase(config, currentPassphrase);
+    this.checkPassphrase(newPassphrase);
+
+    const { config: newConfig, key: newKey } = await this.createConfig(newPassphrase, config.autoLockMinutes);
+    await VaultSession.setConfig(newConfig);
+    try {
+      await NotesDB.recryptDatabase(currentKey, newKey);
+    } catch (error) {
+      await VaultSession.setConfig(config);
+      throw error;
+    }
+    await VaultSession.setKey(newKey);
+    return this.getStatus();
+  }
+
+  /**
+   * Decrypt every note and turn the vault off
+   * The settings are only removed once the database is plaintext again.
+   */
+  public static async disable(passphrase: string): Promise<VaultStatus> {
+    const config = await this.requireConfig();
+    const key = await this.verifyPassphrase(config, passphrase);
+
+    await NotesDB.recryptDatabase(key, null);
+    await VaultSession.setConfig(null);
+    await VaultSession.clearKey();
+    return this.getStatus();
+  }
+
+  public static async setAutoLock(minutes: number): Promise<VaultStatus> {
+    if (!VaultSession.AUTO_LOCK_OPTIONS.includes(minutes)) {
+      throw new Error(`Unsupported auto-lock period: ${minutes}`);
+    }
+    const config = await this.requireConfig();
+    await VaultSession.setConfig({ ...config, autoLockMinutes: minutes });
+    return this.getStatus();
+  }
+
+  private static checkPassphrase(passphrase: string): void {
+    if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private static async requireConfig(): Promise<VaultConfig> {
+    const config = await VaultSession.getConfig();
+    if (!config) {
+      throw new Error('The vault is not turned on');
+    }
+    return config;
+  }
+
+  private static async createConfig(
+    passphrase: string,
+    autoLockMinutes: number
+  ): Promise<{ config: VaultConfig; key: CryptoKey }> {
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return {
+      config: {
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        verifier: await encryptText(key, VERIFIER_TEXT),
+        autoLockMinutes
+      },
+      key
+    };
+  }
+
+  private static async verifyPassphrase(config: VaultConfig, passphrase: string): Promise<CryptoKey> {
+    const key = await deriveKey(passphrase, config.salt, config.iterations);
+    if (await decryptText(key, config.verifier) !== VERIFIER_TEXT) {
+      throw new WrongPassphraseError();
+    }
+    return key;
+  }
+}
@@ -0,0 +1,49 @@
+import { callRpc, RpcMethod, RpcParams, RpcResult } from './rpc';
+import type { VaultStatus } from './VaultManager';
+
+export type { VaultStatus };
+
+/**
+ * Runs vault operations in the background script, which holds the key
+ */
+export class VaultProxy {
+  private static async sendMessage<M extends RpcMethod<'VAULT_OPERATION'>>(
+    method: M,
+    ...params: RpcParams<'VAULT_OPERATION', M>
+  ): Promise<RpcResult<'VAULT_OPERATION', M>> {
+    try {
+      return await callRpc('VAULT_OPERATION', method, ...params);
+    } catch (error) {
+      console.error(`VaultProxy ${method} failed:`, error);
+      throw error;
+    }
+  }
+
+  static async getStatus(): Promise<VaultStatus> {
+    return this.sendMessage('getStatus');
+  }
+
+  static async enable(passphrase: string): Promise<VaultStatus> {
+    return this.sendMessage('enable', passphrase);
+  }
+
+  static async unlock(passphrase: string): Promise<VaultStatus> {
+    return this.sendMessage('unlock', passphrase);
+  }
+
+  static async lock(): Promise<VaultStatus> {
+    return this.sendMessage('lock');
+  }
+
+  static async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<VaultStatus> {
+    return this.sendMessage('changePassphrase', currentPassphrase, newPassphrase);
+  }
+
+  static async disable(passphrase: string): Promise<VaultStatus> {
+    return this.sendMessage('disable', passphrase);
+  }
+
+  static async setAutoLock(minutes: number): Promise<VaultStatus> {
+    return this.sendMessage('setAutoLock', minutes);
+  }
+}
@@ -0,0 +1,124 @@
+import { VaultLockedError, exportKey, importKey } from './vaultCrypto';
+
+export interface VaultConfig {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number;
+  verifier: string; // Known text encrypted with the key, to check a passphrase
+  autoLockMinutes: number; // Lock after this long without database activity (0 = never)
+}
+
+interface VaultSessionState {
+  key: string; // Raw key, base64
+  lastActivity: number;
+}
+
+/**
+ * VaultSession holds the vault settings and the unlocked key.
+ * The settings live in chrome.storage.local. The key is kept in memory and
+ * in chrome.storage.session, which content scripts can't read and which is
+ * cleared when the browser closes, so it survives service worker restarts
+ * but never reaches the disk.
+ */
+export class VaultSession {
+  public static CONFIG_KEY = 'vaultConfig';
+  private static SESSION_KEY = 'vaultSession';
+  public static DEFAULT_AUTO_LOCK_MINUTES = 15;
+  public static AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+  // Alarm name used by the background script to check for inactivity
+  public static AUTO_LOCK_ALARM = 'vault-auto-lock';
+  // Don't write the activity time to session storage on every operation
+  private static ACTIVITY_WRITE_INTERVAL = 30 * 1000;
+
+  private static key: CryptoKey | null = null;
+  private static lastActivityWrite = 0;
+
+  public static async getConfig(): Promise<VaultConfig | null> {
+    const result = await chrome.storage.local.get(this.CONFIG_KEY);
+    return result[this.CONFIG_KEY] || null;
+  }
+
+  public static async setConfig(config: VaultConfig | null): Promise<void> {
+    if (config) {
+      await chrome.storage.local.set({ [this.CONFIG_KEY]: config });
+    } else {
+      await chrome.storage.local.remove(this.CONFIG_KEY);
+    }
+  }
+
+  /**
+   * Key to encrypt and decrypt notes with
+   * Returns null when the vault is off and throws VaultLockedError when it's
+   * on but locked. Each call counts as activity for the auto-lock.
+   */
+  public static async getKey(): Promise<CryptoKey | null> {
+    if (!(await this.getConfig())) {
+      return null;
+    }
+
+    if (!this.key) {
+      const state = await this.getSessionState();
+      if (state) {
+        this.key = await importKey(state.key);
+      }
+    }
+    if (!this.key) {
+      throw new VaultLockedError();
+    }
+
+    await this.recordActivity();
+    return this.key;
+  }
+
+  public static async setKey(key: CryptoKey): Promise<void> {
+    const now = Date.now();
+    await chrome.storage.session.set({
+      [this.SESSION_KEY]: { key: await exportKey(key), lastActivity: now } as VaultSessionState
+    });
+    this.key = key;
+    this.lastActivityWrite = now;
+  }
+
+  public static async clearKey(): Promise<void> {
+    this.key = null;
+    await chrome.storage.session.remove(this.SESSION_KEY);
+  }
+
+  public static async isUnlocked(): Promise<boolean> {
+    return this.key !== null || (await this.getSessionState()) !== null;
+  }
+
+  /**
+   * Lock the vault if it has been idle longer than the auto-lock period
+   * Returns true when it was locked.
+   */
+  public static async checkAutoLock(): Promise<boolean> {
+    const config = await this.getConfig();
+    const state = await this.getSessionState();
+    if (!config || !state || config.autoLockMinutes <= 0) {
+      return false;
+    }
+
+    if (Date.now() - state.lastActivity < config.autoLockMinutes * 60 * 1000) {
+      return false;
+    }
+    await this.clearKey();
+    return true;
+  }
+
+  private static async recordActivity(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastActivityWrite < this.ACTIVITY_WRITE_INTERVAL) {
+      return;
+    }
+    const state = await this.getSessionState();
+    if (state) {
+      await chrome.storage.session.set({ [this.SESSION_KEY]: { ...state, lastActivity: now } });
+      this.lastActivityWrite = now;
+    }
+  }
+
+  private static async getSessionState(): Promise<VaultSessionState | null> {
+    const result = await chrome.storage.session.get(this.SESSION_KEY);
+    return result[this.SESSION_KEY] || null;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { NotesDB } from '../notesDB';
+import { SyncEngine } from '../SyncEngine';
+import {
+  SyncRemote,
+  RemoteNoteInput,
+  RemoteNoteRow,
+  RemoteAttachmentInput,
+  RemoteAttachmentRow
+} from '../syncRemote';
+
+// In-memory stand-in for the sync server, numbering writes like server_seq does
+class MemorySyncRemote implements SyncRemote {
+  private seq = 0;
+  private notes = new Map<string, RemoteNoteRow>();
+  private attachments = new Map<number, RemoteAttachmentRow>();
+
+  async pushNotes(rows: RemoteNoteInput[]): Promise<void> {
+    rows.forEach(row => this.notes.set(row.id, { ...row, server_seq: ++this.seq }));
+  }
+
+  async purgeNote(noteId: string, purgedAt: string): Promise<void> {
+    this.notes.set(noteId, {
+      id: noteId,
+      title: '',
+      content: '',
+      is_rich_text: false,
+      tags: [],
+      notebook_id: null,
+      attachments: [],
+      created_at: purgedAt,
+      updated_at: purgedAt,
+      version: 0,
+      deleted_at: purgedAt,
+      purged_at: purgedAt,
+      parents: null,
+      server_seq: ++this.seq
+    });
+  }
+
+  async pushAttachment(row: RemoteAttachmentInput): Promise<void> {
+    this.attachments.set(row.id, { ...row, server_seq: ++this.seq });
+  }
+
+  async pullNotes(after: number, limit: number): Promise<RemoteNoteRow[]> {
+    return this.pull([...this.notes.values()], after, limit);
+  }
+
+  async pullAttachments(after: number, limit: number): Promise<RemoteAttachmentRow[]> {
+    return this.pull([...this.attachments.values()], after, limit);
+  }
+
+  private pull<T extends { server_seq: number }>(rows: T[], after: number, limit: number): T[] {
+    return rows
+      .filter(row => row.server_seq > after)
+      .sort((a, b) => a.server_seq - b.server_seq)
+      .slice(0, limit);
+  }
+}
+
+type StorageData = Record<string, any>;
+
+// A browser profile: its own database and extension storage
+interface Device {
+  indexedDB: IDBFactory;
+  local: StorageData;
+  session: StorageData;
+}
+
+const createDevice = (): Device => ({ indexedDB: new IDBFactory(), local: {}, session: {} });
+
+let current: Device = createDevice();
+
+const storageArea = (getData: () => StorageData) => ({
+  get: async (keys?: string | string[] | null) => {
+    const data = getData();
+    const names = keys == null ? Object.keys(data) : Array.isArray(keys) ? keys : [keys];
+    return Object.fromEntries(names.filter(name => name in data).map(name => [name, data[name]]));
+  },
+  set: async (items: StorageData) => {
+    Object.assign(getData(), items);
+  },
+  remove: async (keys: string | string[]) => {
+    (Array.isArray(keys) ? keys : [keys]).forEach(name => delete getData()[name]);
+  }
+});
+
+(global as any).chrome = {
+  storage: {
+    local: storageArea(() => current.local),
+    session: storageArea(() => current.session)
+  }
+};
+
+async function useDevice(device: Device): Promise<void> {
+  await NotesDB.closeConnection();
+  current = device;
+  global.indexedDB = device.indexedDB;
+}
+
+describe('SyncEngine', () => {
+  let remote: MemorySyncRemote;
+  let laptop: Device;
+  let desktop: Device;
+  let now: number;
+
+  // Timestamps have seconds precision, so every step happens a bit later
+  const later = () => {
+    now += 60 * 1000;
+    jest.setSystemTime(now);
+  };
+
+  beforeEach(() => {
+    // Only the clock is faked; IndexedDB still needs real timers
+    jest.useFakeTimers({
+      doNotFake: [
+        'hrtime', 'nextTick', 'performance', 'queueMicrotask',
+        'setImmediate', 'clearImmediate', 'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'
+      ]
+    });
+    now = Date.parse('2024-05-01T09:00:00Z');
+    jest.setSystemTime(now);
+    remote = new MemorySyncRemote();
+    laptop = createDevice();
+    desktop = createDevice();
+  });
+
+  afterEach(async () => {
+    await NotesDB.closeConnection();
+    jest.useRealTimers();
+  });
+
+  it('carries a note to another device', async () => {
+    await useDevice(laptop);
+    const note = await NotesDB.createNote('Release plan', 'Ship it on Friday');
+    await SyncEngine.sync(remote);
+
+    await useDevice(desktop);
+    const result = await SyncEngine.sync(remote);
+    expect(result.pulled).toBe(1);
+    expect((await NotesDB.getNote(note.id))?.content).toBe('Ship it on Friday');
+  });
+
+  it('moves a note to the trash and back on the other device', async () => {
+    await useDevice(laptop);
+    const note = await NotesDB.createNote('Release plan', 'Ship it on Friday');
+    await SyncEngine.sync(remote);
+    await useDevice(desktop);
+    await SyncEngine.sync(remote);
+
+    later();
+    await useDevice(laptop);
+    await NotesDB.deleteNote(note.id);
+    await SyncEngine.sync(remote);
+
+    await useDevice(desktop);
+    await SyncEngine.sync(remote);
+    expect((await NotesDB.getAllNotes()).map(n => n.id)).not.toContain(note.id);
+    expect((await NotesDB.getTrashedNotes()).map(n => n.id)).toContain(note.id);
+
+    later();
+    await NotesDB.restoreNote(note.id);
+    await SyncEngine.sync(remote);
+
+    await useDevice(laptop);
+    await SyncEngine.sync(remote);
+    expect((await NotesDB.getAllNotes()).map(n => n.id)).toContain(note.id);
+    expect(await NotesDB.getTrashedNotes()).toEqual([]);
+  });
+
+  it('removes notes a replace restore left out from the other device', async () => {
+    await useDevice(laptop);
+    const kept = await NotesDB.createNote('Release plan', 'Ship it on Friday');
+    const snapshot = await NotesDB.exportDatabase();
+    const dropped = await NotesDB.createNote('Scratch', 'Written after the backup');
+    await SyncEngine.sync(remote);
+    await useDevice(desktop);
+    await SyncEngine.sync(remote);
+
+    await useDevice(laptop);
+    await NotesDB.restoreDatabase(snapshot, 'replace');
+    await SyncEngine.sync(remote);
+
+    await useDevice(desktop);
+    await SyncEngine.sync(remote);
+    expect((await NotesDB.getAllNotes()).map(n => n.id)).toEqual([kept.id]);
+    expect(await NotesDB.getNote(dropped.id)).toBeNull();
+  });
+});
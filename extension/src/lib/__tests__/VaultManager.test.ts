@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { NotesDB } from '../notesDB';
+import { VaultManager } from '../VaultManager';
+import { isEncryptedText } from '../vaultCrypto';
+
+type StorageData = Record<string, any>;
+
+const storageArea = (data: StorageData) => ({
+  get: async (keys?: string | string[] | null) => {
+    const names = keys == null ? Object.keys(data) : Array.isArray(keys) ? keys : [keys];
+    return Object.fromEntries(names.filter(name => name in data).map(name => [name, data[name]]));
+  },
+  set: async (items: StorageData) => {
+    Object.assign(data, items);
+  },
+  remove: async (keys: string | string[]) => {
+    (Array.isArray(keys) ? keys : [keys]).forEach(name => delete data[name]);
+  }
+});
+
+describe('VaultManager', () => {
+  beforeEach(() => {
+    global.indexedDB = new IDBFactory();
+    (global as any).chrome = { storage: { local: storageArea({}), session: storageArea({}) } };
+  });
+
+  afterEach(async () => {
+    await VaultManager.lock();
+    await NotesDB.closeConnection();
+  });
+
+  it('encrypts the link of a url attachment', async () => {
+    await VaultManager.enable('first passphrase');
+    const note = await NotesDB.createNote('Reading list', '');
+    await NotesDB.addAttachment(note.id, 'https://example.com/article');
+
+    const [stored] = (await NotesDB.getSyncNote(note.id))!.attachments!;
+    expect(isEncryptedText(stored.url)).toBe(true);
+    expect((await NotesDB.getNote(note.id))?.attachments?.[0].url).toBe('https://example.com/article');
+  });
+
+  it('keeps sync conflicts readable after the passphrase changes or the vault is turned off', async () => {
+    await VaultManager.enable('first passphrase');
+    const note = await NotesDB.createNote('Release plan', 'Ship it on Friday');
+
+    // Stands in for a copy pulled from another device, encrypted with the same key
+    await NotesDB.updateNote(note.id, 'Release plan', 'Ship it on Monday');
+    const theirs = await NotesDB.getSyncNote(note.id);
+    await NotesDB.updateNote(note.id, 'Release plan', 'Ship it on Tuesday');
+    const result = await NotesDB.applyRemoteNotes([{
+      note: { ...theirs!, version: 4, updatedAt: '2099-01-01T00:00:00' },
+      purged: false
+    }]);
+    expect(result.conflicts).toEqual([note.id]);
+
+    await VaultManager.changePassphrase('first passphrase', 'second passphrase');
+    expect((await NotesDB.getConflict(note.id))?.theirs.content).toBe('Ship it on Monday');
+
+    await VaultManager.disable('second passphrase');
+    expect((await NotesDB.getConflict(note.id))?.theirs.content).toBe('Ship it on Monday');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  DB_NAME,
+  DB_VERSION,
+  STORE_NAME,
+  SEARCH_STORE_NAME,
+  ATTACHMENT_STORE_NAME,
+  SYNC_QUEUE_STORE_NAME,
+  runMigrations
+} from '../dbMigrations';
+
+const SCREENSHOT = 'data:image/png;base64,iVBORw0KGgo=';
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getAll = async (db: IDBDatabase, storeName: string) =>
+  requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+
+// A database as the first release left it: a single notes store at version 2
+async function createBaselineDatabase(notes: object[]): Promise<void> {
+  const request = indexedDB.open(DB_NAME, 2);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+    notes.forEach(note => store.put(note));
+  };
+  const db = await requestResult(request);
+  db.close();
+}
+
+// Opens the database the way NotesDB does
+function upgradeDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let migrationError: unknown = null;
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion).catch(error => {
+        migrationError = error;
+        request.transaction!.abort();
+      });
+    };
+    request.onsuccess = () => (migrationError ? reject(migrationError) : resolve(request.result));
+    request.onerror = () => reject(migrationError ?? request.error);
+  });
+}
+
+describe('database migrations', () => {
+  let db: IDBDatabase | null = null;
+
+  beforeEach(() => {
+    global.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    db?.close();
+    db = null;
+  });
+
+  it('upgrades a version 2 database with every migration applied', async () => {
+    await createBaselineDatabase([
+      {
+        id: 'note-1',
+        title: 'Release plan',
+        content: 'Ship the migration fix',
+        createdAt: '2024-01-02T03:04',
+        updatedAt: '2024-01-02T05:06',
+        attachments: [
+          { id: 1, type: 'screenshot', screenshotData: SCREENSHOT, createdAt: '2024-01-02T03:04' },
+          { id: 2, type: 'url', url: 'https://example.com', screenshotData: SCREENSHOT, createdAt: '2024-01-02T03:04' }
+        ]
+      },
+      {
+        id: 'note-2',
+        title: 'No attachments',
+        content: '',
+        createdAt: '2024-01-03T00:00',
+        updatedAt: '2024-01-03T00:00'
+      }
+    ]);
+
+    db = await upgradeDatabase();
+    expect(db.version).toBe(DB_VERSION);
+
+    const notes = await getAll(db, STORE_NAME);
+    const first = notes.find(note => note.id === 'note-1');
+    const second = notes.find(note => note.id === 'note-2');
+
+    // Every migration's change to the same record survives the later ones
+    expect(first.tags).toEqual([]);
+    expect(second.tags).toEqual([]);
+    expect(first.createdAt).toBe('2024-01-02T03:04:00');
+    expect(first.updatedAt).toBe('2024-01-02T05:06:00');
+    expect(second.updatedAt).toBe('2024-01-03T00:00:00');
+    expect(first.syncStatus).toBe('pending');
+    expect(second.syncStatus).toBe('pending');
+
+    // Image data is moved out of the note, not copied
+    first.attachments.forEach((attachment: Record<string, unknown>) => {
+      expect(attachment).not.toHaveProperty('screenshotData');
+    });
+    const attachmentData = await getAll(db, ATTACHMENT_STORE_NAME);
+    expect(attachmentData.map(record => record.id).sort()).toEqual([1, 2]);
+    attachmentData.forEach(record => expect(record.noteId).toBe('note-1'));
+
+    const postings = await getAll(db, SEARCH_STORE_NAME);
+    expect(postings.some(posting => posting.token === 'release' && posting.noteId === 'note-1')).toBe(true);
+
+    // Both notes and the moved images are queued for their first upload
+    const queue = await getAll(db, SYNC_QUEUE_STORE_NAME);
+    expect(queue.map(entry => entry.key).sort()).toEqual([
+      'attachment:1',
+      'attachment:2',
+      'note:note-1',
+      'note:note-2'
+    ]);
+  });
+
+  it('creates an empty database at the current version', async () => {
+    db = await upgradeDatabase();
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames)).toEqual(expect.arrayContaining([
+      STORE_NAME,
+      SEARCH_STORE_NAME,
+      ATTACHMENT_STORE_NAME,
+      SYNC_QUEUE_STORE_NAME
+    ]));
+    expect(await getAll(db, SYNC_QUEUE_STORE_NAME)).toEqual([]);
+  });
+});
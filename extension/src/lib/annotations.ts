@@ -0,0 +1,266 @@
+/**
+ * Screenshot annotations
+ * Annotations are kept as layers over the unannotated image, in image
+ * pixels, so they can be edited again after the screenshot is saved. The
+ * attachment's screenshotData is the flattened result.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RedactionStyle = 'blur' | 'pixelate';
+
+export type AnnotationLayer =
+  | { id: string; kind: 'arrow'; from: Point; to: Point; color: string; lineWidth: number }
+  | { id: string; kind: 'rectangle'; rect: Rect; color: string; lineWidth: number }
+  | { id: string; kind: 'freehand'; points: Point[]; color: string; lineWidth: number }
+  | { id: string; kind: 'text'; at: Point; text: string; color: string; fontSize: number }
+  // Callouts are numbered in the order they appear in the layers
+  | { id: string; kind: 'callout'; at: Point; color: string; radius: number }
+  | { id: string; kind: 'redaction'; rect: Rect; style: RedactionStyle };
+
+export interface AnnotationDocument {
+  layers: AnnotationLayer[];
+  crop?: Rect;
+}
+
+export const ANNOTATION_COLORS = ['#e53935', '#fb8c00', '#fdd835', '#43a047', '#4285f4', '#212121', '#ffffff'];
+
+// Strong enough that redacted text can't be read back
+const BLUR_RADIUS = 12;
+const PIXEL_SIZE = 14;
+const TEXT_OUTLINE = 'rgba(255, 255, 255, 0.85)';
+
+// Sizes that stay readable whatever the screenshot's resolution
+export const defaultSizes = (imageWidth: number) => {
+  const lineWidth = Math.max(3, Math.round(imageWidth / 400));
+  return { lineWidth, fontSize: lineWidth * 7, radius: lineWidth * 5 };
+};
+
+export const normalizeRect = (from: Point, to: Point): Rect => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y)
+});
+
+export const calloutNumber = (layers: AnnotationLayer[], id: string): number =>
+  layers.filter(layer => layer.kind === 'callout').findIndex(layer => layer.id === id) + 1;
+
+const textFont = (fontSize: number) => `bold ${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, lineWidth: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = lineWidth * 4;
+
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  // Stop the shaft short so its end doesn't poke through the head
+  ctx.lineTo(to.x - Math.cos(angle) * headLength * 0.8, to.y - Math.sin(angle) * headLength * 0.8);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 7), to.y - headLength * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 7), to.y - headLength * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+}
+
+// Redactions resample whatever is already drawn, so they also hide the layers below them
+function drawRedaction(ctx: CanvasRenderingContext2D, rect: Rect, style: RedactionStyle) {
+  const x = Math.round(rect.x);
+  const y = Math.round(rect.y);
+  const width = Math.round(rect.width);
+  const height = Math.round(rect.height);
+  if (width < 1 || height < 1) return;
+
+  // Blurring takes in the surroundings too, so the edges come out as blurred as the middle
+  const padding = style === 'blur' ? BLUR_RADIUS * 2 : 0;
+  const source = document.createElement('canvas');
+  source.width = width + padding * 2;
+  source.height = height + padding * 2;
+  source.getContext('2d')!.drawImage(ctx.canvas, -(x - padding), -(y - padding));
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  if (style === 'blur') {
+    // An opaque base, so nothing shows through where the blur fades out at the image edges
+    const average = document.createElement('canvas');
+    average.width = average.height = 1;
+    average.getContext('2d')!.drawImage(source, padding, padding, width, height, 0, 0, 1, 1);
+    ctx.drawImage(average, x, y, width, height);
+    ctx.filter = `blur(${BLUR_RADIUS}px)`;
+    ctx.drawImage(source, x - padding, y - padding);
+  } else {
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.ceil(width / PIXEL_SIZE));
+    small.height = Math.max(1, Math.ceil(height / PIXEL_SIZE));
+    small.getContext('2d')!.drawImage(source, 0, 0, width, height, 0, 0, small.width, small.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(small, x, y, small.width * PIXEL_SIZE, small.height * PIXEL_SIZE);
+  }
+  ctx.restore();
+}
+
+export function drawLayer(ctx: CanvasRenderingContext2D, layer: AnnotationLayer, layers: AnnotationLayer[]) {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (layer.kind) {
+    case 'arrow':
+      ctx.strokeStyle = ctx.fillStyle = layer.color;
+      ctx.lineWidth = layer.lineWidth;
+      drawArrow(ctx, layer.from, layer.to, layer.lineWidth);
+      break;
+    case 'rectangle':
+      ctx.strokeStyle = layer.color;
+      ctx.lineWidth = layer.lineWidth;
+      ctx.strokeRect(layer.rect.x, layer.rect.y, layer.rect.width, layer.rect.height);
+      break;
+    case 'freehand':
+      ctx.strokeStyle = layer.color;
+      ctx.lineWidth = layer.lineWidth;
+      ctx.beginPath();
+      layer.points.forEach((point, index) => index ? ctx.lineTo(point.x, point.y) : ctx.moveTo(point.x, point.y));
+      ctx.stroke();
+      break;
+    case 'text':
+      ctx.font = textFont(layer.fontSize);
+      ctx.textBaseline = 'top';
+      ctx.lineWidth = Math.max(2, layer.fontSize / 6);
+      ctx.strokeStyle = TEXT_OUTLINE;
+      layer.text.split('\n').forEach((line, index) => {
+        const y = layer.at.y + index * layer.fontSize * 1.2;
+        ctx.strokeText(line, layer.at.x, y);
+        ctx.fillStyle = layer.color;
+        ctx.fillText(line, layer.at.x, y);
+      });
+      break;
+    case 'callout':
+      ctx.fillStyle = layer.color;
+      ctx.beginPath();
+      ctx.arc(layer.at.x, layer.at.y, layer.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.lineWidth = Math.max(2, layer.radius / 6);
+      ctx.strokeStyle = TEXT_OUTLINE;
+      ctx.stroke();
+      ctx.fillStyle = layer.color === '#ffffff' ? '#212121' : '#ffffff';
+      ctx.font = textFont(layer.radius * 1.1);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(calloutNumber(layers, layer.id)), layer.at.x, layer.at.y + layer.radius * 0.05);
+      break;
+    case 'redaction':
+      drawRedaction(ctx, layer.rect, layer.style);
+      break;
+  }
+  ctx.restore();
+}
+
+/**
+ * Where a layer sits, for picking and moving it in the editor
+ */
+export function layerBounds(ctx: CanvasRenderingContext2D, layer: AnnotationLayer): Rect {
+  switch (layer.kind) {
+    case 'arrow':
+      return normalizeRect(layer.from, layer.to);
+    case 'rectangle':
+    case 'redaction':
+      return layer.rect;
+    case 'freehand': {
+      const xs = layer.points.map(point => point.x);
+      const ys = layer.points.map(point => point.y);
+      return normalizeRect(
+        { x: Math.min(...xs), y: Math.min(...ys) },
+        { x: Math.max(...xs), y: Math.max(...ys) }
+      );
+    }
+    case 'text': {
+      ctx.save();
+      ctx.font = textFont(layer.fontSize);
+      const lines = layer.text.split('\n');
+      const width = Math.max(...lines.map(line => ctx.measureText(line).width));
+      ctx.restore();
+      return { x: layer.at.x, y: layer.at.y, width, height: lines.length * layer.fontSize * 1.2 };
+    }
+    case 'callout':
+      return {
+        x: layer.at.x - layer.radius,
+        y: layer.at.y - layer.radius,
+        width: layer.radius * 2,
+        height: layer.radius * 2
+      };
+  }
+}
+
+// The topmost layer under a point, with some slack for thin lines
+export function hitTest(ctx: CanvasRenderingContext2D, layers: AnnotationLayer[], point: Point, slack: number): AnnotationLayer | null {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const bounds = layerBounds(ctx, layers[i]);
+    if (
+      point.x >= bounds.x - slack && point.x <= bounds.x + bounds.width + slack &&
+      point.y >= bounds.y - slack && point.y <= bounds.y + bounds.height + slack
+    ) {
+      return layers[i];
+    }
+  }
+  return null;
+}
+
+export function moveLayer(layer: AnnotationLayer, dx: number, dy: number): AnnotationLayer {
+  const move = (point: Point): Point => ({ x: point.x + dx, y: point.y + dy });
+  const moveRect = (rect: Rect): Rect => ({ ...rect, x: rect.x + dx, y: rect.y + dy });
+
+  switch (layer.kind) {
+    case 'arrow':
+      return { ...layer, from: move(layer.from), to: move(layer.to) };
+    case 'rectangle':
+    case 'redaction':
+      return { ...layer, rect: moveRect(layer.rect) };
+    case 'freehand':
+      return { ...layer, points: layer.points.map(move) };
+    case 'text':
+    case 'callout':
+      return { ...layer, at: move(layer.at) };
+  }
+}
+
+/**
+ * Flatten the layers onto the image and apply the crop
+ */
+export function renderAnnotatedImage(image: HTMLImageElement, annotations: AnnotationDocument): HTMLCanvasElement {
+  const full = document.createElement('canvas');
+  full.width = image.naturalWidth;
+  full.height = image.naturalHeight;
+  const ctx = full.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  annotations.layers.forEach(layer => drawLayer(ctx, layer, annotations.layers));
+
+  const { crop } = annotations;
+  if (!crop) return full;
+
+  const cropped = document.createElement('canvas');
+  cropped.width = Math.max(1, Math.round(crop.width));
+  cropped.height = Math.max(1, Math.round(crop.height));
+  cropped.getContext('2d')!.drawImage(
+    full,
+    Math.round(crop.x), Math.round(crop.y), cropped.width, cropped.height,
+    0, 0, cropped.width, cropped.height
+  );
+  full.width = 0;
+  full.height = 0;
+  return cropped;
+}
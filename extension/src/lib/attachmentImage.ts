@@ -0,0 +1,21 @@
+import { Attachment } from './Attachment';
+import { DBProxy as NotesDB } from './DBProxy';
+import { TabCacheManager } from './TabCacheManager';
+
+/**
+ * Load the full image of a screenshot when it's needed
+ * Tabs only hold thumbnails until then. Pending screenshots keep their image
+ * with the tab cache; saved ones have it in the database.
+ */
+export async function loadAttachmentImage(attachment: Attachment): Promise<string | null> {
+  if (attachment.screenshotData) {
+    return attachment.screenshotData;
+  }
+
+  const cached = await TabCacheManager.loadAttachment(attachment.id);
+  if (cached?.screenshotData) {
+    return cached.screenshotData;
+  }
+
+  return NotesDB.getAttachmentData(attachment.id);
+}
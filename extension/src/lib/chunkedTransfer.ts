@@ -0,0 +1,352 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Chunked transfer of large messages over runtime ports
+ *
+ * A single runtime message has to be serialized, sent and parsed in one go,
+ * which stalls the page for large screenshots and fails outright near the
+ * message size limit. Here the request is sent as numbered, checksummed
+ * chunks over a port, a few at a time, and the response comes back the same
+ * way. Either side can cancel, and each side reports progress as chunks are
+ * acknowledged or received.
+ *
+ * Small requests can still get large answers, such as a backup or a full
+ * screenshot. Requests sent with sendRuntimeMessage are marked so the
+ * background script holds on to an answer over the threshold and replies
+ * with a ticket instead, which the caller redeems over a port. Plain
+ * chrome.runtime.sendMessage callers always get the answer itself.
+ */
+
+export const TRANSFER_PORT_NAME = 'chunked-transfer';
+
+// Messages below this many characters go as a single runtime message
+export const TRANSFER_THRESHOLD = 1024 * 1024;
+
+const CHUNK_SIZE = 256 * 1024;
+const MAX_CHUNKS_IN_FLIGHT = 4;
+
+// How long the background script keeps a large answer for its caller to collect
+const HELD_RESPONSE_TTL = 60 * 1000;
+
+// Sent in place of an answer too large for a single runtime message
+interface HeldResponseTicket {
+  heldResponseId: string;
+}
+
+// Sent over a transfer port to collect a held answer
+const COLLECT_RESPONSE = 'COLLECT_HELD_RESPONSE';
+
+// Wraps a runtime message whose sender can redeem a ticket for the answer
+const HOLDABLE_REQUEST = 'HOLDABLE_REQUEST';
+
+interface HoldableRequest {
+  type: typeof HOLDABLE_REQUEST;
+  message: unknown;
+}
+
+const heldResponses = new Map<string, string>();
+
+const isHeldResponseTicket = (value: unknown): value is HeldResponseTicket =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as HeldResponseTicket).heldResponseId === 'string';
+
+const isHoldableRequest = (value: unknown): value is HoldableRequest =>
+  typeof value === 'object' && value !== null && (value as HoldableRequest).type === HOLDABLE_REQUEST;
+
+// Keep an answer for collection and hand back its ticket
+function holdResponse(text: string): HeldResponseTicket {
+  const heldResponseId = uuidv4();
+  heldResponses.set(heldResponseId, text);
+  setTimeout(() => heldResponses.delete(heldResponseId), HELD_RESPONSE_TTL);
+  return { heldResponseId };
+}
+
+type Frame =
+  | { kind: 'start'; length: number; chunks: number }
+  | { kind: 'chunk'; seq: number; data: string; checksum: string }
+  | { kind: 'ack'; seq: number }
+  | { kind: 'cancel'; reason: string }
+  | { kind: 'error'; message: string };
+
+export interface TransferProgress {
+  direction: 'send' | 'receive';
+  loaded: number; // Characters sent and acknowledged, or received
+  total: number;
+}
+
+export interface TransferOptions {
+  onProgress?: (progress: TransferProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class TransferError extends Error {
+  constructor(message: string, public readonly cancelled = false) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+// FNV-1a over UTF-16 code units; catches chunks mangled or cut short in transit
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * One side of a port carrying a transfer
+ * Frames are read in order; a cancel, an error from the other side or a
+ * disconnect fails whatever read is pending.
+ */
+class TransferChannel {
+  private inbox: Frame[] = [];
+  private wake: (() => void) | null = null;
+  private failure: TransferError | null = null;
+
+  constructor(private port: chrome.runtime.Port) {
+    port.onMessage.addListener((frame: Frame) => {
+      if (frame.kind === 'cancel') {
+        this.fail(new TransferError(frame.reason, true));
+      } else if (frame.kind === 'error') {
+        this.fail(new TransferError(frame.message));
+      } else {
+        this.inbox.push(frame);
+        this.notify();
+      }
+    });
+    port.onDisconnect.addListener(() => {
+      this.fail(new TransferError('The transfer was interrupted'));
+    });
+  }
+
+  async send(text: string, onProgress?: TransferOptions['onProgress']): Promise<void> {
+    const chunks = Math.max(1, Math.ceil(text.length / CHUNK_SIZE));
+    this.post({ kind: 'start', length: text.length, chunks });
+
+    let acknowledged = 0;
+    for (let seq = 0; seq < chunks; seq++) {
+      while (seq - acknowledged >= MAX_CHUNKS_IN_FLIGHT) {
+        acknowledged = await this.readAck(acknowledged, text.length, onProgress);
+      }
+      const data = text.slice(seq * CHUNK_SIZE, (seq + 1) * CHUNK_SIZE);
+      this.post({ kind: 'chunk', seq, data, checksum: checksum(data) });
+    }
+    while (acknowledged < chunks) {
+      acknowledged = await this.readAck(acknowledged, text.length, onProgress);
+    }
+  }
+
+  async receive(onProgress?: TransferOptions['onProgress']): Promise<string> {
+    const start = await this.read();
+    if (start.kind !== 'start') {
+      throw this.reject(`Expected the start of a transfer, got ${start.kind}`);
+    }
+
+    const parts: string[] = [];
+    let loaded = 0;
+    while (parts.length < start.chunks) {
+      const frame = await this.read();
+      if (frame.kind !== 'chunk' || frame.seq !== parts.length) {
+        throw this.reject(`Expected chunk ${parts.length} of ${start.chunks}`);
+      }
+      if (checksum(frame.data) !== frame.checksum) {
+        throw this.reject(`Chunk ${frame.seq} failed its checksum`);
+      }
+      parts.push(frame.data);
+      loaded += frame.data.length;
+      this.post({ kind: 'ack', seq: frame.seq });
+      onProgress?.({ direction: 'receive', loaded, total: start.length });
+    }
+
+    if (loaded !== start.length) {
+      throw this.reject(`Received ${loaded} of ${start.length} characters`);
+    }
+    return parts.join('');
+  }
+
+  // Stop the transfer on both ends
+  cancel(reason: string): void {
+    this.post({ kind: 'cancel', reason });
+    this.fail(new TransferError(reason, true));
+  }
+
+  // Report a failure on this end to the other one
+  abort(error: unknown): void {
+    if (!this.failure) {
+      this.post({ kind: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    this.close();
+  }
+
+  close(): void {
+    this.fail(new TransferError('The transfer is closed'));
+    try {
+      this.port.disconnect();
+    } catch {
+      // Already disconnected
+    }
+  }
+
+  private async readAck(
+    acknowledged: number,
+    total: number,
+    onProgress?: TransferOptions['onProgress']
+  ): Promise<number> {
+    const frame = await this.read();
+    if (frame.kind !== 'ack' || frame.seq !== acknowledged) {
+      throw this.reject(`Expected an acknowledgement of chunk ${acknowledged}`);
+    }
+    onProgress?.({ direction: 'send', loaded: Math.min((frame.seq + 1) * CHUNK_SIZE, total), total });
+    return acknowledged + 1;
+  }
+
+  private async read(): Promise<Frame> {
+    while (!this.inbox.length) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>(resolve => { this.wake = resolve; });
+    }
+    return this.inbox.shift()!;
+  }
+
+  private reject(message: string): TransferError {
+    const error = new TransferError(message);
+    this.post({ kind: 'error', message });
+    this.fail(error);
+    return error;
+  }
+
+  private post(frame: Frame): void {
+    if (this.failure) return;
+    try {
+      this.port.postMessage(frame);
+    } catch {
+      this.fail(new TransferError('The transfer was interrupted'));
+    }
+  }
+
+  private fail(error: TransferError): void {
+    if (!this.failure) {
+      this.failure = error;
+    }
+    this.inbox = [];
+    this.notify();
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
+
+async function transferText(text: string, options: TransferOptions): Promise<any> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    throw new TransferError('The transfer was cancelled', true);
+  }
+
+  const channel = new TransferChannel(chrome.runtime.connect({ name: TRANSFER_PORT_NAME }));
+  const handleAbort = () => channel.cancel('The transfer was cancelled');
+  signal?.addEventListener('abort', handleAbort);
+  try {
+    await channel.send(text, onProgress);
+    // The background script closes the port once the last chunk is acknowledged
+    return JSON.parse(await channel.receive(onProgress));
+  } catch (error) {
+    channel.abort(error);
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+  }
+}
+
+/**
+ * Send a message to the background script over a transfer port
+ * For requests whose response may be large, such as screenshot captures.
+ * Resolves with whatever the background script answers, like sendMessage.
+ */
+export async function transferMessage<T = any>(message: unknown, options: TransferOptions = {}): Promise<T> {
+  return transferText(JSON.stringify(message), options);
+}
+
+/**
+ * Send a message to the background script, in chunks when it's large
+ * A drop-in for chrome.runtime.sendMessage. A large answer to a small
+ * message is collected in chunks as well.
+ */
+export async function sendRuntimeMessage<T = any>(message: unknown, options: TransferOptions = {}): Promise<T> {
+  const text = JSON.stringify(message);
+  if (text.length >= TRANSFER_THRESHOLD) {
+    return transferText(text, options);
+  }
+
+  const request: HoldableRequest = { type: HOLDABLE_REQUEST, message };
+  const response = await chrome.runtime.sendMessage(request);
+  if (isHeldResponseTicket(response)) {
+    return transferMessage({ type: COLLECT_RESPONSE, heldResponseId: response.heldResponseId }, options);
+  }
+  return response;
+}
+
+/**
+ * Wrap a background onMessage listener so answers too large for a single
+ * runtime message are held and collected in chunks by sendRuntimeMessage
+ * The listener gets the message as it was sent either way; only answers
+ * to sendRuntimeMessage are ever held.
+ */
+export function holdLargeResponses(
+  listener: (message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => boolean | void
+): (message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => boolean | void {
+  return (message, sender, sendResponse) => {
+    if (!isHoldableRequest(message)) {
+      return listener(message, sender, sendResponse);
+    }
+    return listener(message.message, sender, response => {
+      const text = JSON.stringify(response ?? null);
+      sendResponse(text.length < TRANSFER_THRESHOLD ? response : holdResponse(text));
+    });
+  };
+}
+
+/**
+ * Answer transferred messages in the background script
+ * The handler gets each reassembled message and its answer is sent back in
+ * chunks. A cancelled transfer drops the answer.
+ */
+export function listenForTransfers(
+  handler: (message: any, sender: chrome.runtime.MessageSender) => Promise<unknown>
+): void {
+  chrome.runtime.onConnect.addListener(port => {
+    if (port.name !== TRANSFER_PORT_NAME) return;
+
+    const channel = new TransferChannel(port);
+    (async () => {
+      try {
+        const message = JSON.parse(await channel.receive());
+        const text = message?.type === COLLECT_RESPONSE
+          ? collectResponse(message.heldResponseId)
+          : JSON.stringify((await handler(message, port.sender ?? {})) ?? null);
+        await channel.send(text);
+        channel.close();
+      } catch (error) {
+        if (!(error instanceof TransferError && error.cancelled)) {
+          console.error('Chunked transfer failed:', error);
+        }
+        channel.abort(error);
+      }
+    })();
+  });
+}
+
+// Each held answer can be collected once
+function collectResponse(heldResponseId: unknown): string {
+  const text = typeof heldResponseId === 'string' ? heldResponses.get(heldResponseId) : undefined;
+  if (text === undefined) {
+    throw new TransferError('The response is no longer available');
+  }
+  heldResponses.delete(heldResponseId as string);
+  return text;
+}
@@ -0,0 +1,189 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, ClipSource, blobToDataUrl } from './Attachment';
+import { ClipRequest } from './clips';
+import { Tab, TabCache, TabCacheManager } from './TabCacheManager';
+import { processImage } from './imageProcessor';
+import { sanitizeImportedHtml } from './noteImport';
+import { escapeHtml } from './noteExport';
+
+/**
+ * Page side of context menu clipping
+ * Turns a clip request into content for a panel tab and delivers it: to the
+ * panel when it's mounted on this page, or straight into the tab cache, where
+ * the panel picks it up when it opens.
+ */
+
+export type Clip =
+  | { kind: 'text'; tabId: string | null; html: string }
+  | { kind: 'attachment'; tabId: string | null; attachment: Attachment }
+  | { kind: 'note'; title: string; html: string };
+
+const NEW_NOTE_TITLE_LENGTH = 60;
+
+const textToHtml = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split('\n')
+    .map(line => line ? `<div>${escapeHtml(line)}</div>` : '<div><br></div>')
+    .join('');
+
+// The selection with its formatting, or the plain text when it's in a frame we can't read
+function selectionToHtml(fallbackText = ''): string {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || !selection.toString().trim()) {
+    return textToHtml(fallbackText);
+  }
+
+  const container = document.createElement('div');
+  for (let i = 0; i < selection.rangeCount; i++) {
+    container.appendChild(selection.getRangeAt(i).cloneContents());
+  }
+  // Links and images would otherwise resolve against the extension, not the page
+  container.querySelectorAll<HTMLAnchorElement>('a[href]').forEach(anchor => {
+    anchor.setAttribute('href', new URL(anchor.getAttribute('href')!, document.baseURI).href);
+  });
+  container.querySelectorAll<HTMLImageElement>('img[src]').forEach(image => {
+    image.setAttribute('src', new URL(image.getAttribute('src')!, document.baseURI).href);
+  });
+  return sanitizeImportedHtml(container);
+}
+
+const sourceToHtml = (source: ClipSource): string =>
+  `<div>Source: <a href="${escapeHtml(source.url)}">${escapeHtml(source.title || source.url)}</a></div>`;
+
+function urlAttachment(url: string, source: ClipSource): Attachment {
+  return {
+    type: 'url',
+    id: Date.now(),
+    url,
+    createdAt: new Date().toISOString(),
+    syncStatus: 'pending',
+    source
+  };
+}
+
+async function imageAttachment(srcUrl: string, source: ClipSource): Promise<Attachment> {
+  let imageData: string;
+  try {
+    const response = await fetch(srcUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    imageData = await blobToDataUrl(await response.blob());
+  } catch (error) {
+    // Images served without CORS headers can't be read; keep a link to them instead
+    console.warn('Failed to read the image, attaching its URL instead:', error);
+    return urlAttachment(srcUrl, source);
+  }
+
+  const processedImage = await processImage(imageData, { format: 'webp', quality: 85, progressive: true });
+  return {
+    type: 'screenshot',
+    id: Date.now(),
+    screenshotData: processedImage.dataUrl,
+    thumbnailData: processedImage.thumbnailUrl,
+    createdAt: new Date().toISOString(),
+    syncStatus: 'pending',
+    source,
+    metadata: {
+      format: processedImage.format,
+      originalSize: processedImage.originalSize,
+      processedSize: processedImage.processedSize,
+      compressionRatio: processedImage.compressionRatio,
+      isLazyLoaded: true
+    }
+  };
+}
+
+/**
+ * Capture what a context menu entry asked for
+ * Has to run before the page selection changes.
+ */
+export async function captureClip(request: ClipRequest): Promise<Clip> {
+  const { kind, targetTabId, source } = request;
+
+  switch (kind) {
+    case 'selection':
+      return {
+        kind: 'text',
+        tabId: targetTabId,
+        html: selectionToHtml(request.selectionText) + sourceToHtml(source)
+      };
+    case 'new-note': {
+      const firstLine = (request.selectionText || '').trim().split('\n')[0];
+      return {
+        kind: 'note',
+        title: firstLine.slice(0, NEW_NOTE_TITLE_LENGTH) || source.title,
+        html: selectionToHtml(request.selectionText) + sourceToHtml(source)
+      };
+    }
+    case 'link':
+      if (!request.linkUrl) throw new Error('No link to clip');
+      return { kind: 'attachment', tabId: targetTabId, attachment: urlAttachment(request.linkUrl, source) };
+    case 'image':
+      if (!request.srcUrl) throw new Error('No image to clip');
+      return { kind: 'attachment', tabId: targetTabId, attachment: await imageAttachment(request.srcUrl, source) };
+  }
+}
+
+const newCacheTab = (title = '', content = ''): Tab => ({
+  id: `new-${uuidv4()}`,
+  title,
+  content,
+  isNew: true,
+  syncStatus: 'pending',
+  lastEdited: new Date().toISOString()
+});
+
+// Apply a clip to the stored tabs, for when no panel is mounted on this page
+async function writeClipToCache(clip: Clip): Promise<void> {
+  let cache: TabCache = await TabCacheManager.initCache() ||
+    { tabs: [], activeTabId: '', lastUpdated: new Date().toISOString() };
+
+  let tab = clip.kind === 'note'
+    ? undefined
+    : cache.tabs.find(t => t.id === clip.tabId) || cache.tabs.find(t => t.id === cache.activeTabId);
+  if (!tab) {
+    // A new note, or nothing stored yet to add to
+    tab = newCacheTab(clip.kind === 'note' ? clip.title : '', clip.kind === 'attachment' ? '' : clip.html);
+    cache = await TabCacheManager.updateTab(cache, tab);
+  } else if (clip.kind === 'text') {
+    cache = await TabCacheManager.updateTab(cache, {
+      ...tab,
+      content: tab.content + clip.html,
+      syncStatus: 'pending',
+      lastEdited: new Date().toISOString()
+    });
+  }
+
+  if (clip.kind === 'attachment') {
+    cache = await TabCacheManager.addAttachmentToTab(cache, tab.id, clip.attachment);
+  }
+
+  // Open the panel on the tab that got the clip
+  await TabCacheManager.saveCache({ ...cache, activeTabId: tab.id });
+}
+
+let clipHandler: ((clip: Clip) => Promise<void>) | null = null;
+
+/**
+ * Take clips in the panel while it's mounted
+ * Returns an unsubscribe function.
+ */
+export function onClip(handler: (clip: Clip) => Promise<void>): () => void {
+  clipHandler = handler;
+  return () => {
+    if (clipHandler === handler) {
+      clipHandler = null;
+    }
+  };
+}
+
+export async function deliverClip(clip: Clip): Promise<void> {
+  if (clipHandler) {
+    await clipHandler(clip);
+  } else {
+    await writeClipToCache(clip);
+  }
+}
@@ -0,0 +1,36 @@
+import { ClipSource } from './Attachment';
+
+/**
+ * Clipping page content into notes from the context menu
+ *
+ * The background script owns the menu entries and picks the panel tab a clip
+ * belongs to; the page's content script captures the content, since it can
+ * read the selection and process images, and hands it to the panel.
+ */
+
+export type ClipKind = 'selection' | 'link' | 'image' | 'new-note';
+
+export const CLIP_MENU_ITEMS: Record<ClipKind, { title: string; contexts: chrome.contextMenus.ContextType[] }> = {
+  'selection': { title: 'Add selection to note', contexts: ['selection'] },
+  'link': { title: 'Attach link to note', contexts: ['link'] },
+  'image': { title: 'Attach image to note', contexts: ['image'] },
+  'new-note': { title: 'New note from selection', contexts: ['selection'] }
+};
+
+const MENU_ID_PREFIX = 'clip-';
+
+export const clipMenuId = (kind: ClipKind): string => `${MENU_ID_PREFIX}${kind}`;
+
+export function clipKindForMenuId(menuItemId: string | number): ClipKind | null {
+  const kind = String(menuItemId).slice(MENU_ID_PREFIX.length);
+  return String(menuItemId).startsWith(MENU_ID_PREFIX) && kind in CLIP_MENU_ITEMS ? kind as ClipKind : null;
+}
+
+export interface ClipRequest {
+  kind: ClipKind;
+  targetTabId: string | null; // Panel tab picked for the page; null for a new note
+  source: ClipSource;
+  selectionText?: string; // Plain text, for selections the content script can't read
+  linkUrl?: string;
+  srcUrl?: string;
+}
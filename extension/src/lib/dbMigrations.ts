@@ -0,0 +1,282 @@
+import { buildPostings } from './searchIndex';
+import { AttachmentData, dataUrlToBlob } from './Attachment';
+
+/**
+ * IndexedDB schema migrations for NotesDB
+ *
+ * Each migration runs once, inside the versionchange transaction opened by
+ * onupgradeneeded, for every database whose version is below its own. They
+ * run in order, and a migration only starts once the records written by the
+ * one before it are in place, so it can rely on both the schema and the data
+ * left by earlier migrations. If any step fails the whole upgrade
+ * transaction is aborted and the database stays at its previous version.
+ */
+
+export const DB_NAME = 'notesDB';
+export const STORE_NAME = 'notes';
+export const SEARCH_STORE_NAME = 'searchIndex';
+export const NOTEBOOK_STORE_NAME = 'notebooks';
+export const REVISION_STORE_NAME = 'revisions';
+export const ATTACHMENT_STORE_NAME = 'attachmentData';
+export const SYNC_QUEUE_STORE_NAME = 'syncQueue';
+export const CONFLICT_STORE_NAME = 'conflicts';
+
+export interface DBMigration {
+  version: number;
+  description: string;
+  // Resolves once every record the migration rewrites has been written
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void | Promise<void>;
+}
+
+export class DBMigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    public readonly description: string,
+    public readonly cause: unknown
+  ) {
+    const reason = cause instanceof Error || cause instanceof DOMException ? cause.message : String(cause);
+    super(`Database migration ${version} (${description}) failed: ${reason}`);
+    this.name = 'DBMigrationError';
+  }
+}
+
+/**
+ * Rewrite every record of a store inside the upgrade transaction.
+ * transform returns the updated record, or undefined to leave it as is.
+ * Resolves when the cursor has been through the whole store. Requests in a
+ * transaction run in the order they were made, so anything opened after
+ * that sees the rewritten records.
+ */
+function updateRecords<T>(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: T) => T | undefined
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cursorRequest = transaction.objectStore(storeName).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      try {
+        const updated = transform(cursor.value as T);
+        if (updated !== undefined) {
+          cursor.update(updated);
+        }
+        cursor.continue();
+      } catch (error) {
+        // Roll back the whole upgrade rather than leave records half migrated
+        console.error(`Failed to migrate record ${String(cursor.primaryKey)} in ${storeName}:`, error);
+        transaction.abort();
+        reject(error);
+      }
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+// formatTimestamp used to stop at minutes (YYYY-MM-DDTHH:MM)
+const MINUTE_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+const toSecondsPrecision = (timestamp: string | undefined): string | undefined =>
+  timestamp && MINUTE_TIMESTAMP.test(timestamp) ? `${timestamp}:00` : timestamp;
+
+function withSecondsPrecision<T extends Record<string, any>>(record: T, fields: (keyof T)[]): T | undefined {
+  let changed = false;
+  const updated = { ...record };
+  fields.forEach(field => {
+    const value = toSecondsPrecision(record[field]);
+    if (value !== record[field]) {
+      updated[field] = value as T[keyof T];
+      changed = true;
+    }
+  });
+  return changed ? updated : undefined;
+}
+
+/**
+ * Ordered list of migrations. Never edit or reorder a shipped migration;
+ * add a new one with the next version number instead.
+ * Versions start at 2 because the first release opened the database at 2.
+ */
+export const MIGRATIONS: DBMigration[] = [
+  {
+    version: 2,
+    description: 'Create notes store',
+    migrate: (db) => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('updatedAt', 'updatedAt');
+    }
+  },
+  {
+    version: 3,
+    description: 'Create search index',
+    migrate: (db, transaction) => {
+      // One posting per (token, note) pair
+      const searchStore = db.createObjectStore(SEARCH_STORE_NAME, { keyPath: ['token', 'noteId'] });
+      searchStore.createIndex('noteId', 'noteId');
+
+      return updateRecords<{ id: string; title: string; content: string }>(transaction, STORE_NAME, note => {
+        buildPostings(note.id, note.title, note.content).forEach(posting => searchStore.put(posting));
+        return undefined;
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Add tags index',
+    migrate: (_db, transaction) => {
+      transaction.objectStore(STORE_NAME).createIndex('tags', 'tags', { multiEntry: true });
+
+      // Notes created before tags existed get an empty tag list
+      return updateRecords<{ tags?: string[] }>(transaction, STORE_NAME, note =>
+        Array.isArray(note.tags) ? undefined : { ...note, tags: [] }
+      );
+    }
+  },
+  {
+    version: 5,
+    description: 'Create notebooks store',
+    migrate: (db, transaction) => {
+      const notebookStore = db.createObjectStore(NOTEBOOK_STORE_NAME, { keyPath: 'id' });
+      notebookStore.createIndex('parentId', 'parentId');
+      transaction.objectStore(STORE_NAME).createIndex('notebookId', 'notebookId');
+    }
+  },
+  {
+    version: 6,
+    description: 'Add trash index',
+    migrate: (_db, transaction) => {
+      // Only trashed notes have deletedAt, so this index holds just the trash
+      transaction.objectStore(STORE_NAME).createIndex('deletedAt', 'deletedAt');
+    }
+  },
+  {
+    version: 7,
+    description: 'Create revisions store',
+    migrate: (db) => {
+      const revisionStore = db.createObjectStore(REVISION_STORE_NAME, { keyPath: ['noteId', 'version'] });
+      revisionStore.createIndex('noteId', 'noteId');
+    }
+  },
+  {
+    version: 8,
+    description: 'Store timestamps with seconds precision',
+    migrate: async (_db, transaction) => {
+      await Promise.all([
+        updateRecords<Record<string, any>>(transaction, STORE_NAME, note =>
+          withSecondsPrecision(note, ['createdAt', 'updatedAt'])
+        ),
+        updateRecords<Record<string, any>>(transaction, NOTEBOOK_STORE_NAME, notebook =>
+          withSecondsPrecision(notebook, ['createdAt', 'updatedAt'])
+        ),
+        updateRecords<Record<string, any>>(transaction, REVISION_STORE_NAME, revision =>
+          withSecondsPrecision(revision, ['updatedAt', 'archivedAt'])
+        )
+      ]);
+    }
+  },
+  {
+    version: 9,
+    description: 'Move attachment data into its own store',
+    migrate: (db, transaction) => {
+      const attachmentStore = db.createObjectStore(ATTACHMENT_STORE_NAME, { keyPath: 'id' });
+      attachmentStore.createIndex('noteId', 'noteId');
+
+      // Notes keep the reference and thumbnail, the image becomes a Blob
+      return updateRecords<{ id: string; attachments?: { id: number; screenshotData?: string }[] }>(
+        transaction,
+        STORE_NAME,
+        note => {
+          if (!note.attachments?.some(attachment => attachment.screenshotData)) return undefined;
+
+          const attachments = note.attachments.map(attachment => {
+            if (!attachment.screenshotData) return attachment;
+            const { screenshotData, ...reference } = attachment;
+            const record: AttachmentData = {
+              id: attachment.id,
+              noteId: note.id,
+              data: dataUrlToBlob(screenshotData)
+            };
+            attachmentStore.put(record);
+            return reference;
+          });
+          return { ...note, attachments };
+        }
+      );
+    }
+  },
+  {
+    version: 10,
+    description: 'Add sync queue',
+    migrate: async (db, transaction) => {
+      const queueStore = db.createObjectStore(SYNC_QUEUE_STORE_NAME, { keyPath: 'key' });
+      const queuedAt = new Date().toISOString().slice(0, 19);
+
+      // Everything written before sync existed has to be uploaded once
+      await updateRecords<{ id: string; syncStatus?: string }>(transaction, STORE_NAME, note => {
+        queueStore.put({
+          key: `note:${note.id}`,
+          kind: 'note',
+          recordId: note.id,
+          noteId: note.id,
+          deleted: false,
+          changeId: `migration-${note.id}`,
+          queuedAt
+        });
+        return { ...note, syncStatus: 'pending' };
+      });
+
+      // Includes the images migration 9 just moved out of the notes
+      await updateRecords<AttachmentData>(transaction, ATTACHMENT_STORE_NAME, record => {
+        queueStore.put({
+          key: `attachment:${record.id}`,
+          kind: 'attachment',
+          recordId: String(record.id),
+          noteId: record.noteId,
+          deleted: false,
+          changeId: `migration-${record.id}`,
+          queuedAt
+        });
+        return undefined;
+      });
+    }
+  },
+  {
+    version: 11,
+    description: 'Add conflicts store',
+    migrate: (db) => {
+      db.createObjectStore(CONFLICT_STORE_NAME, { keyPath: 'noteId' });
+    }
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the migrations between oldVersion and newVersion, one after another.
+ * Rejects with DBMigrationError for a migration that fails; callers should
+ * abort the upgrade transaction in that case.
+ *
+ * Only IndexedDB requests may be awaited in between: the upgrade
+ * transaction commits as soon as it has nothing left to do.
+ */
+export async function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = DB_VERSION
+): Promise<void> {
+  const pending = MIGRATIONS.filter(
+    migration => migration.version > oldVersion && migration.version <= newVersion
+  );
+  for (const migration of pending) {
+    try {
+      await migration.migrate(db, transaction);
+    } catch (error) {
+      throw new DBMigrationError(migration.version, migration.description, error);
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { extractPlainText } from './searchIndex';
+
+/**
+ * Diff helpers for the revision history panel
+ *
+ * Text is compared word by word. Spreadsheets are pulled out of the content
+ * and compared cell by cell, so a changed cell shows up in its grid instead
+ * of as a run of words in the text diff.
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export type CellStatus = 'same' | 'changed' | 'added' | 'removed';
+
+export interface CellDiff {
+  oldValue: string;
+  newValue: string;
+  status: CellStatus;
+}
+
+export interface SpreadsheetDiff {
+  status: 'same' | 'changed' | 'added' | 'removed';
+  rows: CellDiff[][];
+}
+
+export interface NoteDiff {
+  title: DiffPart[];
+  content: DiffPart[];
+  spreadsheets: SpreadsheetDiff[];
+}
+
+// Above this many token comparisons, fall back to a plain replace
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split text into words and the whitespace between them, so joining the
+ * tokens back together gives the original text
+ */
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Merge adjacent parts of the same type
+ */
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff based on the longest common subsequence
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const oldTokens = splitWords(oldText);
+  const newTokens = splitWords(newText);
+  const parts: DiffPart[] = [];
+
+  // Strip the common prefix and suffix first; most edits are local
+  let prefix = 0;
+  while (prefix < oldTokens.length && prefix < newTokens.length && oldTokens[prefix] === newTokens[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+
+  pushPart(parts, 'equal', oldTokens.slice(0, prefix).join(''));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', oldMiddle.join(''));
+    pushPart(parts, 'added', newMiddle.join(''));
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const rows = oldMiddle.length;
+    const columns = newMiddle.length;
+    const lengths: Uint32Array[] = [];
+    for (let i = 0; i <= rows; i++) {
+      lengths.push(new Uint32Array(columns + 1));
+    }
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        pushPart(parts, 'equal', oldMiddle[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushPart(parts, 'removed', oldMiddle[i]);
+        i++;
+      } else {
+        pushPart(parts, 'added', newMiddle[j]);
+        j++;
+      }
+    }
+    pushPart(parts, 'removed', oldMiddle.slice(i).join(''));
+    pushPart(parts, 'added', newMiddle.slice(j).join(''));
+  }
+
+  pushPart(parts, 'equal', oldTokens.slice(oldTokens.length - suffix).join(''));
+  return parts;
+}
+
+/**
+ * Split note HTML into plain text (without spreadsheets) and the spreadsheet
+ * grids it contains. Cell values come from data-content when the spreadsheet
+ * was serialized, and from the live cell otherwise.
+ */
+export function splitNoteContent(html: string): { text: string; spreadsheets: string[][][] } {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  const spreadsheets: string[][][] = [];
+
+  doc.querySelectorAll('.ga-spreadsheet-container, [data-spreadsheet="true"]').forEach(container => {
+    // Nested matches (container with data-spreadsheet) are handled once
+    if (!container.isConnected) return;
+
+    const table = container.querySelector('table');
+    const grid: string[][] = [];
+    if (table) {
+      Array.from(table.rows).forEach(row => {
+        grid.push(Array.from(row.cells).map(cell =>
+          extractPlainText(cell.getAttribute('data-content') ?? cell.innerHTML)
+        ));
+      });
+    }
+    spreadsheets.push(grid);
+    container.remove();
+  });
+
+  return { text: extractPlainText(doc.body.innerHTML), spreadsheets };
+}
+
+/**
+ * Compare two spreadsheet grids cell by cell
+ */
+export function diffSpreadsheet(oldGrid: string[][] | undefined, newGrid: string[][] | undefined): SpreadsheetDiff {
+  const oldRows = oldGrid || [];
+  const newRows = newGrid || [];
+  const rowCount = Math.max(oldRows.length, newRows.length);
+  const rows: CellDiff[][] = [];
+  let changed = false;
+
+  for (let r = 0; r < rowCount; r++) {
+    const oldRow = oldRows[r] || [];
+    const newRow = newRows[r] || [];
+    const columnCount = Math.max(oldRow.length, newRow.length);
+    const cells: CellDiff[] = [];
+
+    for (let c = 0; c < columnCount; c++) {
+      const inOld = r < oldRows.length && c < oldRow.length;
+      const inNew = r < newRows.length && c < newRow.length;
+      const oldValue = oldRow[c] ?? '';
+      const newValue = newRow[c] ?? '';
+
+      let status: CellStatus = 'same';
+      if (!inOld) status = 'added';
+      else if (!inNew) status = 'removed';
+      else if (oldValue !== newValue) status = 'changed';
+
+      if (status !== 'same') changed = true;
+      cells.push({ oldValue, newValue, status });
+    }
+    rows.push(cells);
+  }
+
+  let status: SpreadsheetDiff['status'] = changed ? 'changed' : 'same';
+  if (!oldGrid) status = 'added';
+  else if (!newGrid) status = 'removed';
+
+  return { status, rows };
+}
+
+/**
+ * Diff two versions of a note: title, text content and spreadsheets
+ */
+export function diffNotes(
+  oldNote: { title: string; content: string },
+  newNote: { title: string; content: string }
+): NoteDiff {
+  const oldContent = splitNoteContent(oldNote.content);
+  const newContent = splitNoteContent(newNote.content);
+  const sheetCount = Math.max(oldContent.spreadsheets.length, newContent.spreadsheets.length);
+  const spreadsheets: SpreadsheetDiff[] = [];
+
+  // Spreadsheets are matched by position in the note
+  for (let i = 0; i < sheetCount; i++) {
+    spreadsheets.push(diffSpreadsheet(oldContent.spreadsheets[i], newContent.spreadsheets[i]));
+  }
+
+  return {
+    title: diffWords(oldNote.title, newNote.title),
+    content: diffWords(oldContent.text, newContent.text),
+    spreadsheets
+  };
+}
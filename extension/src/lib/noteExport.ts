@@ -0,0 +1,446 @@
+import { Note, Notebook } from './notesDB';
+import { Attachment, dataUrlToBlob } from './Attachment';
+import { createZip, ZipEntry } from './zipWriter';
+
+/**
+ * Export notes as Markdown, standalone HTML or lossless JSON
+ *
+ * A single note with nothing else to bundle is downloaded as one file;
+ * anything more (several notes, or Markdown with screenshots) becomes a ZIP.
+ */
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  json: 'JSON'
+};
+
+// Identifies our JSON documents so the importer can recognize them
+export const JSON_EXPORT_FORMAT = 'ga-notes-export';
+export const JSON_EXPORT_VERSION = 1;
+
+export interface NotesExportDocument {
+  format: typeof JSON_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  notes: Note[]; // Attachments carry their full screenshotData
+  notebooks: Notebook[];
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+}
+
+// Loads the full image data of an attachment (see NotesDB.getAttachmentData)
+export type AttachmentDataLoader = (attachmentId: number) => Promise<string | null>;
+
+const SPREADSHEET_SELECTOR = '.ga-spreadsheet-container, [data-spreadsheet="true"]';
+const SPREADSHEET_CONTROLS_SELECTOR = '.ga-spreadsheet-column-controls, .ga-spreadsheet-row-controls';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  json: 'application/json;charset=utf-8'
+};
+
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_[\]])/g, '\\$1');
+
+const escapeTableCell = (text: string): string =>
+  text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>').trim();
+
+// Cell value of a spreadsheet, from data-content when it was serialized
+const getCellHtml = (cell: HTMLTableCellElement): string =>
+  cell.getAttribute('data-content') ?? cell.innerHTML;
+
+function renderInline(node: Node): string {
+  return Array.from(node.childNodes).map(renderNode).join('');
+}
+
+function wrapInline(marker: string, content: string): string {
+  // Markdown emphasis can't start or end with whitespace
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function renderTable(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const columnCount = Math.max(...rows.map(row => row.length), 1);
+  const padded = rows.map(row => {
+    const cells = row.map(escapeTableCell);
+    while (cells.length < columnCount) cells.push('');
+    return `| ${cells.join(' | ')} |`;
+  });
+  // GFM tables need a header row; the first row plays that part
+  const separator = `| ${Array(columnCount).fill('---').join(' | ')} |`;
+  return `\n\n${[padded[0], separator, ...padded.slice(1)].join('\n')}\n\n`;
+}
+
+function renderList(list: HTMLElement, ordered: boolean): string {
+  const items = Array.from(list.children).filter(child => child.tagName === 'LI');
+  const lines = items.map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '-';
+    const content = renderInline(item).replace(/\n{2,}/g, '\n').trim();
+    // Continuation lines and nested lists line up under the item text
+    const indent = ' '.repeat(marker.length + 1);
+    return `${marker} ${content.split('\n').join(`\n${indent}`)}`;
+  });
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+function renderNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as HTMLElement;
+
+  if (element.matches(SPREADSHEET_SELECTOR)) {
+    const table = element.querySelector('table');
+    if (!table) return '';
+    return renderTable(Array.from(table.rows).map(row =>
+      Array.from(row.cells).map(cell => htmlToMarkdown(getCellHtml(cell)))
+    ));
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const content = () => renderInline(element);
+
+  switch (tag) {
+    case 'script':
+    case 'style':
+      return '';
+    case 'br':
+      return '  \n';
+    case 'strong':
+    case 'b':
+      return wrapInline('**', content());
+    case 'em':
+    case 'i':
+      return wrapInline('*', content());
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrapInline('~~', content());
+    case 'u':
+      // No Markdown syntax for underline; GFM allows inline HTML
+      return `<u>${content()}</u>`;
+    case 'code':
+      return `\`${element.textContent || ''}\``;
+    case 'a': {
+      const href = element.getAttribute('href');
+      return href ? `[${content()}](${href})` : content();
+    }
+    case 'img': {
+      const src = element.getAttribute('src');
+      return src ? `![${escapeMarkdown(element.getAttribute('alt') || '')}](${src})` : '';
+    }
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return `\n\n${'#'.repeat(Number(tag[1]))} ${content().trim()}\n\n`;
+    case 'ul':
+      return renderList(element, false);
+    case 'ol':
+      return renderList(element, true);
+    case 'blockquote':
+      return `\n\n${content().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    case 'pre':
+      return `\n\n\`\`\`\n${element.textContent || ''}\n\`\`\`\n\n`;
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'table':
+      return renderTable(Array.from((element as HTMLTableElement).rows).map(row =>
+        Array.from(row.cells).map(cell => renderInline(cell))
+      ));
+    case 'p':
+    case 'div':
+    case 'section':
+    case 'article':
+      return `\n\n${content()}\n\n`;
+    default:
+      return content();
+  }
+}
+
+/**
+ * Convert editor HTML (formatting, lists, spreadsheets) into GitHub Flavored Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  return renderInline(doc.body)
+    .replace(/[ \t]+\n/g, match => (match.startsWith('  ') ? '  \n' : '\n'))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function noteToMarkdown(note: Note, imagePaths: Map<number, string>): string {
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(note.title)}`,
+    `created: ${note.createdAt}`,
+    `updated: ${note.updatedAt}`,
+    note.tags?.length ? `tags: [${note.tags.map(tag => JSON.stringify(tag)).join(', ')}]` : null,
+    '---'
+  ].filter(Boolean).join('\n');
+
+  // Plain text notes keep their line breaks as they are
+  const body = note.isRichText === false ? escapeMarkdown(note.content) : htmlToMarkdown(note.content);
+  const sections = [frontMatter, `# ${escapeMarkdown(note.title)}`, body];
+
+  const attachments = note.attachments || [];
+  if (attachments.length > 0) {
+    const lines = attachments.map(attachment => {
+      const imagePath = imagePaths.get(attachment.id);
+      const link = attachment.url ? `- <${attachment.url}>` : null;
+      if (imagePath) return [`![Screenshot](${imagePath})`, link].filter(Boolean).join('\n\n');
+      return link;
+    }).filter(Boolean);
+    if (lines.length > 0) {
+      sections.push(`## Attachments\n\n${lines.join('\n\n')}`);
+    }
+  }
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Turn editor HTML into static HTML: drop editing controls and restore
+ * spreadsheet cells from their serialized content
+ */
+function cleanContentHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  doc.querySelectorAll('script, ' + SPREADSHEET_CONTROLS_SELECTOR).forEach(element => element.remove());
+  doc.querySelectorAll(SPREADSHEET_SELECTOR).forEach(container => {
+    container.querySelectorAll('td, th').forEach(cell => {
+      const serialized = cell.getAttribute('data-content');
+      if (serialized !== null) {
+        cell.innerHTML = serialized;
+        cell.removeAttribute('data-content');
+      }
+    });
+  });
+  doc.querySelectorAll('[contenteditable]').forEach(element => element.removeAttribute('contenteditable'));
+  return doc.body.innerHTML;
+}
+
+function noteToHtml(note: Note, imageData: Map<number, string>): string {
+  const attachments = (note.attachments || []).map(attachment => {
+    const data = imageData.get(attachment.id);
+    const image = data ? `<figure><img src="${data}" alt="Screenshot"></figure>` : '';
+    const link = attachment.url
+      ? `<p><a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.url)}</a></p>`
+      : '';
+    return [image, link].filter(Boolean).join('\n');
+  }).filter(Boolean).join('\n');
+
+  const tags = note.tags?.length
+    ? ` · ${note.tags.map(tag => `<span class="note-tag">#${escapeHtml(tag)}</span>`).join(' ')}`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(note.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 800px; margin: 40px auto; padding: 0 16px; line-height: 1.5; }
+  .note-meta { color: #666; font-size: 13px; }
+  table { border-collapse: collapse; margin: 12px 0; }
+  td, th { border: 1px solid #ccc; padding: 4px 8px; }
+  img { max-width: 100%; }
+</style>
+</head>
+<body>
+<article>
+<h1>${escapeHtml(note.title)}</h1>
+<p class="note-meta">Created ${escapeHtml(note.createdAt)} · Updated ${escapeHtml(note.updatedAt)}${tags}</p>
+<div class="note-content">
+${note.isRichText === false ? escapeHtml(note.content).replace(/\n/g, '<br>\n') : cleanContentHtml(note.content)}
+</div>
+${attachments ? `<section class="note-attachments">\n${attachments}\n</section>` : ''}
+</article>
+</body>
+</html>
+`;
+}
+
+// Any attachment can have image data stored, including links saved with a screenshot,
+// so the loader is asked for every one; it returns null when there is none
+async function withAttachmentData(note: Note, loadAttachmentData: AttachmentDataLoader): Promise<Note> {
+  const attachments = await Promise.all((note.attachments || []).map(async (attachment): Promise<Attachment> => {
+    if (attachment.screenshotData) return attachment;
+    const screenshotData = await loadAttachmentData(attachment.id);
+    return screenshotData ? { ...attachment, screenshotData } : attachment;
+  }));
+  return { ...note, attachments };
+}
+
+/**
+ * Build the lossless JSON document for a set of notes
+ * Includes the notebooks the notes live in so the tree can be rebuilt.
+ */
+export async function buildJsonExport(
+  notes: Note[],
+  notebooks: Notebook[],
+  loadAttachmentData: AttachmentDataLoader
+): Promise<NotesExportDocument> {
+  const usedNotebookIds = new Set(notes.map(note => note.notebookId).filter(Boolean));
+  // Keep the ancestors too, otherwise nested notebooks lose their place
+  const notebookById = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+  usedNotebookIds.forEach(id => {
+    let parentId = notebookById.get(id as string)?.parentId;
+    while (parentId && !usedNotebookIds.has(parentId)) {
+      usedNotebookIds.add(parentId);
+      parentId = notebookById.get(parentId)?.parentId;
+    }
+  });
+
+  return {
+    format: JSON_EXPORT_FORMAT,
+    version: JSON_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    notes: await Promise.all(notes.map(note => withAttachmentData(note, loadAttachmentData))),
+    notebooks: notebooks.filter(notebook => usedNotebookIds.has(notebook.id))
+  };
+}
+
+const sanitizeFilename = (title: string): string =>
+  title
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80) || 'Untitled Note';
+
+// Give every note its own file name, even when titles repeat
+function uniqueFilename(base: string, extension: string, used: Set<string>): string {
+  let name = `${base}.${extension}`;
+  for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+    name = `${base} (${counter}).${extension}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+const extensionForDataUrl = (dataUrl: string): string => {
+  const mimeType = dataUrl.match(/^data:image\/([a-z0-9+.-]+)/i)?.[1]?.toLowerCase();
+  if (mimeType === 'jpeg') return 'jpg';
+  if (mimeType === 'svg+xml') return 'svg';
+  return mimeType || 'png';
+};
+
+async function loadImages(notes: Note[], loadAttachmentData: AttachmentDataLoader): Promise<Map<number, string>> {
+  const images = new Map<number, string>();
+  for (const note of notes) {
+    for (const attachment of note.attachments || []) {
+      const data = attachment.screenshotData || await loadAttachmentData(attachment.id);
+      if (data) images.set(attachment.id, data);
+    }
+  }
+  return images;
+}
+
+/**
+ * Export notes in the given format
+ * Returns a single file for one self-contained note, otherwise a ZIP.
+ */
+export async function exportNotes(
+  notes: Note[],
+  format: ExportFormat,
+  notebooks: Notebook[],
+  loadAttachmentData: AttachmentDataLoader
+): Promise<ExportFile> {
+  if (notes.length === 0) {
+    throw new Error('No notes to export');
+  }
+
+  const extension = FILE_EXTENSIONS[format];
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+
+  if (format === 'json') {
+    for (const note of notes) {
+      const exportDocument = await buildJsonExport([note], notebooks, loadAttachmentData);
+      entries.push({
+        name: uniqueFilename(sanitizeFilename(note.title), extension, usedNames),
+        data: JSON.stringify(exportDocument, null, 2),
+        modifiedAt: new Date(note.updatedAt)
+      });
+    }
+  } else if (format === 'html') {
+    const images = await loadImages(notes, loadAttachmentData);
+    notes.forEach(note => {
+      entries.push({
+        name: uniqueFilename(sanitizeFilename(note.title), extension, usedNames),
+        data: noteToHtml(note, images),
+        modifiedAt: new Date(note.updatedAt)
+      });
+    });
+  } else {
+    // Markdown can't embed images, so screenshots go next to the notes
+    const images = await loadImages(notes, loadAttachmentData);
+    const imagePaths = new Map<number, string>();
+    images.forEach((data, attachmentId) => {
+      const path = `attachments/${attachmentId}.${extensionForDataUrl(data)}`;
+      imagePaths.set(attachmentId, path);
+      entries.push({ name: path, data: dataUrlToBlob(data) });
+    });
+    notes.forEach(note => {
+      entries.push({
+        name: uniqueFilename(sanitizeFilename(note.title), extension, usedNames),
+        data: noteToMarkdown(note, imagePaths),
+        modifiedAt: new Date(note.updatedAt)
+      });
+    });
+  }
+
+  if (entries.length === 1) {
+    return {
+      filename: entries[0].name,
+      blob: new Blob([entries[0].data], { type: MIME_TYPES[format] })
+    };
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `notes-export-${date}.zip`,
+    blob: await createZip(entries)
+  };
+}
+
+/**
+ * Start a browser download for an exported file
+ */
+export function downloadExportFile(file: ExportFile): void {
+  const url = URL.createObjectURL(file.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
@@ -0,0 +1,595 @@
+import { DBProxy as NotesDB, Note, Notebook } from './DBProxy';
+import { Attachment, blobToDataUrl } from './Attachment';
+import { SpreadsheetFormatter } from './SpreadsheetFormatter';
+import { JSON_EXPORT_FORMAT, JSON_EXPORT_VERSION, NotesExportDocument, escapeHtml } from './noteExport';
+import { readZip } from './zipReader';
+
+/**
+ * Import notes from Markdown, HTML, plain text and our own JSON export
+ *
+ * JSON notes keep their IDs, so importing the same export twice is detected:
+ * an identical note is skipped, a diverged one is reported as a conflict and
+ * left alone. Other formats always create new notes.
+ */
+
+export const IMPORT_ACCEPT = '.md,.markdown,.html,.htm,.json,.txt,.zip';
+
+export interface ImportReport {
+  created: number;
+  skipped: number; // Already present with the same version
+  conflicts: { id: string; title: string }[]; // Same ID, different content
+  errors: { file: string; message: string }[];
+  notebooksCreated: number;
+}
+
+// A note parsed from a non-JSON file, ready for NotesDB.createNote
+interface ParsedNote {
+  title: string;
+  content: string;
+  tags: string[];
+  attachments: Attachment[];
+}
+
+// Resolves an image path from a Markdown file to a data URL, if we have it
+type ImageResolver = (path: string) => string | undefined;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+const UNSAFE_ELEMENTS = 'script, style, link, meta, iframe, object, embed, noscript, form';
+
+let nextAttachmentId = Date.now();
+const createAttachmentId = () => nextAttachmentId++;
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() || '';
+
+const stripExtension = (name: string): string =>
+  (name.split('/').pop() || name).replace(/\.[^.]+$/, '').trim() || 'Untitled Note';
+
+const escapeAttribute = (text: string): string => escapeHtml(text).replace(/'/g, '&#39;');
+
+const isSafeUrl = (url: string): boolean => !/^\s*(javascript|vbscript):/i.test(url);
+
+function screenshotAttachment(screenshotData: string): Attachment {
+  return {
+    type: 'screenshot',
+    id: createAttachmentId(),
+    screenshotData,
+    screenshotType: 'visible',
+    createdAt: new Date().toISOString(),
+    syncStatus: 'pending'
+  };
+}
+
+function urlAttachment(url: string): Attachment {
+  return {
+    type: 'url',
+    id: createAttachmentId(),
+    url,
+    createdAt: new Date().toISOString(),
+    syncStatus: 'pending'
+  };
+}
+
+function resolvePath(base: string, path: string): string {
+  const parts = base.split('/').slice(0, -1);
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const HORIZONTAL_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+const indentOf = (line: string): number => (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+
+function renderInlineMarkdown(text: string, resolveImage: ImageResolver): string {
+  // Pieces that must not be touched by later rules are held as placeholders
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char) => hold(escapeHtml(char)))
+    .replace(/`([^`]+)`/g, (_, code) => hold(`<code>${escapeHtml(code)}</code>`))
+    .replace(/<(\/?u|br\s*\/?)>/gi, (_, tag) => hold(`<${tag.toLowerCase().replace(/\s*\/$/, '')}>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt, src) => {
+      const resolved = resolveImage(src) || src;
+      return isSafeUrl(resolved)
+        ? hold(`<img src="${escapeAttribute(resolved)}" alt="${escapeAttribute(alt)}">`)
+        : '';
+    })
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, (_, url) =>
+      hold(`<a href="${escapeAttribute(url)}">${escapeHtml(url)}</a>`))
+    // Only the tags are held, so the label can still carry formatting
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label, href) =>
+      isSafeUrl(href) ? `${hold(`<a href="${escapeAttribute(href)}">`)}${label}${hold('</a>')}` : label);
+
+  html = escapeHtml(html)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<b>$2</b>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<i>$1</i>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<i>$2</i>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<strike>$1</strike>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => held[Number(index)]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(^|[^\\])\|$/, '$1')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim());
+}
+
+function renderParagraph(lines: string[], resolveImage: ImageResolver): string {
+  return lines.map((line, index) => {
+    // Two trailing spaces or a backslash mark a hard line break
+    const hardBreak = / {2,}$|\\$/.test(line);
+    const text = renderInlineMarkdown(line.trim().replace(/\\$/, ''), resolveImage);
+    if (index === lines.length - 1) return text;
+    return text + (hardBreak ? '<br>' : ' ');
+  }).join('');
+}
+
+function renderList(lines: string[], start: number, resolveImage: ImageResolver): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: string[] = [];
+  let i = start;
+
+  const isSibling = (line: string | undefined) => {
+    const match = line?.match(LIST_ITEM);
+    return Boolean(match && indentOf(match[1]) === baseIndent && /\d/.test(match[2]) === ordered);
+  };
+
+  while (i < lines.length) {
+    // Blank lines between items keep the list going
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (!isSibling(lines[next])) break;
+    i = next;
+
+    const match = lines[i].match(LIST_ITEM)!;
+    const body: string[] = [];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        // A blank line only continues the item when indented content follows
+        const following = lines[i + 1];
+        if (following !== undefined && following.trim() && indentOf(following) > baseIndent) {
+          body.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) <= baseIndent) break;
+      body.push(line);
+      i++;
+    }
+
+    const minIndent = Math.min(...body.filter(line => line.trim()).map(indentOf));
+    const nested = body.map(line => line.replace(/\t/g, '    ').slice(Math.min(minIndent, indentOf(line))));
+    items.push(
+      `<li>${renderInlineMarkdown(match[3], resolveImage)}` +
+      `${nested.length > 0 ? renderMarkdownBlocks(nested, resolveImage) : ''}</li>`
+    );
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  return { html: `<${tag}>${items.join('')}</${tag}>`, next: i };
+}
+
+function renderMarkdownBlocks(lines: string[], resolveImage: ImageResolver): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) {
+      // The editor keeps each paragraph in its own div
+      html.push(`<div>${renderParagraph(paragraph, resolveImage)}</div>`);
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      html.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInlineMarkdown(heading[2], resolveImage)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (HORIZONTAL_RULE.test(line)) {
+      flush();
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // GFM tables become spreadsheets
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      flush();
+      const rows = [splitTableRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      html.push(SpreadsheetFormatter.createSerializedSpreadsheet(
+        rows.map(row => row.map(cell => renderInlineMarkdown(cell, resolveImage)))
+      ));
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderMarkdownBlocks(quoted, resolveImage)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flush();
+      const list = renderList(lines, i, resolveImage);
+      html.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flush();
+  return html.join('');
+}
+
+/**
+ * Convert GitHub Flavored Markdown into the editor's HTML
+ */
+export function markdownToHtml(markdown: string, resolveImage: ImageResolver = () => undefined): string {
+  return renderMarkdownBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), resolveImage);
+}
+
+function parseFrontMatter(markdown: string): { fields: Record<string, string>; body: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { fields: {}, body: markdown };
+
+  const fields: Record<string, string> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (field) fields[field[1].toLowerCase()] = field[2].trim();
+  });
+  return { fields, body: markdown.slice(match[0].length) };
+}
+
+// Front matter values may be JSON strings/arrays (as we export them) or bare text
+function parseFrontMatterValue(value: string | undefined): string | string[] | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    if (value.startsWith('[') && value.endsWith(']')) {
+      return value.slice(1, -1).split(',').map(item => item.trim()).filter(Boolean);
+    }
+    return value;
+  }
+}
+
+function parseMarkdownNote(markdown: string, filename: string, resolveImage: ImageResolver): ParsedNote {
+  const { fields, body } = parseFrontMatter(markdown);
+  const titleField = parseFrontMatterValue(fields.title);
+  const tagsField = parseFrontMatterValue(fields.tags);
+  let text = body;
+  let title = typeof titleField === 'string' ? titleField : '';
+
+  // A leading H1 is the title, not part of the content
+  const headingMatch = text.match(/^\s*#\s+(.+?)\s*#*\s*(\n|$)/);
+  if (headingMatch && (!title || headingMatch[1].replace(/\\(.)/g, '$1') === title)) {
+    title = title || headingMatch[1].replace(/\\(.)/g, '$1');
+    text = text.slice(headingMatch[0].length);
+  }
+
+  // Our export lists attachments in a trailing section
+  const attachments: Attachment[] = [];
+  const sectionMatch = text.match(/\n## Attachments\s*\n([\s\S]*)$/);
+  if (sectionMatch) {
+    sectionMatch[1].split('\n').forEach(line => {
+      const image = line.match(/^\s*!\[[^\]]*\]\(([^)\s]+)\)\s*$/);
+      const link = line.match(/^\s*-\s+<?((?:https?|file|ftp):[^>\s]+)>?\s*$/);
+      const resolved = image ? resolveImage(image[1]) : undefined;
+      if (resolved) attachments.push(screenshotAttachment(resolved));
+      else if (link) attachments.push(urlAttachment(link[1]));
+    });
+    text = text.slice(0, sectionMatch.index);
+  }
+
+  return {
+    title: title || stripExtension(filename),
+    content: markdownToHtml(text, resolveImage),
+    tags: Array.isArray(tagsField) ? tagsField.map(String) : [],
+    attachments
+  };
+}
+
+/**
+ * Strip anything active from imported HTML and turn tables into spreadsheets
+ * Also used for HTML clipped from pages.
+ */
+export function sanitizeImportedHtml(root: HTMLElement): string {
+  root.querySelectorAll(UNSAFE_ELEMENTS).forEach(element => element.remove());
+  root.querySelectorAll('.ga-spreadsheet-column-controls, .ga-spreadsheet-row-controls')
+    .forEach(element => element.remove());
+  root.querySelectorAll('*').forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on') || name === 'contenteditable' ||
+          ((name === 'href' || name === 'src') && !isSafeUrl(attribute.value))) {
+        element.removeAttribute(attribute.name);
+      }
+    });
+  });
+
+  // Tables (including exported spreadsheets) become serialized spreadsheets
+  Array.from(root.querySelectorAll('table')).reverse().forEach(table => {
+    const cells = Array.from(table.rows).map(row =>
+      Array.from(row.cells).map(cell => cell.getAttribute('data-content') ?? cell.innerHTML.trim())
+    );
+    const wrapper = table.closest('.ga-spreadsheet-container, [data-spreadsheet="true"]') || table;
+    const template = document.createElement('template');
+    template.innerHTML = SpreadsheetFormatter.createSerializedSpreadsheet(cells);
+    wrapper.replaceWith(template.content);
+  });
+
+  return root.innerHTML.trim();
+}
+
+function parseHtmlNote(html: string, filename: string): ParsedNote {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const exportedContent = doc.querySelector<HTMLElement>('article > .note-content');
+
+  // A note from our own HTML export
+  if (exportedContent) {
+    const article = exportedContent.parentElement!;
+    const attachments: Attachment[] = [];
+    article.querySelectorAll('.note-attachments img').forEach(image => {
+      const src = image.getAttribute('src');
+      if (src?.startsWith('data:image/')) attachments.push(screenshotAttachment(src));
+    });
+    article.querySelectorAll('.note-attachments a').forEach(link => {
+      const href = link.getAttribute('href');
+      if (href && isSafeUrl(href)) attachments.push(urlAttachment(href));
+    });
+
+    return {
+      title: article.querySelector('h1')?.textContent?.trim() || stripExtension(filename),
+      content: sanitizeImportedHtml(exportedContent),
+      tags: Array.from(article.querySelectorAll('.note-tag'))
+        .map(tag => (tag.textContent || '').replace(/^#/, '')),
+      attachments
+    };
+  }
+
+  const heading = doc.body.querySelector('h1');
+  const title = doc.title.trim() || heading?.textContent?.trim() || stripExtension(filename);
+  if (heading && heading.textContent?.trim() === title) {
+    heading.remove();
+  }
+
+  return {
+    title,
+    content: sanitizeImportedHtml(doc.body),
+    tags: [],
+    attachments: []
+  };
+}
+
+function parsePlainTextNote(text: string, filename: string): ParsedNote {
+  const content = text
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split('\n')
+    .map(line => line ? `<div>${escapeHtml(line)}</div>` : '<div><br></div>')
+    .join('');
+
+  return { title: stripExtension(filename), content, tags: [], attachments: [] };
+}
+
+function validateExportedNote(note: any, index: number): void {
+  const valid = note && typeof note === 'object' &&
+    typeof note.id === 'string' && note.id &&
+    typeof note.title === 'string' &&
+    typeof note.content === 'string' &&
+    typeof note.createdAt === 'string' &&
+    typeof note.updatedAt === 'string' &&
+    typeof note.version === 'number' &&
+    (note.attachments === undefined || Array.isArray(note.attachments));
+  if (!valid) {
+    throw new Error(`Note ${index + 1} is missing required fields`);
+  }
+}
+
+export function parseJsonExport(text: string): NotesExportDocument {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (parsed?.format !== JSON_EXPORT_FORMAT || !Array.isArray(parsed.notes)) {
+    throw new Error('Not a notes export file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > JSON_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${parsed.version}`);
+  }
+  parsed.notes.forEach(validateExportedNote);
+
+  return {
+    ...parsed,
+    notebooks: Array.isArray(parsed.notebooks) ? parsed.notebooks : []
+  };
+}
+
+interface ImportSource {
+  name: string;
+  data: Uint8Array;
+}
+
+// A ZIP contributes each of its files
+async function readSources(file: File): Promise<ImportSource[]> {
+  if (getExtension(file.name) === 'zip') {
+    return readZip(file);
+  }
+  return [{ name: file.name, data: new Uint8Array(await file.arrayBuffer()) }];
+}
+
+/**
+ * Import the given files and report what happened
+ * Notes from non-JSON files go into notebookId; JSON notes keep their own.
+ */
+export async function importFiles(files: File[], notebookId: string | null = null): Promise<ImportReport> {
+  const report: ImportReport = { created: 0, skipped: 0, conflicts: [], errors: [], notebooksCreated: 0 };
+  const decoder = new TextDecoder();
+
+  let sources: ImportSource[] = [];
+  for (const file of files) {
+    try {
+      sources = sources.concat(await readSources(file));
+    } catch (error) {
+      report.errors.push({ file: file.name, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Images inside a ZIP can be referenced from Markdown files next to them
+  const images = new Map<string, string>();
+  for (const source of sources) {
+    const mimeType = IMAGE_MIME_TYPES[getExtension(source.name)];
+    if (mimeType) {
+      images.set(source.name, await blobToDataUrl(new Blob([source.data], { type: mimeType })));
+    }
+  }
+
+  const exportedNotes: Note[] = [];
+  const exportedNotebooks: Notebook[] = [];
+  const parsedNotes: { file: string; note: ParsedNote }[] = [];
+
+  sources.forEach(source => {
+    const extension = getExtension(source.name);
+    if (IMAGE_MIME_TYPES[extension]) return;
+
+    try {
+      const text = decoder.decode(source.data);
+      switch (extension) {
+        case 'json': {
+          const exportDocument = parseJsonExport(text);
+          exportedNotes.push(...exportDocument.notes);
+          exportedNotebooks.push(...exportDocument.notebooks);
+          break;
+        }
+        case 'md':
+        case 'markdown':
+          parsedNotes.push({
+            file: source.name,
+            note: parseMarkdownNote(text, source.name, path => images.get(resolvePath(source.name, path)))
+          });
+          break;
+        case 'html':
+        case 'htm':
+          parsedNotes.push({ file: source.name, note: parseHtmlNote(text, source.name) });
+          break;
+        case 'txt':
+          parsedNotes.push({ file: source.name, note: parsePlainTextNote(text, source.name) });
+          break;
+        default:
+          throw new Error('Unsupported file type');
+      }
+    } catch (error) {
+      report.errors.push({ file: source.name, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  if (exportedNotebooks.length > 0) {
+    try {
+      report.notebooksCreated = await NotesDB.importNotebooks(exportedNotebooks);
+    } catch (error) {
+      report.errors.push({ file: 'notebooks', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const notebookIds = new Set((await NotesDB.getAllNotebooks()).map(notebook => notebook.id));
+
+  for (const note of exportedNotes) {
+    try {
+      const existing = await NotesDB.getNote(note.id);
+      if (existing) {
+        if (existing.version === note.version && existing.updatedAt === note.updatedAt) {
+          report.skipped++;
+        } else {
+          report.conflicts.push({ id: note.id, title: note.title });
+        }
+        continue;
+      }
+
+      await NotesDB.importNote({
+        ...note,
+        notebookId: note.notebookId && notebookIds.has(note.notebookId) ? note.notebookId : null
+      });
+      report.created++;
+    } catch (error) {
+      report.errors.push({ file: note.title, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  for (const { file, note } of parsedNotes) {
+    try {
+      await NotesDB.createNote(note.title, note.content, note.attachments, note.tags, notebookId);
+      report.created++;
+    } catch (error) {
+      report.errors.push({ file, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,204 @@
+import type { Attachment } from './Attachment';
+
+/**
+ * Merge helpers for the conflict resolver
+ *
+ * Content is split into blocks (lines of plain text, block elements of
+ * rich text) and merged three ways against the version both sides started
+ * from: a block changed on one side only takes that change, and blocks
+ * changed on both sides differently become conflicts for the user to pick.
+ * Without a common version every difference is a conflict.
+ */
+
+export interface MergeSide {
+  title: string;
+  content: string;
+  tags: string[];
+  attachments: Attachment[];
+}
+
+export type MergeSegment =
+  | { type: 'resolved'; text: string }
+  | { type: 'conflict'; mine: string; theirs: string };
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+export interface NoteMerge {
+  title: string | null; // null when both sides renamed the note differently
+  segments: MergeSegment[];
+  tags: string[];
+  attachments: Attachment[]; // Every attachment on either side, mine first
+}
+
+// Block-level closing tags and line breaks end a block
+const BLOCK_BOUNDARY = /(?<=<\/(?:p|div|li|ul|ol|h[1-6]|blockquote|pre|table)>|<br\s*\/?>|\n)/i;
+
+// Above this many block comparisons, treat the content as one block
+const MAX_MATCH_CELLS = 4_000_000;
+
+/**
+ * Split content into blocks; joining them gives back the original content
+ */
+export function splitBlocks(content: string): string[] {
+  return content ? content.split(BLOCK_BOUNDARY).filter(block => block !== '') : [];
+}
+
+/**
+ * For each block of a, the index of the matching block of b in their
+ * longest common subsequence, or -1
+ */
+function matchBlocks(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+  if (a.length * b.length > MAX_MATCH_CELLS) return matches;
+
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) {
+    lengths.push(new Uint32Array(b.length + 1));
+  }
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+const sameBlocks = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((block, index) => block === b[index]);
+
+function pushResolved(segments: MergeSegment[], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === 'resolved') {
+    last.text += text;
+  } else {
+    segments.push({ type: 'resolved', text });
+  }
+}
+
+/**
+ * Merge the blocks between two stable points of the three versions
+ */
+function mergeChunk(
+  segments: MergeSegment[],
+  base: string[],
+  mine: string[],
+  theirs: string[],
+  hasBase: boolean
+): void {
+  if (sameBlocks(mine, theirs)) {
+    pushResolved(segments, mine.join(''));
+  } else if (hasBase && sameBlocks(mine, base)) {
+    pushResolved(segments, theirs.join(''));
+  } else if (hasBase && sameBlocks(theirs, base)) {
+    pushResolved(segments, mine.join(''));
+  } else if (hasBase && base.length > 1 && mine.length === base.length && theirs.length === base.length) {
+    // Edits to neighbouring blocks only clash if they hit the same block
+    base.forEach((block, index) => mergeChunk(segments, [block], [mine[index]], [theirs[index]], true));
+  } else {
+    segments.push({ type: 'conflict', mine: mine.join(''), theirs: theirs.join('') });
+  }
+}
+
+/**
+ * Three-way merge of note content; pass null as base for a two-way merge
+ */
+export function mergeContent(base: string | null, mine: string, theirs: string): MergeSegment[] {
+  const mineBlocks = splitBlocks(mine);
+  const theirBlocks = splitBlocks(theirs);
+  const hasBase = base !== null;
+  // Two-way: the blocks both sides share are the only stable points
+  const sharedMatches = hasBase ? [] : matchBlocks(mineBlocks, theirBlocks);
+  const baseBlocks = hasBase
+    ? splitBlocks(base)
+    : mineBlocks.filter((_, index) => sharedMatches[index] !== -1);
+
+  const mineMatches = matchBlocks(baseBlocks, mineBlocks);
+  const theirMatches = matchBlocks(baseBlocks, theirBlocks);
+  const segments: MergeSegment[] = [];
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  for (let stable = 0; stable < baseBlocks.length; stable++) {
+    if (mineMatches[stable] === -1 || theirMatches[stable] === -1) continue;
+
+    mergeChunk(
+      segments,
+      baseBlocks.slice(i, stable),
+      mineBlocks.slice(j, mineMatches[stable]),
+      theirBlocks.slice(k, theirMatches[stable]),
+      hasBase
+    );
+    pushResolved(segments, baseBlocks[stable]);
+    i = stable + 1;
+    j = mineMatches[stable] + 1;
+    k = theirMatches[stable] + 1;
+  }
+  mergeChunk(segments, baseBlocks.slice(i), mineBlocks.slice(j), theirBlocks.slice(k), hasBase);
+
+  return segments;
+}
+
+/**
+ * Keep whatever either side added, and drop what either side removed
+ * Without a common version, nothing counts as removed.
+ */
+export function mergeTags(base: string[] | null, mine: string[], theirs: string[]): string[] {
+  const union = Array.from(new Set([...mine, ...theirs]));
+  if (!base) return union;
+  return union.filter(tag => !base.includes(tag) || (mine.includes(tag) && theirs.includes(tag)));
+}
+
+export function mergeNotes(
+  base: { title: string; content: string; tags: string[] } | null,
+  mine: MergeSide,
+  theirs: MergeSide
+): NoteMerge {
+  let title: string | null = null;
+  if (mine.title === theirs.title) title = mine.title;
+  else if (base && mine.title === base.title) title = theirs.title;
+  else if (base && theirs.title === base.title) title = mine.title;
+
+  const mineIds = new Set(mine.attachments.map(attachment => attachment.id));
+
+  return {
+    title,
+    segments: mergeContent(base ? base.content : null, mine.content, theirs.content),
+    tags: mergeTags(base ? base.tags : null, mine.tags, theirs.tags),
+    attachments: [...mine.attachments, ...theirs.attachments.filter(attachment => !mineIds.has(attachment.id))]
+  };
+}
+
+/**
+ * Put the merged content together from the user's pick for each conflict
+ * Conflicts without a pick keep my side.
+ */
+export function buildMergedContent(segments: MergeSegment[], choices: ConflictChoice[]): string {
+  let conflictIndex = 0;
+  return segments.map(segment => {
+    if (segment.type === 'resolved') return segment.text;
+    const choice = choices[conflictIndex++] ?? 'mine';
+    if (choice === 'theirs') return segment.theirs;
+    if (choice === 'both') {
+      // Keep plain text lines apart when mine doesn't end in a line break
+      const separator = segment.mine && !/[\n>]$/.test(segment.mine) ? '\n' : '';
+      return segment.mine + separator + segment.theirs;
+    }
+    return segment.mine;
+  }).join('');
+}
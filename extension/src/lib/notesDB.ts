@@ -1,5 +1,47 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Attachment } from './Attachment';
+import {
+  Attachment,
+  AttachmentData,
+  ScreenshotType,
+  blobToDataUrl,
+  createAttachmentReference,
+  dataUrlToBlob
+} from './Attachment';
+import {
+  SearchPosting,
+  SearchHighlight,
+  NoteSearchOptions,
+  buildPostings,
+  buildSnippet,
+  extractPlainText,
+  findHighlights,
+  tokenize
+} from './searchIndex';
+import { normalizeTag, normalizeTags } from './tagUtils';
+import { RevisionSettings, RevisionRetention } from './RevisionSettings';
+import { VaultSession } from './VaultSession';
+import {
+  VaultLockedError,
+  WrongPassphraseError,
+  decryptBlob,
+  decryptText,
+  encryptBlob,
+  encryptText,
+  isEncryptedText
+} from './vaultCrypto';
+import {
+  DB_NAME,
+  DB_VERSION,
+  STORE_NAME,
+  SEARCH_STORE_NAME,
+  NOTEBOOK_STORE_NAME,
+  REVISION_STORE_NAME,
+  ATTACHMENT_STORE_NAME,
+  SYNC_QUEUE_STORE_NAME,
+  CONFLICT_STORE_NAME,
+  DBMigrationError,
+  runMigrations
+} from './dbMigrations';
 
 export interface Note {
   id: string;
@@ -10,20 +52,159 @@ export interface Note {
   updatedAt: string;
   version: number;
   attachments?: Attachment[];
+  tags: string[];
+  notebookId?: string | null; // null or missing means the note is unfiled
+  deletedAt?: string; // Set while the note is in the trash
   syncStatus?: 'pending' | 'synced';
+  parents?: NoteParent[]; // Set on a version merged from two conflicting ones
 }
 
-const DB_NAME = 'notesDB';
-const STORE_NAME = 'notes';
-const DB_VERSION = 1;
+// One of the versions a merged version was made from
+export interface NoteParent {
+  version: number;
+  updatedAt: string; // Tells apart two sides that ended up with the same version number
+}
+
+// The fields a conflict resolution saves
+export interface NoteResolution {
+  title: string;
+  content: string;
+  attachments?: Attachment[];
+  tags?: string[];
+}
+
+// A copy of a note pulled by sync while the local one had unpushed changes
+export interface NoteConflict {
+  noteId: string;
+  theirs: Note; // Still encrypted in the store; decrypted by getConflict
+  detectedAt: string;
+}
+
+export interface Notebook {
+  id: string;
+  name: string;
+  parentId: string | null; // null for top-level notebooks
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Snapshot of a note as it was at a given version
+export interface NoteRevision {
+  noteId: string;
+  version: number;
+  title: string;
+  content: string;
+  tags: string[];
+  updatedAt: string; // When this version was written
+  archivedAt: string; // When it was replaced by a newer version
+  parents?: NoteParent[];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface NoteSearchResult {
+  note: Note; // Attachments are references only (no screenshotData)
+  score: number;
+  snippet: string;
+  highlights: SearchHighlight[]; // Ranges within snippet
+  titleHighlights: SearchHighlight[]; // Ranges within note.title
+  matchedTerms: string[];
+}
+
+// Everything in the database except the search index, which is rebuilt on restore
+export interface DatabaseSnapshot {
+  notes: Note[]; // Including notes in the trash
+  notebooks: Notebook[];
+  revisions: NoteRevision[];
+  attachments: { id: number; noteId: string; data: string; encryptedType?: string }[]; // Image data as data URLs
+}
+
+export type DatabaseRestoreMode = 'merge' | 'replace';
+
+// What restoring a snapshot does to each of its notes
+export interface DatabaseMergePlan {
+  added: string[]; // Not in the database yet
+  updated: string[]; // The snapshot has a newer version
+  kept: string[]; // The database copy is the same or newer
+}
+
+export type SyncRecordKind = 'note' | 'attachment';
+
+// A local change waiting to be pushed by the sync engine
+export interface SyncQueueEntry {
+  key: string; // `${kind}:${recordId}`, so later changes to a record replace earlier ones
+  kind: SyncRecordKind;
+  recordId: string; // Note ID, or attachment ID as a string
+  noteId: string;
+  deleted: boolean; // Purged locally, so the server copy has to go too
+  changeId: string; // Tells the engine whether the record changed again while it was pushing
+  queuedAt: string;
+}
+
+// A note or attachment fetched from the sync server, as stored (still encrypted with a vault)
+export interface RemoteNoteChange {
+  note: Note;
+  purged: boolean;
+}
+
+export interface RemoteAttachmentChange {
+  id: number;
+  noteId: string;
+  data: string | null; // Data URL, null once deleted
+  encryptedType?: string;
+}
+
+// What applying a page of pulled records did
+export interface RemoteApplyResult {
+  applied: string[];
+  skipped: string[]; // Changed locally since the last push, so the local copy wins
+  conflicts: string[]; // Changed on both sides; kept as conflicts to resolve
+}
+
+export type NoteChangeKind = 'created' | 'updated' | 'deleted' | 'attachmentAdded' | 'attachmentRemoved';
+
+// A committed write to a note, as announced to open panels
+export interface NoteChange {
+  kind: NoteChangeKind;
+  noteId: string;
+  version?: number; // Version the note is at after the write; missing once it's deleted
+  attachmentId?: number; // The attachment added or removed
+}
+
+export type { NoteSearchOptions, SearchHighlight };
+
+
+// Where searchNotes gets postings and notes from
+interface SearchSource {
+  totalNotes: number;
+  getPostings(term: string, prefix: boolean): Promise<SearchPosting[]>;
+  getNote(noteId: string): Promise<Note | undefined>;
+}
+
+// Title matches count for more than content matches when ranking
+const TITLE_WEIGHT = 3;
+// Prefix matches on the last query term rank below exact matches
+const PREFIX_MATCH_WEIGHT = 0.5;
 
 const formatTimestamp = (): string => {
   const now = new Date();
-  return now.toISOString().slice(0, 16);
+  return now.toISOString().slice(0, 19);
 };
 
 export class NotesDB {
   private static dbConnection: IDBDatabase | null = null;
+  private static changeListener: ((changes: NoteChange[]) => void) | null = null;
+
+  /**
+   * Get told about every write to notes once it's committed, e.g. to update
+   * open panels
+   */
+  static setChangeListener(listener: ((changes: NoteChange[]) => void) | null): void {
+    this.changeListener = listener;
+  }
 
   private static async getDB(): Promise<IDBDatabase> {
     if (this.dbConnection) {
@@ -33,35 +214,71 @@ export class NotesDB {
     return this.dbConnection;
   }
 
-  private static async initializeStores(db: IDBDatabase) {
-    if (!db.objectStoreNames.contains(STORE_NAME)) {
-      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      store.createIndex('updatedAt', 'updatedAt');
-    }
-  }
-
   private static async openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION + 1); // Increment version for new store
-      
-      request.onerror = () => reject(request.error);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let migrationError: DBMigrationError | null = null;
+      let upgradeFrom: number | null = null;
+
+      request.onerror = () => {
+        if (migrationError) {
+          reject(migrationError);
+        } else if (upgradeFrom !== null) {
+          reject(new Error(
+            `Database upgrade from version ${upgradeFrom} to ${DB_VERSION} failed: ${request.error?.message ?? 'unknown error'}`
+          ));
+        } else {
+          reject(request.error);
+        }
+      };
+
+      request.onblocked = () => {
+        // Another connection (e.g. an older background script) has the database open
+        console.warn('Database upgrade is waiting for other connections to close');
+      };
       
       request.onsuccess = () => {
         const db = request.result;
         db.onclose = () => {
           this.dbConnection = null;
         };
+        // Let a newer version of the extension upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          this.dbConnection = null;
+        };
         resolve(db);
       };
       
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        this.initializeStores(db);
+        const db = request.result;
+        const transaction = request.transaction!;
+        upgradeFrom = event.oldVersion;
+
+        runMigrations(db, transaction, event.oldVersion).catch(error => {
+          migrationError = error as DBMigrationError;
+          console.error(migrationError);
+          // Aborting rolls back every migration in this upgrade
+          try {
+            transaction.abort();
+          } catch {
+            // A failed record update has already aborted it
+          }
+        });
       };
     });
   }
 
   static async getNote(id: string): Promise<Note | null> {
+    const key = await VaultSession.getKey();
+    const note = await this.getNoteRecord(id);
+    return note ? this.decryptNote(note, key) : null;
+  }
+
+  /**
+   * A note as stored, still encrypted while the vault is on
+   */
+  private static async getNoteRecord(id: string): Promise<Note | null> {
     const db = await this.getDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readonly');
@@ -78,38 +295,161 @@ export class NotesDB {
   }
 
   static async getAllNotes(): Promise<Note[]> {
+    const key = await VaultSession.getKey();
+    const notes = (await this.getAllNoteRecords()).filter(note => !note.deletedAt);
+    return Promise.all(notes.map(note => this.decryptNote(note, key)));
+  }
+
+  static async getTrashedNotes(): Promise<Note[]> {
+    const key = await VaultSession.getKey();
     const db = await this.getDB();
-    return new Promise((resolve, reject) => {
+    const notes = await new Promise<Note[]>((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readonly');
+      const request = transaction.objectStore(STORE_NAME).index('deletedAt').getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return Promise.all(notes.map(note => this.decryptNote(note, key)));
+  }
+
+  /**
+   * Move a note to the trash
+   * The record is kept with a deletedAt timestamp until it's restored or
+   * purged; it drops out of getAllNotes and search in the meantime.
+   */
+  static async deleteNote(id: string): Promise<void> {
+    const note = await this.getNoteRecord(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+    if (note.deletedAt) {
+      return;
+    }
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SEARCH_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
+      // A new updatedAt makes other devices take the pulled copy over theirs
+      const request = store.put({
+        ...note,
+        deletedAt: new Date().toISOString(),
+        updatedAt: formatTimestamp(),
+        syncStatus: 'pending'
+      });
+      this.removeFromIndex(transaction, id);
+      this.queueSync(transaction, 'note', id, id);
 
-      request.onsuccess = () => {
-        resolve(request.result);
+      transaction.oncomplete = () => {
+        this.notifyChanges([{ kind: 'deleted', noteId: id }]);
+        resolve();
       };
-      request.onerror = () => {
-        reject(request.error);
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+  }
+
+  static async restoreNote(id: string): Promise<Note> {
+    const key = await VaultSession.getKey();
+    const note = await this.getNoteRecord(id);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    const { deletedAt, ...fields } = note;
+    const restoredNote: Note = { ...fields, updatedAt: formatTimestamp(), syncStatus: 'pending' };
+    // Restore to the top level if its notebook was deleted in the meantime
+    if (restoredNote.notebookId) {
+      const notebooks = await this.getAllNotebooks();
+      if (!notebooks.some(notebook => notebook.id === restoredNote.notebookId)) {
+        restoredNote.notebookId = null;
+      }
+    }
+
+    const db = await this.getDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SEARCH_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(restoredNote);
+      this.writeToIndex(transaction, restoredNote);
+      this.queueSync(transaction, 'note', id, id);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+    // Back from the trash, so it reappears like a new note
+    this.notifyChanges([{ kind: 'created', noteId: id, version: restoredNote.version }]);
+    return this.decryptNote(restoredNote, key);
+  }
+
+  /**
+   * Permanently delete a note, whether or not it's in the trash
+   */
+  static async purgeNote(id: string): Promise<void> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME, CONFLICT_STORE_NAME],
+        'readwrite'
+      );
+      const request = this.removeNote(transaction, id);
+      this.queueSync(transaction, 'note', id, id, true);
+
+      transaction.oncomplete = () => {
+        this.notifyChanges([{ kind: 'deleted', noteId: id }]);
+        resolve();
       };
+      transaction.onerror = () => reject(transaction.error || request.error);
     });
   }
 
-  static async deleteNote(id: string): Promise<void> {
+  /**
+   * Permanently delete trashed notes older than the retention period
+   * Pass 0 to empty the whole trash. Returns the ids of purged notes so
+   * callers can clean up anything else tied to them.
+   */
+  static async purgeExpiredNotes(retentionDays: number): Promise<string[]> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
     const db = await this.getDB();
+
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME, CONFLICT_STORE_NAME],
+        'readwrite'
+      );
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+      const purgedIds: string[] = [];
+      const cursorRequest = store.index('deletedAt').openCursor(IDBKeyRange.upperBound(cutoff));
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const noteId = cursor.primaryKey as string;
+          purgedIds.push(noteId);
+          this.removeNote(transaction, noteId);
+          this.queueSync(transaction, 'note', noteId, noteId, true);
+          cursor.continue();
+        }
+      };
+
+      transaction.oncomplete = () => {
+        this.notifyChanges(purgedIds.map(noteId => ({ kind: 'deleted' as const, noteId })));
+        resolve(purgedIds);
+      };
+      transaction.onerror = () => {
+        console.error('Failed to purge trashed notes:', transaction.error);
+        reject(transaction.error);
+      };
     });
   }
 
   static async createNote(
     title: string, 
     content: string,
-    attachments?: Attachment[]
+    attachments?: Attachment[],
+    tags?: string[],
+    notebookId?: string | null
   ): Promise<Note> {
+    const key = await VaultSession.getKey();
     const db = await this.getDB();
     const timestamp = formatTimestamp();
     
@@ -135,29 +475,93 @@ export class NotesDB {
     // Determine if content is rich text (contains HTML tags)
     const isRichText = /<[a-z][\s\S]*>/i.test(content);
 
+    const noteId = uuidv4();
+    const { references, data } = this.splitAttachmentData(noteId, processedAttachments);
+
     const newNote: Note = {
-      id: uuidv4(),
+      id: noteId,
       title: title.trim() || 'Untitled Note',
       content: content.trim(),
       isRichText,
       createdAt: timestamp,
       updatedAt: timestamp,
       version: 1,
-      attachments: processedAttachments,
-      syncStatus: 'synced' as const
+      attachments: references,
+      tags: normalizeTags(tags),
+      notebookId: notebookId || null,
+      syncStatus: 'pending' as const
     };
+    const record = await this.encryptNote(newNote, key);
+    const storedData = await this.encryptAttachmentData(data, key);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME],
+        'readwrite'
+      );
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.add(newNote);
+      const request = store.add(record);
+      this.writeToIndex(transaction, record);
+      this.writeAttachmentData(transaction, storedData);
+      this.queueSync(transaction, 'note', noteId, noteId);
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
+        this.notifyChanges([{ kind: 'created', noteId, version: newNote.version }]);
         resolve(newNote);
       };
-      request.onerror = () => {
-        console.error('Failed to create note:', request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('Failed to create note:', transaction.error || request.error);
+        reject(transaction.error || request.error);
+      };
+    });
+  }
+
+  /**
+   * Store a note from an import as it is: ID, timestamps and version are kept
+   * Fails if a note with the same ID already exists.
+   */
+  static async importNote(note: Note): Promise<Note> {
+    const key = await VaultSession.getKey();
+    const timestamp = formatTimestamp();
+    const attachments = (note.attachments || []).map(attachment => ({
+      ...attachment,
+      id: attachment.id || Date.now(),
+      createdAt: attachment.createdAt || timestamp,
+      syncStatus: 'synced' as const
+    }));
+    const { references, data } = this.splitAttachmentData(note.id, attachments);
+
+    // Imported notes always land outside the trash
+    const { deletedAt, ...fields } = note;
+    const importedNote: Note = {
+      ...fields,
+      isRichText: /<[a-z][\s\S]*>/i.test(note.content),
+      attachments: references,
+      tags: normalizeTags(note.tags),
+      notebookId: note.notebookId || null,
+      syncStatus: 'pending' as const
+    };
+    const record = await this.encryptNote(importedNote, key);
+    const storedData = await this.encryptAttachmentData(data, key);
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME],
+        'readwrite'
+      );
+      const request = transaction.objectStore(STORE_NAME).add(record);
+      this.writeToIndex(transaction, record);
+      this.writeAttachmentData(transaction, storedData);
+      this.queueSync(transaction, 'note', note.id, note.id);
+
+      transaction.oncomplete = () => {
+        this.notifyChanges([{ kind: 'created', noteId: note.id, version: importedNote.version }]);
+        resolve(importedNote);
+      };
+      transaction.onerror = () => {
+        console.error('Failed to import note:', transaction.error || request.error);
+        reject(transaction.error || request.error);
       };
     });
   }
@@ -167,17 +571,72 @@ export class NotesDB {
     title: string,
     content: string,
     expectedVersion?: number,
-    attachments?: Attachment[]
+    attachments?: Attachment[],
+    tags?: string[]
   ): Promise<Note> {
-    const existingNote = await this.getNote(id);
-    if (!existingNote) {
+    const key = await VaultSession.getKey();
+    const existingRecord = await this.getNoteRecord(id);
+    if (!existingRecord) {
       throw new Error('Note not found');
     }
+    const existingNote = await this.decryptNote(existingRecord, key);
 
     if (expectedVersion !== undefined && existingNote.version !== expectedVersion) {
       throw new Error('Version conflict - note was modified elsewhere');
     }
 
+    return this.writeNoteVersion(existingRecord, existingNote, key, { title, content, attachments, tags }, {
+      version: existingNote.version + 1
+    });
+  }
+
+  /**
+   * Save a merged copy of a note that was changed in two places at once
+   * expectedVersion is the stored version the merge was made against. The
+   * new version is numbered above both sides, records both as its parents
+   * and clears any conflict pulled in by sync.
+   */
+  static async resolveConflict(
+    id: string,
+    resolution: NoteResolution,
+    parents: NoteParent[],
+    expectedVersion: number
+  ): Promise<Note> {
+    const key = await VaultSession.getKey();
+    const existingRecord = await this.getNoteRecord(id);
+    if (!existingRecord) {
+      throw new Error('Note not found');
+    }
+    if (existingRecord.version !== expectedVersion) {
+      throw new Error('Version conflict - note was modified elsewhere');
+    }
+    const existingNote = await this.decryptNote(existingRecord, key);
+    const conflict = await this.getConflictRecord(id);
+
+    return this.writeNoteVersion(existingRecord, existingNote, key, resolution, {
+      version: Math.max(existingNote.version, conflict?.theirs.version ?? 0, ...parents.map(parent => parent.version)) + 1,
+      parents,
+      // Image data pulled for the other side's attachments goes if the merge drops them
+      previousAttachments: conflict?.theirs.attachments
+    });
+  }
+
+  /**
+   * Write a new version of a note, archiving the current one as a revision
+   */
+  private static async writeNoteVersion(
+    existingRecord: Note,
+    existingNote: Note,
+    key: CryptoKey | null,
+    { title, content, attachments, tags }: NoteResolution,
+    { version, parents, previousAttachments = [], change = { kind: 'updated' } }: {
+      version: number;
+      parents?: NoteParent[];
+      previousAttachments?: Attachment[];
+      change?: Pick<NoteChange, 'kind' | 'attachmentId'>; // How the write is announced
+    }
+  ): Promise<Note> {
+    const id = existingNote.id;
     const timestamp = formatTimestamp();
     
     // Process attachments to ensure they have all required fields
@@ -195,36 +654,69 @@ export class NotesDB {
       return processedAttachment;
     }) || [];
 
+    const { references, data } = this.splitAttachmentData(id, processedAttachments);
+
+    // Image data of attachments dropped from the note is no longer needed
+    const keptIds = new Set(references.map(attachment => attachment.id));
+    const removedIds = Array.from(new Set(
+      [...(existingNote.attachments || []), ...previousAttachments].map(attachment => attachment.id)
+    )).filter(attachmentId => !keptIds.has(attachmentId));
+
     // Determine if content is rich text (contains HTML tags)
     const isRichText = /<[a-z][\s\S]*>/i.test(content);
 
+    // Ordinary saves descend from the previous version and don't list parents
+    const { parents: previousParents, ...fields } = existingNote;
     const updatedNote: Note = {
-      ...existingNote,
+      ...fields,
+      ...(parents ? { parents } : {}),
       title: title.trim() || existingNote.title,
       content: content.trim(),
       isRichText,
       updatedAt: timestamp,
-      version: existingNote.version + 1,
-      attachments: processedAttachments,
-      syncStatus: 'synced' as const
+      version,
+      attachments: references,
+      // Keep the existing tags when the caller doesn't pass any
+      tags: tags !== undefined ? normalizeTags(tags) : (existingNote.tags || []),
+      syncStatus: 'pending' as const
     };
+    const record = await this.encryptNote(updatedNote, key);
+    const storedData = await this.encryptAttachmentData(data, key);
 
+    const retention = await RevisionSettings.getRetention();
     const db = await this.getDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME, CONFLICT_STORE_NAME],
+        'readwrite'
+      );
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(updatedNote);
+      const request = store.put(record);
+      this.writeToIndex(transaction, record);
+      // The stored record keeps the outgoing revision encrypted too
+      this.recordRevision(transaction, existingRecord, timestamp, retention);
+      this.writeAttachmentData(transaction, storedData);
+      const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+      removedIds.forEach(attachmentId => {
+        attachmentStore.delete(attachmentId);
+        this.queueSync(transaction, 'attachment', attachmentId, id, true);
+      });
+      this.queueSync(transaction, 'note', id, id);
+      if (parents) {
+        transaction.objectStore(CONFLICT_STORE_NAME).delete(id);
+      }
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         console.log('Successfully updated note with attachments:', {
           noteId: updatedNote.id,
           attachmentCount: updatedNote.attachments?.length || 0
         });
+        this.notifyChanges([{ ...change, noteId: id, version }]);
         resolve(updatedNote);
       };
-      request.onerror = () => {
-        console.error('Failed to update note:', request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('Failed to update note:', transaction.error || request.error);
+        reject(transaction.error || request.error);
       };
     });
   }
@@ -232,9 +724,9 @@ export class NotesDB {
   static async addAttachment(noteId: string,
     url: string,
     screenshotData?: string,
-    screenshotType?: 'visible' | 'full'
+    screenshotType?: ScreenshotType
   ): Promise<Note> {
-    
+    const key = await VaultSession.getKey();
     const note = await this.getNote(noteId);
     if (!note) {
       throw new Error('Note not found');
@@ -249,40 +741,53 @@ export class NotesDB {
       createdAt: formatTimestamp(),
       syncStatus: 'pending'
     };
+    const { references, data } = this.splitAttachmentData(noteId, [attachment]);
     
     const updatedNote: Note = {
       ...note,
       attachments: [
         ...(note.attachments || []),
-        attachment
+        ...references
       ],
       updatedAt: formatTimestamp(),
       version: note.version + 1,
       syncStatus: 'pending'
     };
+    const record = await this.encryptNote(updatedNote, key);
+    const storedData = await this.encryptAttachmentData(data, key);
 
     // Save to IndexedDB
     const db = await this.getDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const transaction = db.transaction([STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(updatedNote);
+      const request = store.put(record);
+      this.writeAttachmentData(transaction, storedData);
+      this.queueSync(transaction, 'note', noteId, noteId);
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
+        this.notifyChanges([{
+          kind: 'attachmentAdded',
+          noteId,
+          version: updatedNote.version,
+          attachmentId: attachment.id
+        }]);
         resolve(updatedNote);
       };
-      request.onerror = () => {
-        console.error('Failed to save note with attachment:', request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('Failed to save note with attachment:', transaction.error || request.error);
+        reject(transaction.error || request.error);
       };
     });
   }
 
   static async removeAttachment(noteId: string, attachmentId: number): Promise<Note> {
-    const note = await this.getNote(noteId);
-    if (!note) {
+    const key = await VaultSession.getKey();
+    const record = await this.getNoteRecord(noteId);
+    if (!record) {
       throw new Error('Note not found');
     }
+    const note = await this.decryptNote(record, key);
 
     // Make sure attachments array exists
     if (!note.attachments) {
@@ -290,22 +795,1474 @@ export class NotesDB {
       return note;
     }
 
-    const updatedNote: Note = {
-      ...note,
-      attachments: note.attachments.filter(a => a.id !== attachmentId),
-      updatedAt: formatTimestamp(),
+    return this.writeNoteVersion(record, note, key, {
+      title: note.title,
+      content: note.content,
+      attachments: note.attachments.filter(a => a.id !== attachmentId)
+    }, {
       version: note.version + 1,
-      syncStatus: 'pending'
+      change: { kind: 'attachmentRemoved', attachmentId }
+    });
+  }
+
+  /**
+   * Fetch the full image data of an attachment as a data URL
+   * Notes only carry references and thumbnails; returns null when the
+   * attachment has no stored data.
+   */
+  static async getAttachmentData(attachmentId: number): Promise<string | null> {
+    const key = await VaultSession.getKey();
+    const record = await this.getAttachmentRecord(attachmentId);
+
+    if (!record) return null;
+    // Blobs don't survive runtime messaging, so hand back a data URL
+    return blobToDataUrl(await this.decryptAttachmentData(record, key));
+  }
+
+  /**
+   * Fetch the unannotated image of an annotated screenshot as a data URL
+   * Returns null when there is none, e.g. for screenshots restored from a
+   * backup or pulled in by sync.
+   */
+  static async getOriginalAttachmentData(attachmentId: number): Promise<string | null> {
+    const key = await VaultSession.getKey();
+    const record = await this.getAttachmentRecord(attachmentId);
+
+    const original = record ? await this.decryptOriginalData(record, key) : null;
+    return original ? blobToDataUrl(original) : null;
+  }
+
+  private static async getAttachmentRecord(attachmentId: number): Promise<AttachmentData | undefined> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(ATTACHMENT_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(ATTACHMENT_STORE_NAME).get(attachmentId);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async getAllNotebooks(): Promise<Notebook[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(NOTEBOOK_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(NOTEBOOK_STORE_NAME).getAll();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async createNotebook(name: string, parentId: string | null = null): Promise<Notebook> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Notebook name cannot be empty');
+    }
+
+    const notebooks = await this.getAllNotebooks();
+    if (parentId && !notebooks.some(notebook => notebook.id === parentId)) {
+      throw new Error('Parent notebook not found');
+    }
+
+    const timestamp = formatTimestamp();
+    const notebook: Notebook = {
+      id: uuidv4(),
+      name: trimmedName,
+      parentId,
+      createdAt: timestamp,
+      updatedAt: timestamp
     };
 
-    // Use updateNote to save changes
-    return this.updateNote(
-      noteId, 
-      updatedNote.title, 
-      updatedNote.content, 
-      note.version,
-      updatedNote.attachments
-    );
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(NOTEBOOK_STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(NOTEBOOK_STORE_NAME).add(notebook);
+
+      transaction.oncomplete = () => resolve(notebook);
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+  }
+
+  /**
+   * Add the notebooks from an import that don't exist yet, keeping their IDs
+   * Notebooks whose parent is missing are placed at the top level.
+   * Returns how many notebooks were created.
+   */
+  static async importNotebooks(notebooks: Notebook[]): Promise<number> {
+    const existingIds = new Set((await this.getAllNotebooks()).map(notebook => notebook.id));
+    const knownIds = new Set([...existingIds, ...notebooks.map(notebook => notebook.id)]);
+    const newNotebooks = notebooks
+      .filter(notebook => !existingIds.has(notebook.id))
+      .map(notebook => ({
+        ...notebook,
+        parentId: notebook.parentId && knownIds.has(notebook.parentId) ? notebook.parentId : null
+      }));
+    if (newNotebooks.length === 0) return 0;
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(NOTEBOOK_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(NOTEBOOK_STORE_NAME);
+      newNotebooks.forEach(notebook => store.add(notebook));
+
+      transaction.oncomplete = () => resolve(newNotebooks.length);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  static async renameNotebook(id: string, name: string): Promise<Notebook> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Notebook name cannot be empty');
+    }
+
+    const notebooks = await this.getAllNotebooks();
+    const notebook = notebooks.find(n => n.id === id);
+    if (!notebook) {
+      throw new Error('Notebook not found');
+    }
+
+    return this.putNotebook({ ...notebook, name: trimmedName, updatedAt: formatTimestamp() });
+  }
+
+  /**
+   * Move a notebook under a new parent (null moves it to the top level)
+   */
+  static async moveNotebook(id: string, parentId: string | null): Promise<Notebook> {
+    const notebooks = await this.getAllNotebooks();
+    const notebook = notebooks.find(n => n.id === id);
+    if (!notebook) {
+      throw new Error('Notebook not found');
+    }
+
+    // Walk up from the new parent to make sure we're not moving into our own subtree
+    let ancestorId = parentId;
+    while (ancestorId) {
+      if (ancestorId === id) {
+        throw new Error('Cannot move a notebook into itself');
+      }
+      const ancestor = notebooks.find(n => n.id === ancestorId);
+      if (!ancestor) {
+        throw new Error('Parent notebook not found');
+      }
+      ancestorId = ancestor.parentId;
+    }
+
+    return this.putNotebook({ ...notebook, parentId, updatedAt: formatTimestamp() });
+  }
+
+  /**
+   * Delete a notebook
+   * Its notes and child notebooks move up to the deleted notebook's parent
+   * in the same transaction.
+   */
+  static async deleteNotebook(id: string): Promise<void> {
+    const notebooks = await this.getAllNotebooks();
+    const notebook = notebooks.find(n => n.id === id);
+    if (!notebook) {
+      throw new Error('Notebook not found');
+    }
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, NOTEBOOK_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      const notebookStore = transaction.objectStore(NOTEBOOK_STORE_NAME);
+      const notesStore = transaction.objectStore(STORE_NAME);
+      const timestamp = formatTimestamp();
+
+      notebooks
+        .filter(child => child.parentId === id)
+        .forEach(child => notebookStore.put({ ...child, parentId: notebook.parentId, updatedAt: timestamp }));
+
+      const movedNotes: NoteChange[] = [];
+      const cursorRequest = notesStore.index('notebookId').openCursor(IDBKeyRange.only(id));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          cursor.update({ ...cursor.value, notebookId: notebook.parentId, updatedAt: timestamp, syncStatus: 'pending' });
+          this.queueSync(transaction, 'note', cursor.primaryKey as string, cursor.primaryKey as string);
+          movedNotes.push({ kind: 'updated', noteId: cursor.primaryKey as string, version: cursor.value.version });
+          cursor.continue();
+        }
+      };
+
+      notebookStore.delete(id);
+
+      transaction.oncomplete = () => {
+        this.notifyChanges(movedNotes);
+        resolve();
+      };
+      transaction.onerror = () => {
+        console.error('Failed to delete notebook:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Move a note into a notebook (null moves it out of every notebook)
+   * This only changes where the note is filed, so the version is left alone
+   * and open editors can keep saving without a conflict. The new updatedAt
+   * is what makes other devices take the move when it's synced.
+   */
+  static async moveNote(noteId: string, notebookId: string | null): Promise<Note> {
+    const key = await VaultSession.getKey();
+    const note = await this.getNoteRecord(noteId);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    if (notebookId) {
+      const notebooks = await this.getAllNotebooks();
+      if (!notebooks.some(notebook => notebook.id === notebookId)) {
+        throw new Error('Notebook not found');
+      }
+    }
+
+    const movedNote: Note = { ...note, notebookId, updatedAt: formatTimestamp(), syncStatus: 'pending' };
+    const db = await this.getDB();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(movedNote);
+      this.queueSync(transaction, 'note', noteId, noteId);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+    this.notifyChanges([{ kind: 'updated', noteId, version: movedNote.version }]);
+    return this.decryptNote(movedNote, key);
+  }
+
+  private static async putNotebook(notebook: Notebook): Promise<Notebook> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(NOTEBOOK_STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(NOTEBOOK_STORE_NAME).put(notebook);
+
+      transaction.oncomplete = () => resolve(notebook);
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+  }
+
+  /**
+   * List every tag in use along with the number of notes carrying it
+   */
+  static async getAllTags(): Promise<TagCount[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readonly');
+      const index = transaction.objectStore(STORE_NAME).index('tags');
+      const request = index.openKeyCursor();
+      const counts = new Map<string, number>();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const tag = cursor.key as string;
+          counts.set(tag, (counts.get(tag) || 0) + 1);
+          cursor.continue();
+        } else {
+          resolve(
+            Array.from(counts.entries())
+              .map(([tag, count]) => ({ tag, count }))
+              .sort((a, b) => a.tag.localeCompare(b.tag))
+          );
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Rename a tag on every note that carries it
+   */
+  static async renameTag(oldTag: string, newTag: string): Promise<Note[]> {
+    return this.mergeTags([oldTag], newTag);
+  }
+
+  /**
+   * Replace every source tag with the target tag
+   * All affected notes are rewritten in a single transaction, so either
+   * every note is updated or none are.
+   */
+  static async mergeTags(sourceTags: string[], targetTag: string): Promise<Note[]> {
+    const target = normalizeTag(targetTag);
+    const sources = normalizeTags(sourceTags).filter(tag => tag !== target);
+
+    if (!target) {
+      throw new Error('Tag name cannot be empty');
+    }
+    if (sources.length === 0) {
+      return [];
+    }
+
+    const key = await VaultSession.getKey();
+    const db = await this.getDB();
+    const timestamp = formatTimestamp();
+
+    // Tags aren't encrypted, so the stored records are rewritten as they are
+    const rewrittenNotes = await new Promise<Note[]>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const index = store.index('tags');
+      const updatedNotes = new Map<string, Note>();
+
+      sources.forEach(source => {
+        const request = index.openCursor(IDBKeyRange.only(source));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+
+          // A note carrying several source tags is only rewritten once
+          const note = updatedNotes.get(cursor.primaryKey as string) || (cursor.value as Note);
+          const updatedNote: Note = {
+            ...note,
+            tags: normalizeTags((note.tags || []).map(tag => sources.includes(tag) ? target : tag)),
+            updatedAt: timestamp,
+            version: updatedNotes.has(note.id) ? note.version : note.version + 1,
+            syncStatus: 'pending'
+          };
+          updatedNotes.set(note.id, updatedNote);
+          store.put(updatedNote);
+          this.queueSync(transaction, 'note', note.id, note.id);
+          cursor.continue();
+        };
+      });
+
+      transaction.oncomplete = () => {
+        this.notifyChanges(Array.from(updatedNotes.values()).map(note => ({
+          kind: 'updated' as const,
+          noteId: note.id,
+          version: note.version
+        })));
+        resolve(Array.from(updatedNotes.values()));
+      };
+      transaction.onerror = () => {
+        console.error('Failed to merge tags:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+    return Promise.all(rewrittenNotes.map(note => this.decryptNote(note, key)));
+  }
+
+  /**
+   * List the stored revisions of a note, newest first
+   */
+  static async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    const key = await VaultSession.getKey();
+    const db = await this.getDB();
+    const revisions = await new Promise<NoteRevision[]>((resolve, reject) => {
+      const transaction = db.transaction(REVISION_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(REVISION_STORE_NAME).index('noteId').getAll(IDBKeyRange.only(noteId));
+
+      request.onsuccess = () => {
+        resolve((request.result as NoteRevision[]).sort((a, b) => b.version - a.version));
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return Promise.all(revisions.map(revision => this.decryptRevision(revision, key)));
+  }
+
+  static async getRevision(noteId: string, version: number): Promise<NoteRevision | null> {
+    const key = await VaultSession.getKey();
+    const db = await this.getDB();
+    const revision = await new Promise<NoteRevision | undefined>((resolve, reject) => {
+      const transaction = db.transaction(REVISION_STORE_NAME, 'readonly');
+      const request = transaction.objectStore(REVISION_STORE_NAME).get([noteId, version]);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return revision ? this.decryptRevision(revision, key) : null;
+  }
+
+  /**
+   * Restore a revision by saving its title, content and tags as a new version
+   * The current version is kept in the history like any other update.
+   * Attachments are not part of revisions and stay as they are.
+   */
+  static async restoreRevision(noteId: string, version: number, expectedVersion?: number): Promise<Note> {
+    const revision = await this.getRevision(noteId, version);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const note = await this.getNote(noteId);
+    if (!note) {
+      throw new Error('Note not found');
+    }
+
+    return this.updateNote(
+      noteId,
+      revision.title,
+      revision.content,
+      expectedVersion ?? note.version,
+      note.attachments,
+      revision.tags
+    );
+  }
+
+  /**
+   * Archive the outgoing version of a note and prune old revisions,
+   * inside an existing transaction
+   */
+  private static recordRevision(
+    transaction: IDBTransaction,
+    previous: Note,
+    archivedAt: string,
+    retention: RevisionRetention
+  ): void {
+    const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+    const revision: NoteRevision = {
+      noteId: previous.id,
+      version: previous.version,
+      title: previous.title,
+      content: previous.content,
+      tags: previous.tags || [],
+      updatedAt: previous.updatedAt,
+      archivedAt,
+      ...(previous.parents ? { parents: previous.parents } : {})
+    };
+    revisionStore.put(revision);
+
+    const request = revisionStore.index('noteId').getAll(IDBKeyRange.only(previous.id));
+    request.onsuccess = () => {
+      RevisionSettings.selectRevisionsToPrune(request.result as NoteRevision[], retention)
+        .forEach(version => revisionStore.delete([previous.id, version]));
+    };
+  }
+
+  /**
+   * Delete a note with its postings, revisions and image data inside an existing transaction
+   */
+  private static removeNote(transaction: IDBTransaction, noteId: string): IDBRequest {
+    const request = transaction.objectStore(STORE_NAME).delete(noteId);
+    this.removeFromIndex(transaction, noteId);
+    this.removeRevisions(transaction, noteId);
+    this.removeAttachmentData(transaction, noteId);
+    transaction.objectStore(CONFLICT_STORE_NAME).delete(noteId);
+    return request;
+  }
+
+  /**
+   * Queue a record for the next sync inside an existing transaction
+   */
+  private static queueSync(
+    transaction: IDBTransaction,
+    kind: SyncRecordKind,
+    recordId: string | number,
+    noteId: string,
+    deleted = false
+  ): void {
+    const entry: SyncQueueEntry = {
+      key: `${kind}:${recordId}`,
+      kind,
+      recordId: String(recordId),
+      noteId,
+      deleted,
+      changeId: uuidv4(),
+      queuedAt: new Date().toISOString()
+    };
+    transaction.objectStore(SYNC_QUEUE_STORE_NAME).put(entry);
+  }
+
+  private static notifyChanges(changes: NoteChange[]): void {
+    if (changes.length === 0 || !this.changeListener) return;
+    try {
+      this.changeListener(changes);
+    } catch (error) {
+      console.error('Note change listener failed:', error);
+    }
+  }
+
+  /**
+   * Remove every revision of a note inside an existing transaction
+   */
+  private static removeRevisions(transaction: IDBTransaction, noteId: string): void {
+    transaction.objectStore(REVISION_STORE_NAME).delete(
+      IDBKeyRange.bound([noteId], [noteId, []])
+    );
+  }
+
+  /**
+   * Pull inline image data out of attachments
+   * Returns the references to keep on the note and the Blobs to store.
+   */
+  private static splitAttachmentData(
+    noteId: string,
+    attachments: Attachment[]
+  ): { references: Attachment[]; data: AttachmentData[] } {
+    const data: AttachmentData[] = [];
+    const references = attachments.map(attachment => {
+      if (!attachment.screenshotData) return attachment;
+      data.push({
+        id: attachment.id,
+        noteId,
+        data: dataUrlToBlob(attachment.screenshotData),
+        ...(attachment.originalData ? { original: dataUrlToBlob(attachment.originalData) } : {})
+      });
+      return createAttachmentReference(attachment) as Attachment;
+    });
+    return { references, data };
+  }
+
+  /**
+   * Store image data and queue it for sync inside an existing transaction
+   */
+  private static writeAttachmentData(transaction: IDBTransaction, data: AttachmentData[]): void {
+    const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+    data.forEach(record => {
+      attachmentStore.put(record);
+      this.queueSync(transaction, 'attachment', record.id, record.noteId);
+    });
+  }
+
+  /**
+   * Remove the image data of every attachment of a note inside an existing transaction
+   */
+  private static removeAttachmentData(transaction: IDBTransaction, noteId: string): void {
+    const index = transaction.objectStore(ATTACHMENT_STORE_NAME).index('noteId');
+    const cursorRequest = index.openKeyCursor(IDBKeyRange.only(noteId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        transaction.objectStore(ATTACHMENT_STORE_NAME).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  /**
+   * Remove every posting for a note inside an existing transaction
+   */
+  private static removeFromIndex(transaction: IDBTransaction, noteId: string): void {
+    const index = transaction.objectStore(SEARCH_STORE_NAME).index('noteId');
+    const cursorRequest = index.openKeyCursor(IDBKeyRange.only(noteId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        transaction.objectStore(SEARCH_STORE_NAME).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  /**
+   * Replace the postings for a note inside an existing transaction
+   */
+  private static writeToIndex(transaction: IDBTransaction, note: Note): void {
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    // Trashed notes stay out of search results, and encrypted notes out of
+    // the index altogether since postings would give their words away
+    const postings = note.deletedAt || isEncryptedText(note.content)
+      ? []
+      : buildPostings(note.id, note.title, note.content);
+    const index = searchStore.index('noteId');
+    const cursorRequest = index.openKeyCursor(IDBKeyRange.only(note.id));
+
+    // Delete stale postings first, then write the fresh ones
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        searchStore.delete(cursor.primaryKey);
+        cursor.continue();
+      } else {
+        postings.forEach(posting => searchStore.put(posting));
+      }
+    };
+  }
+
+  /**
+   * Collect postings for a term, optionally matching it as a prefix
+   */
+  private static getPostings(
+    store: IDBObjectStore,
+    term: string,
+    prefix: boolean
+  ): Promise<SearchPosting[]> {
+    return new Promise((resolve, reject) => {
+      const range = prefix
+        ? IDBKeyRange.bound([term], [term + '\uffff'])
+        : IDBKeyRange.bound([term], [term, []]);
+      const request = store.getAll(range);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Rebuild the search index from scratch
+   */
+  static async rebuildSearchIndex(): Promise<number> {
+    const notes = (await this.getAllNoteRecords())
+      .filter(note => !note.deletedAt && !isEncryptedText(note.content));
+    const db = await this.getDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SEARCH_STORE_NAME, 'readwrite');
+      const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+      searchStore.clear();
+      notes.forEach(note => {
+        buildPostings(note.id, note.title, note.content)
+          .forEach(posting => searchStore.put(posting));
+      });
+
+      transaction.oncomplete = () => resolve(notes.length);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Look terms up in the search index
+   */
+  private static async getIndexSearchSource(): Promise<SearchSource> {
+    const db = await this.getDB();
+    const transaction = db.transaction([STORE_NAME, SEARCH_STORE_NAME], 'readonly');
+    const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+    const notesStore = transaction.objectStore(STORE_NAME);
+
+    const totalNotes = await new Promise<number>((resolve, reject) => {
+      const request = notesStore.count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return {
+      totalNotes,
+      getPostings: (term, prefix) => this.getPostings(searchStore, term, prefix),
+      getNote: noteId => new Promise<Note | undefined>((resolve, reject) => {
+        const request = notesStore.get(noteId);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+    };
+  }
+
+  /**
+   * Build postings in memory from the decrypted notes
+   * Encrypted notes have no index, so the vault is searched by scanning it.
+   */
+  private static async getDecryptedSearchSource(key: CryptoKey): Promise<SearchSource> {
+    const records = (await this.getAllNoteRecords()).filter(note => !note.deletedAt);
+    const notes = await Promise.all(records.map(note => this.decryptNote(note, key)));
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    const postings = notes.flatMap(note => buildPostings(note.id, note.title, note.content));
+
+    return {
+      totalNotes: notes.length,
+      getPostings: async (term, prefix) => postings.filter(posting =>
+        prefix ? posting.token.startsWith(term) : posting.token === term
+      ),
+      getNote: async noteId => notesById.get(noteId)
+    };
+  }
+
+  /**
+   * Search notes by title and content
+   * Results are ranked with TF-IDF, title matches weighted higher,
+   * and come with a highlighted snippet of the matching content.
+   */
+  static async searchNotes(query: string, options: NoteSearchOptions = {}): Promise<NoteSearchResult[]> {
+    const {
+      limit = 50,
+      prefix = true,
+      matchAll = true,
+      snippetLength = 120
+    } = options;
+
+    // Keep stop words when they're all the user typed
+    let terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      terms = Array.from(new Set(tokenize(query, true)));
+    }
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const key = await VaultSession.getKey();
+    const source = key ? await this.getDecryptedSearchSource(key) : await this.getIndexSearchSource();
+    const { totalNotes } = source;
+
+    const scores = new Map<string, { score: number; terms: Set<string> }>();
+
+    await Promise.all(terms.map(async (term, index) => {
+      // Only the last term is treated as a prefix (the one still being typed)
+      const isPrefix = prefix && index === terms.length - 1;
+      const postings = await source.getPostings(term, isPrefix);
+      const documentFrequency = new Set(postings.map(p => p.noteId)).size;
+      const idf = Math.log(1 + totalNotes / Math.max(1, documentFrequency));
+
+      postings.forEach(posting => {
+        const weight = posting.token === term ? 1 : PREFIX_MATCH_WEIGHT;
+        const tf = (posting.titleCount * TITLE_WEIGHT + posting.contentCount) /
+          (1 + Math.log(1 + posting.length));
+        const entry = scores.get(posting.noteId) || { score: 0, terms: new Set<string>() };
+        entry.score += idf * tf * weight;
+        entry.terms.add(term);
+        scores.set(posting.noteId, entry);
+      });
+    }));
+
+    const ranked = Array.from(scores.entries())
+      .filter(([, entry]) => !matchAll || entry.terms.size === terms.length)
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, limit);
+
+    const notes = await Promise.all(ranked.map(([noteId]) => source.getNote(noteId)));
+
+    const results: NoteSearchResult[] = [];
+    ranked.forEach(([, entry], index) => {
+      const note = notes[index];
+      if (!note || note.deletedAt) return;
+
+      const { snippet, highlights } = buildSnippet(
+        extractPlainText(note.content),
+        terms,
+        snippetLength,
+        prefix
+      );
+
+      results.push({
+        note: {
+          ...note,
+          attachments: note.attachments?.map(createAttachmentReference)
+        },
+        score: entry.score,
+        snippet,
+        highlights,
+        titleHighlights: findHighlights(note.title, terms, prefix),
+        matchedTerms: Array.from(entry.terms)
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Read every store except the search index
+   * Image data is converted to data URLs so the snapshot can be serialized.
+   * Records are exported as stored, so a vault's snapshot stays encrypted.
+   */
+  static async exportDatabase(): Promise<DatabaseSnapshot> {
+    const db = await this.getDB();
+    const transaction = db.transaction(
+      [STORE_NAME, NOTEBOOK_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME],
+      'readonly'
+    );
+    const getAll = <T>(storeName: string) => new Promise<T[]>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const [notes, notebooks, revisions, attachmentData] = await Promise.all([
+      getAll<Note>(STORE_NAME),
+      getAll<Notebook>(NOTEBOOK_STORE_NAME),
+      getAll<NoteRevision>(REVISION_STORE_NAME),
+      getAll<AttachmentData>(ATTACHMENT_STORE_NAME)
+    ]);
+    const attachments = await Promise.all(attachmentData.map(async record => ({
+      id: record.id,
+      noteId: record.noteId,
+      data: await blobToDataUrl(record.data),
+      ...(record.encryptedType ? { encryptedType: record.encryptedType } : {})
+    })));
+
+    return { notes, notebooks, revisions, attachments };
+  }
+
+  /**
+   * Work out which notes of a snapshot a merge would add, update or keep
+   */
+  static async planDatabaseMerge(notes: Note[]): Promise<DatabaseMergePlan> {
+    return this.planMerge(await this.getAllNoteRecords(), notes);
+  }
+
+  /**
+   * Write a snapshot back into the database in a single transaction
+   * Replace clears every store first and writes the records as they are;
+   * the vault settings come back with the rest of the backup's storage.
+   * Notes the snapshot doesn't have are queued for purging, so sync removes
+   * them from the server and other devices too rather than leaving them
+   * behind there. The sync cursors are kept as they are.
+   * Merge adds missing notes and notebooks, and overwrites a note only when
+   * the snapshot has a newer version; the revisions and image data of the
+   * other notes are left alone. Merged notes are re-encrypted for the
+   * current vault, so an encrypted snapshot must use the same passphrase.
+   */
+  static async restoreDatabase(snapshot: DatabaseSnapshot, mode: DatabaseRestoreMode): Promise<DatabaseMergePlan> {
+    if (mode === 'merge') {
+      snapshot = await this.recryptSnapshotForMerge(snapshot);
+    }
+
+    const existingNotes = mode === 'replace' ? [] : await this.getAllNoteRecords();
+    const snapshotNoteIds = new Set(snapshot.notes.map(note => note.id));
+    const droppedNoteIds = mode === 'replace'
+      ? (await this.getAllNoteRecords()).map(note => note.id).filter(id => !snapshotNoteIds.has(id))
+      : [];
+    const existingNotebookIds = new Set(
+      mode === 'replace' ? [] : (await this.getAllNotebooks()).map(notebook => notebook.id)
+    );
+    const plan = this.planMerge(existingNotes, snapshot.notes);
+    const written = new Set([...plan.added, ...plan.updated]);
+
+    // Decode image data before opening the transaction, which can't wait on other work
+    const attachmentData: AttachmentData[] = snapshot.attachments
+      .filter(record => written.has(record.noteId))
+      .map(record => ({
+        id: record.id,
+        noteId: record.noteId,
+        data: dataUrlToBlob(record.data),
+        ...(record.encryptedType ? { encryptedType: record.encryptedType } : {})
+      }));
+    const notes: Note[] = snapshot.notes
+      .filter(note => written.has(note.id))
+      .map(note => {
+        const { references, data } = this.splitAttachmentData(note.id, note.attachments || []);
+        attachmentData.push(...data);
+        return {
+          ...note,
+          attachments: references,
+          tags: normalizeTags(note.tags),
+          notebookId: note.notebookId || null
+        };
+      });
+
+    // Image data of attachments the restored version no longer has
+    const staleAttachmentIds: number[] = [];
+    existingNotes.filter(note => written.has(note.id)).forEach(existing => {
+      const restored = notes.find(note => note.id === existing.id);
+      const keptIds = new Set((restored?.attachments || []).map(attachment => attachment.id));
+      (existing.attachments || [])
+        .filter(attachment => !keptIds.has(attachment.id))
+        .forEach(attachment => staleAttachmentIds.push(attachment.id));
+    });
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const storeNames = [
+        STORE_NAME,
+        SEARCH_STORE_NAME,
+        NOTEBOOK_STORE_NAME,
+        REVISION_STORE_NAME,
+        ATTACHMENT_STORE_NAME,
+        SYNC_QUEUE_STORE_NAME,
+        CONFLICT_STORE_NAME
+      ];
+      const transaction = db.transaction(storeNames, 'readwrite');
+      if (mode === 'replace') {
+        storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+      }
+
+      const notebookStore = transaction.objectStore(NOTEBOOK_STORE_NAME);
+      snapshot.notebooks
+        .filter(notebook => !existingNotebookIds.has(notebook.id))
+        .forEach(notebook => notebookStore.put(notebook));
+
+      const notesStore = transaction.objectStore(STORE_NAME);
+      notes.forEach(note => {
+        notesStore.put({ ...note, syncStatus: 'pending' });
+        this.writeToIndex(transaction, note);
+        this.queueSync(transaction, 'note', note.id, note.id);
+      });
+      droppedNoteIds.forEach(id => this.queueSync(transaction, 'note', id, id, true));
+
+      const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+      snapshot.revisions
+        .filter(revision => written.has(revision.noteId))
+        .forEach(revision => revisionStore.put(revision));
+
+      const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+      staleAttachmentIds.forEach(id => attachmentStore.delete(id));
+      this.writeAttachmentData(transaction, attachmentData);
+      staleAttachmentIds.forEach(id => {
+        const owner = existingNotes.find(note => note.attachments?.some(attachment => attachment.id === id));
+        this.queueSync(transaction, 'attachment', id, owner?.id ?? '', true);
+      });
+
+      transaction.oncomplete = () => {
+        this.notifyChanges([
+          ...notes.map(note => ({
+            kind: plan.updated.includes(note.id) ? 'updated' as const : 'created' as const,
+            noteId: note.id,
+            version: note.version
+          })),
+          ...droppedNoteIds.map(noteId => ({ kind: 'deleted' as const, noteId }))
+        ]);
+        resolve(plan);
+      };
+      transaction.onerror = () => {
+        console.error('Failed to restore database:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Decrypt a snapshot with the current key and encrypt it again the same way
+   * new notes would be, so merged records match the rest of the database
+   */
+  private static async recryptSnapshotForMerge(snapshot: DatabaseSnapshot): Promise<DatabaseSnapshot> {
+    const key = await VaultSession.getKey();
+    try {
+      const notes = await Promise.all(snapshot.notes.map(async note =>
+        this.encryptNote(await this.decryptNote(note, key), key)
+      ));
+      const revisions = await Promise.all(snapshot.revisions.map(async revision =>
+        this.encryptRevision(await this.decryptRevision(revision, key), key)
+      ));
+      const attachments = await Promise.all(snapshot.attachments.map(async record => {
+        const [stored] = await this.encryptAttachmentData([{
+          id: record.id,
+          noteId: record.noteId,
+          data: await this.decryptAttachmentData({ ...record, data: dataUrlToBlob(record.data) }, key)
+        }], key);
+        return {
+          id: stored.id,
+          noteId: stored.noteId,
+          data: await blobToDataUrl(stored.data),
+          ...(stored.encryptedType ? { encryptedType: stored.encryptedType } : {})
+        };
+      }));
+      return { ...snapshot, notes, revisions, attachments };
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) {
+        throw new Error('The backup is encrypted with a different passphrase; restore it with Replace instead');
+      }
+      if (error instanceof VaultLockedError && !key) {
+        throw new Error('The backup is encrypted; turn on the vault or restore it with Replace instead');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypt everything with one key and encrypt it with another, in one transaction
+   * Pass null as fromKey for a plaintext database and null as toKey to leave
+   * it decrypted. The search index is emptied while encrypted and rebuilt
+   * once the database is plaintext again.
+   */
+  static async recryptDatabase(fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<number> {
+    const snapshot = await this.exportDatabase();
+    const notes = await Promise.all(snapshot.notes.map(async note =>
+      this.encryptNote(await this.decryptNote(note, fromKey), toKey)
+    ));
+    const revisions = await Promise.all(snapshot.revisions.map(async revision =>
+      this.encryptRevision(await this.decryptRevision(revision, fromKey), toKey)
+    ));
+    // Read from the store rather than the snapshot, which leaves out unannotated originals
+    const attachmentData = await this.encryptAttachmentData(
+      await Promise.all((await this.getAllAttachmentRecords()).map(async record => {
+        const original = await this.decryptOriginalData(record, fromKey);
+        return {
+          id: record.id,
+          noteId: record.noteId,
+          data: await this.decryptAttachmentData(record, fromKey),
+          ...(original ? { original } : {})
+        };
+      })),
+      toKey
+    );
+    // The other side of a conflict was stored with the old key like everything else
+    const conflicts = await Promise.all((await this.getAllConflictRecords()).map(async conflict => ({
+      ...conflict,
+      theirs: await this.encryptNote(await this.decryptNote(conflict.theirs, fromKey), toKey)
+    })));
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME, CONFLICT_STORE_NAME],
+        'readwrite'
+      );
+      const notesStore = transaction.objectStore(STORE_NAME);
+      const searchStore = transaction.objectStore(SEARCH_STORE_NAME);
+      const revisionStore = transaction.objectStore(REVISION_STORE_NAME);
+
+      // Every record changes, so the server gets the new ciphertext too
+      searchStore.clear();
+      notes.forEach(note => {
+        notesStore.put({ ...note, syncStatus: 'pending' });
+        this.queueSync(transaction, 'note', note.id, note.id);
+        if (!note.deletedAt && !isEncryptedText(note.content)) {
+          buildPostings(note.id, note.title, note.content).forEach(posting => searchStore.put(posting));
+        }
+      });
+      revisions.forEach(revision => revisionStore.put(revision));
+      this.writeAttachmentData(transaction, attachmentData);
+      const conflictStore = transaction.objectStore(CONFLICT_STORE_NAME);
+      conflicts.forEach(conflict => conflictStore.put(conflict));
+
+      transaction.oncomplete = () => resolve(notes.length);
+      transaction.onerror = () => {
+        console.error('Failed to re-encrypt database:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * IDs of the notes with a sync conflict waiting to be resolved
+   */
+  static async getConflictIds(): Promise<string[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(CONFLICT_STORE_NAME, 'readonly').objectStore(CONFLICT_STORE_NAME).getAllKeys();
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * The other side of a sync conflict, or null when the note has none
+   */
+  static async getConflict(noteId: string): Promise<NoteConflict | null> {
+    const key = await VaultSession.getKey();
+    const conflict = await this.getConflictRecord(noteId);
+    return conflict ? { ...conflict, theirs: await this.decryptNote(conflict.theirs, key) } : null;
+  }
+
+  private static async getConflictRecord(noteId: string): Promise<NoteConflict | null> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(CONFLICT_STORE_NAME, 'readonly').objectStore(CONFLICT_STORE_NAME).get(noteId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Local changes waiting to be pushed, oldest first
+   */
+  static async getSyncQueue(limit?: number): Promise<SyncQueueEntry[]> {
+    const db = await this.getDB();
+    const entries = await new Promise<SyncQueueEntry[]>((resolve, reject) => {
+      const request = db.transaction(SYNC_QUEUE_STORE_NAME, 'readonly').objectStore(SYNC_QUEUE_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    return limit !== undefined ? entries.slice(0, limit) : entries;
+  }
+
+  static async getSyncQueueSize(): Promise<number> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(SYNC_QUEUE_STORE_NAME, 'readonly').objectStore(SYNC_QUEUE_STORE_NAME).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * A note as stored, for pushing to the sync server
+   */
+  static async getSyncNote(id: string): Promise<Note | null> {
+    return this.getNoteRecord(id);
+  }
+
+  /**
+   * The stored image data of an attachment as a data URL, for pushing to the sync server
+   */
+  static async getSyncAttachment(id: number): Promise<RemoteAttachmentChange | null> {
+    const db = await this.getDB();
+    const record = await new Promise<AttachmentData | undefined>((resolve, reject) => {
+      const request = db.transaction(ATTACHMENT_STORE_NAME, 'readonly').objectStore(ATTACHMENT_STORE_NAME).get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!record) return null;
+    return {
+      id: record.id,
+      noteId: record.noteId,
+      data: await blobToDataUrl(record.data),
+      ...(record.encryptedType ? { encryptedType: record.encryptedType } : {})
+    };
+  }
+
+  /**
+   * Drop pushed entries from the queue and mark their notes as synced
+   * An entry that was queued again while the push was running has a new
+   * changeId and stays for the next run.
+   */
+  static async completeSyncEntries(entries: SyncQueueEntry[]): Promise<void> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SYNC_QUEUE_STORE_NAME, STORE_NAME], 'readwrite');
+      const queueStore = transaction.objectStore(SYNC_QUEUE_STORE_NAME);
+      const notesStore = transaction.objectStore(STORE_NAME);
+
+      entries.forEach(entry => {
+        const request = queueStore.get(entry.key);
+        request.onsuccess = () => {
+          const current = request.result as SyncQueueEntry | undefined;
+          if (!current || current.changeId !== entry.changeId) return;
+          queueStore.delete(entry.key);
+          if (entry.kind !== 'note' || entry.deleted) return;
+
+          const noteRequest = notesStore.get(entry.recordId);
+          noteRequest.onsuccess = () => {
+            if (noteRequest.result) {
+              notesStore.put({ ...noteRequest.result, syncStatus: 'synced' });
+            }
+          };
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Queue every note and attachment, e.g. after switching to another sync server
+   */
+  static async queueAllForSync(): Promise<number> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      let queued = 0;
+
+      const noteCursor = transaction.objectStore(STORE_NAME).openCursor();
+      noteCursor.onsuccess = () => {
+        const cursor = noteCursor.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, syncStatus: 'pending' });
+        this.queueSync(transaction, 'note', cursor.primaryKey as string, cursor.primaryKey as string);
+        queued++;
+        cursor.continue();
+      };
+
+      // Key cursor over the noteId index, so the image data isn't loaded
+      const attachmentCursor = transaction.objectStore(ATTACHMENT_STORE_NAME).index('noteId').openKeyCursor();
+      attachmentCursor.onsuccess = () => {
+        const cursor = attachmentCursor.result;
+        if (!cursor) return;
+        this.queueSync(transaction, 'attachment', cursor.primaryKey as number, cursor.key as string);
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(queued);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Write notes pulled from the sync server without queueing them again
+   * A newer remote copy replaces the local one, which is kept as a
+   * revision, and a purged one is deleted. When the local note has a queued
+   * change too, a remote copy that isn't one of our own earlier versions is
+   * stored as a conflict for the user to resolve; the local note stays.
+   */
+  static async applyRemoteNotes(changes: RemoteNoteChange[]): Promise<RemoteApplyResult> {
+    const retention = await RevisionSettings.getRetention();
+    const notebookIds = new Set((await this.getAllNotebooks()).map(notebook => notebook.id));
+    const timestamp = formatTimestamp();
+    const result: RemoteApplyResult = { applied: [], skipped: [], conflicts: [] };
+    const appliedChanges: NoteChange[] = [];
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, SEARCH_STORE_NAME, REVISION_STORE_NAME, ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME, CONFLICT_STORE_NAME],
+        'readwrite'
+      );
+      const notesStore = transaction.objectStore(STORE_NAME);
+
+      changes.forEach(({ note, purged }) => {
+        const record: Note = {
+          ...note,
+          tags: normalizeTags(note.tags),
+          // Notebooks aren't synced; notes filed in an unknown one show up unfiled
+          notebookId: note.notebookId && notebookIds.has(note.notebookId) ? note.notebookId : null,
+          syncStatus: 'synced'
+        };
+        const queueRequest = transaction.objectStore(SYNC_QUEUE_STORE_NAME).get(`note:${note.id}`);
+        const existingRequest = notesStore.get(note.id);
+
+        existingRequest.onsuccess = () => {
+          const existing = existingRequest.result as Note | undefined;
+          if (queueRequest.result) {
+            if (purged || !existing || this.isSeenVersion(note, existing)) {
+              result.skipped.push(note.id);
+              return;
+            }
+            // Our own pushes come back on the next pull; those match a revision
+            const revisionRequest = transaction.objectStore(REVISION_STORE_NAME).get([note.id, note.version]);
+            revisionRequest.onsuccess = () => {
+              const revision = revisionRequest.result as NoteRevision | undefined;
+              if (revision && revision.updatedAt === note.updatedAt) {
+                result.skipped.push(note.id);
+                return;
+              }
+              const conflict: NoteConflict = { noteId: note.id, theirs: record, detectedAt: new Date().toISOString() };
+              transaction.objectStore(CONFLICT_STORE_NAME).put(conflict);
+              result.conflicts.push(note.id);
+            };
+            return;
+          }
+
+          if (purged) {
+            if (existing) {
+              this.removeNote(transaction, note.id);
+              result.applied.push(note.id);
+              appliedChanges.push({ kind: 'deleted', noteId: note.id });
+            }
+            return;
+          }
+          if (existing && !this.isNewerVersion(note, existing)) return;
+
+          notesStore.put(record);
+          this.writeToIndex(transaction, record);
+          // Same version means it was only trashed, restored or moved, so nothing to archive
+          if (existing && existing.version < record.version) {
+            this.recordRevision(transaction, existing, timestamp, retention);
+          }
+          result.applied.push(note.id);
+          appliedChanges.push(record.deletedAt
+            ? { kind: 'deleted', noteId: note.id }
+            : { kind: existing && !existing.deletedAt ? 'updated' : 'created', noteId: note.id, version: record.version });
+        };
+      });
+
+      transaction.oncomplete = () => {
+        this.notifyChanges(appliedChanges);
+        resolve(result);
+      };
+      transaction.onerror = () => {
+        console.error('Failed to apply synced notes:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Write or delete attachment image data pulled from the sync server
+   * Attachments with a queued local change are skipped like notes are.
+   */
+  static async applyRemoteAttachments(changes: RemoteAttachmentChange[]): Promise<RemoteApplyResult> {
+    const records = changes.map(change => ({
+      change,
+      record: change.data === null ? null : {
+        id: change.id,
+        noteId: change.noteId,
+        data: dataUrlToBlob(change.data),
+        ...(change.encryptedType ? { encryptedType: change.encryptedType } : {})
+      } as AttachmentData
+    }));
+    const result: RemoteApplyResult = { applied: [], skipped: [], conflicts: [] };
+
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ATTACHMENT_STORE_NAME, SYNC_QUEUE_STORE_NAME], 'readwrite');
+      const attachmentStore = transaction.objectStore(ATTACHMENT_STORE_NAME);
+
+      records.forEach(({ change, record }) => {
+        const queueRequest = transaction.objectStore(SYNC_QUEUE_STORE_NAME).get(`attachment:${change.id}`);
+        queueRequest.onsuccess = () => {
+          if (queueRequest.result) {
+            result.skipped.push(String(change.id));
+            return;
+          }
+          if (record) {
+            attachmentStore.put(record);
+          } else {
+            attachmentStore.delete(change.id);
+          }
+          result.applied.push(String(change.id));
+        };
+      });
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => {
+        console.error('Failed to apply synced attachments:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Encrypt the title, content and attachments of a note (no-op without a key)
+   */
+  private static async encryptNote(note: Note, key: CryptoKey | null): Promise<Note> {
+    if (!key) return note;
+    return {
+      ...note,
+      title: await encryptText(key, note.title),
+      content: await encryptText(key, note.content),
+      attachments: note.attachments && await Promise.all(
+        note.attachments.map(attachment => this.encryptAttachment(attachment, key))
+      )
+    };
+  }
+
+  private static async decryptNote(note: Note, key: CryptoKey | null): Promise<Note> {
+    return {
+      ...note,
+      title: await this.decryptField(note.title, key),
+      content: await this.decryptField(note.content, key),
+      attachments: note.attachments && await Promise.all(
+        note.attachments.map(attachment => this.decryptAttachment(attachment, key))
+      )
+    };
+  }
+
+  /**
+   * Encrypt what an attachment reference reveals about the page: its
+   * thumbnail and unannotated image, the page it came from, the text of a
+   * picked element and the annotations drawn over it
+   */
+  private static async encryptAttachment(attachment: Attachment, key: CryptoKey): Promise<Attachment> {
+    const { annotations, ...rest } = attachment;
+    const element = attachment.metadata?.element;
+    return {
+      ...rest,
+      url: attachment.url && await encryptText(key, attachment.url),
+      thumbnailData: attachment.thumbnailData && await encryptText(key, attachment.thumbnailData),
+      originalData: attachment.originalData && await encryptText(key, attachment.originalData),
+      ...(annotations ? { encryptedAnnotations: await encryptText(key, JSON.stringify(annotations)) } : {}),
+      source: attachment.source && {
+        url: await encryptText(key, attachment.source.url),
+        title: await encryptText(key, attachment.source.title)
+      },
+      metadata: attachment.metadata && {
+        ...attachment.metadata,
+        element: element && { ...element, text: await encryptText(key, element.text) }
+      }
+    };
+  }
+
+  private static async decryptAttachment(attachment: Attachment, key: CryptoKey | null): Promise<Attachment> {
+    const { encryptedAnnotations, ...rest } = attachment;
+    const element = attachment.metadata?.element;
+    return {
+      ...rest,
+      url: attachment.url && await this.decryptField(attachment.url, key),
+      thumbnailData: attachment.thumbnailData && await this.decryptField(attachment.thumbnailData, key),
+      originalData: attachment.originalData && await this.decryptField(attachment.originalData, key),
+      ...(encryptedAnnotations
+        ? { annotations: JSON.parse(await this.decryptField(encryptedAnnotations, key)) }
+        : {}),
+      source: attachment.source && {
+        url: await this.decryptField(attachment.source.url, key),
+        title: await this.decryptField(attachment.source.title, key)
+      },
+      metadata: attachment.metadata && {
+        ...attachment.metadata,
+        element: element && { ...element, text: await this.decryptField(element.text, key) }
+      }
+    };
+  }
+
+  private static async encryptRevision(revision: NoteRevision, key: CryptoKey | null): Promise<NoteRevision> {
+    if (!key) return revision;
+    return {
+      ...revision,
+      title: await encryptText(key, revision.title),
+      content: await encryptText(key, revision.content)
+    };
+  }
+
+  private static async decryptRevision(revision: NoteRevision, key: CryptoKey | null): Promise<NoteRevision> {
+    return {
+      ...revision,
+      title: await this.decryptField(revision.title, key),
+      content: await this.decryptField(revision.content, key)
+    };
+  }
+
+  // Plaintext passes through, so notes written before the vault was on still read
+  private static async decryptField(value: string, key: CryptoKey | null): Promise<string> {
+    if (!isEncryptedText(value)) return value;
+    if (!key) throw new VaultLockedError();
+    return decryptText(key, value);
+  }
+
+  private static async encryptAttachmentData(data: AttachmentData[], key: CryptoKey | null): Promise<AttachmentData[]> {
+    if (!key) return data;
+    return Promise.all(data.map(async record => ({
+      id: record.id,
+      noteId: record.noteId,
+      data: await encryptBlob(key, record.data),
+      encryptedType: record.data.type,
+      ...(record.original ? {
+        original: await encryptBlob(key, record.original),
+        encryptedOriginalType: record.original.type
+      } : {})
+    })));
+  }
+
+  private static async decryptAttachmentData(record: AttachmentData, key: CryptoKey | null): Promise<Blob> {
+    if (!record.encryptedType) return record.data;
+    if (!key) throw new VaultLockedError();
+    return decryptBlob(key, record.data, record.encryptedType);
+  }
+
+  private static async decryptOriginalData(record: AttachmentData, key: CryptoKey | null): Promise<Blob | null> {
+    if (!record.original) return null;
+    if (!record.encryptedOriginalType) return record.original;
+    if (!key) throw new VaultLockedError();
+    return decryptBlob(key, record.original, record.encryptedOriginalType);
+  }
+
+  /**
+   * Every note record, including the ones in the trash
+   */
+  private static async getAllNoteRecords(): Promise<Note[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static async getAllAttachmentRecords(): Promise<AttachmentData[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(ATTACHMENT_STORE_NAME, 'readonly').objectStore(ATTACHMENT_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static async getAllConflictRecords(): Promise<NoteConflict[]> {
+    const db = await this.getDB();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(CONFLICT_STORE_NAME, 'readonly').objectStore(CONFLICT_STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static planMerge(existingNotes: Note[], incomingNotes: Note[]): DatabaseMergePlan {
+    const existingById = new Map(existingNotes.map(note => [note.id, note]));
+    const plan: DatabaseMergePlan = { added: [], updated: [], kept: [] };
+
+    incomingNotes.forEach(note => {
+      const existing = existingById.get(note.id);
+      if (!existing) {
+        plan.added.push(note.id);
+      } else if (this.isNewerVersion(note, existing)) {
+        plan.updated.push(note.id);
+      } else {
+        plan.kept.push(note.id);
+      }
+    });
+    return plan;
+  }
+
+  // Our own push coming back, or a trash, restore or move we've already gone past
+  private static isSeenVersion(note: Note, existing: Note): boolean {
+    return note.version === existing.version && note.updatedAt <= existing.updatedAt;
+  }
+
+  // A higher version wins; on a tie the later edit does
+  private static isNewerVersion(note: Note, existing: Note): boolean {
+    return note.version > existing.version ||
+      (note.version === existing.version && note.updatedAt > existing.updatedAt);
   }
 
   static async closeConnection(): Promise<void> {
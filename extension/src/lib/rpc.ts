@@ -0,0 +1,263 @@
+import type { NotesDB } from './notesDB';
+import type { BackupManager } from './BackupManager';
+import type { VaultManager } from './VaultManager';
+import type { SyncEngine } from './SyncEngine';
+import { sendRuntimeMessage } from './chunkedTransfer';
+
+/**
+ * Contract for the operations the UI runs in the background script
+ *
+ * Each message type is a service backed by one static class. Only the
+ * methods listed in RPC_METHODS can be called, and their params are checked
+ * before the call; the schemas are typed against the classes, so a proxy
+ * passing the wrong arguments, or a schema missing one, fails to compile.
+ * Responses carry the result as { data } or a coded error as { error }.
+ */
+
+export interface RpcServices {
+  DB_OPERATION: typeof NotesDB;
+  BACKUP_OPERATION: typeof BackupManager;
+  VAULT_OPERATION: typeof VaultManager;
+  SYNC_OPERATION: typeof SyncEngine;
+}
+
+export type RpcService = keyof RpcServices;
+
+export type RpcErrorCode =
+  | 'INVALID_REQUEST' // Not a well-formed request
+  | 'UNKNOWN_METHOD' // Method isn't on the allowlist
+  | 'INVALID_PARAMS' // Params failed validation
+  | 'NOT_FOUND'
+  | 'VERSION_CONFLICT'
+  | 'VAULT_LOCKED'
+  | 'WRONG_PASSPHRASE'
+  | 'NO_RESPONSE' // The background script didn't answer
+  | 'FAILED'; // Anything else; see the message
+
+export interface RpcErrorPayload {
+  code: RpcErrorCode;
+  message: string;
+}
+
+export type RpcResponse<T = unknown> = { data: T } | { error: RpcErrorPayload };
+
+export class RpcError extends Error {
+  constructor(public readonly code: RpcErrorCode, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export const isRpcError = (error: unknown, code: RpcErrorCode): error is RpcError =>
+  error instanceof RpcError && error.code === code;
+
+// Param checks
+
+type ParamCheck = (value: unknown) => boolean;
+
+const isString: ParamCheck = value => typeof value === 'string';
+const isNumber: ParamCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isObject: ParamCheck = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isBoolean: ParamCheck = value => typeof value === 'boolean';
+const optional = (check: ParamCheck): ParamCheck => value => value === undefined || check(value);
+const nullable = (check: ParamCheck): ParamCheck => value => value === null || check(value);
+const arrayOf = (check: ParamCheck): ParamCheck => value => Array.isArray(value) && value.every(check);
+const oneOf = (...allowed: unknown[]): ParamCheck => value => allowed.includes(value);
+const shape = (fields: Record<string, ParamCheck>): ParamCheck => value =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check((value as Record<string, unknown>)[key]));
+
+const isAttachment = shape({ id: isNumber, type: oneOf('url', 'screenshot') });
+const isNote = shape({ id: isString, title: isString, content: isString, version: isNumber });
+const isNotebook = shape({ id: isString, name: isString });
+const isNoteParent = shape({ version: isNumber, updatedAt: isString });
+const isResolution = shape({
+  title: isString,
+  content: isString,
+  attachments: optional(arrayOf(isAttachment)),
+  tags: optional(arrayOf(isString))
+});
+const isSearchOptions = shape({
+  limit: optional(isNumber),
+  prefix: optional(isBoolean),
+  matchAll: optional(isBoolean),
+  snippetLength: optional(isNumber)
+});
+const isSyncConfig = shape({
+  enabled: optional(isBoolean),
+  provider: optional(oneOf('supabase', 'server')),
+  url: optional(isString),
+  apiKey: optional(isString),
+  accessToken: optional(isString)
+});
+const isRestoreMode = oneOf('merge', 'replace');
+
+// One check per parameter, optional ones included
+type ParamSchema<F> = F extends (...args: infer P) => unknown ? { [K in keyof P]-?: ParamCheck } : never;
+
+type ServiceSchema<S extends RpcService> = {
+  [M in keyof RpcServices[S]]?: ParamSchema<RpcServices[S][M]>;
+};
+
+export const RPC_METHODS = {
+  DB_OPERATION: {
+    getNote: [isString],
+    getAllNotes: [],
+    getTrashedNotes: [],
+    deleteNote: [isString],
+    restoreNote: [isString],
+    purgeNote: [isString],
+    purgeExpiredNotes: [isNumber],
+    searchNotes: [isString, optional(isSearchOptions)],
+    createNote: [
+      isString,
+      isString,
+      optional(arrayOf(isAttachment)),
+      optional(arrayOf(isString)),
+      optional(nullable(isString))
+    ],
+    importNote: [isNote],
+    updateNote: [
+      isString,
+      isString,
+      isString,
+      optional(isNumber),
+      optional(arrayOf(isAttachment)),
+      optional(arrayOf(isString))
+    ],
+    resolveConflict: [isString, isResolution, arrayOf(isNoteParent), isNumber],
+    addAttachment: [isString, isString, optional(isString), optional(oneOf('visible', 'full', 'area', 'element'))],
+    removeAttachment: [isString, isNumber],
+    getAttachmentData: [isNumber],
+    getOriginalAttachmentData: [isNumber],
+    getAllNotebooks: [],
+    createNotebook: [isString, optional(nullable(isString))],
+    importNotebooks: [arrayOf(isNotebook)],
+    renameNotebook: [isString, isString],
+    moveNotebook: [isString, nullable(isString)],
+    deleteNotebook: [isString],
+    moveNote: [isString, nullable(isString)],
+    getAllTags: [],
+    renameTag: [isString, isString],
+    mergeTags: [arrayOf(isString), isString],
+    getRevisions: [isString],
+    getRevision: [isString, isNumber],
+    restoreRevision: [isString, isNumber, optional(isNumber)],
+    getConflictIds: [],
+    getConflict: [isString]
+  } satisfies ServiceSchema<'DB_OPERATION'>,
+  BACKUP_OPERATION: {
+    createBackup: [],
+    previewBackup: [isString],
+    restoreBackup: [isString, isRestoreMode],
+    saveBackup: [optional(oneOf('manual'))],
+    listBackups: [],
+    getBackup: [isString],
+    deleteBackup: [isString],
+    previewSavedBackup: [isString],
+    restoreSavedBackup: [isString, isRestoreMode]
+  } satisfies ServiceSchema<'BACKUP_OPERATION'>,
+  VAULT_OPERATION: {
+    getStatus: [],
+    enable: [isString],
+    unlock: [isString],
+    lock: [],
+    changePassphrase: [isString, isString],
+    disable: [isString],
+    setAutoLock: [isNumber]
+  } satisfies ServiceSchema<'VAULT_OPERATION'>,
+  SYNC_OPERATION: {
+    getStatus: [],
+    configure: [isSyncConfig],
+    syncNow: []
+  } satisfies ServiceSchema<'SYNC_OPERATION'>
+};
+
+export type RpcMethod<S extends RpcService> = keyof typeof RPC_METHODS[S] & keyof RpcServices[S] & string;
+
+type RpcFunction<S extends RpcService, M extends RpcMethod<S>> =
+  Extract<RpcServices[S][M], (...args: any[]) => unknown>;
+
+export type RpcParams<S extends RpcService, M extends RpcMethod<S>> = Parameters<RpcFunction<S, M>>;
+export type RpcResult<S extends RpcService, M extends RpcMethod<S>> = Awaited<ReturnType<RpcFunction<S, M>>>;
+
+export interface RpcRequest {
+  type: RpcService;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * Call a background method from the UI
+ * Throws an RpcError carrying the error code when the call fails.
+ */
+export async function callRpc<S extends RpcService, M extends RpcMethod<S>>(
+  service: S,
+  method: M,
+  ...params: RpcParams<S, M>
+): Promise<RpcResult<S, M>> {
+  const request: RpcRequest = { type: service, method, params };
+  const response: RpcResponse<RpcResult<S, M>> | undefined = await sendRuntimeMessage(request);
+
+  if (!response) {
+    throw new RpcError('NO_RESPONSE', 'The background script did not respond');
+  }
+  if ('error' in response) {
+    throw new RpcError(response.error.code, response.error.message);
+  }
+  return response.data;
+}
+
+function toErrorPayload(error: unknown): RpcErrorPayload {
+  if (error instanceof RpcError) {
+    return { code: error.code, message: error.message };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'VaultLockedError') return { code: 'VAULT_LOCKED', message };
+  if (name === 'WrongPassphraseError') return { code: 'WRONG_PASSPHRASE', message };
+  if (message.startsWith('Version conflict')) return { code: 'VERSION_CONFLICT', message };
+  if (/ not found$/i.test(message)) return { code: 'NOT_FOUND', message };
+  return { code: 'FAILED', message };
+}
+
+/**
+ * Check a request against the allowlist and run it on the service's class
+ * Used by the background script; never throws.
+ */
+export async function dispatchRpc<S extends RpcService>(
+  service: S,
+  target: RpcServices[S],
+  request: unknown
+): Promise<RpcResponse> {
+  const { method, params } = (isObject(request) ? request : {}) as { method?: unknown; params?: unknown };
+  try {
+    if (typeof method !== 'string' || !Array.isArray(params)) {
+      throw new RpcError('INVALID_REQUEST', 'A request needs a method name and a params array');
+    }
+
+    const methods: Record<string, ParamCheck[]> = RPC_METHODS[service];
+    if (!Object.prototype.hasOwnProperty.call(methods, method)) {
+      throw new RpcError('UNKNOWN_METHOD', `${service} has no method ${method}`);
+    }
+
+    const checks = methods[method];
+    if (params.length > checks.length) {
+      throw new RpcError('INVALID_PARAMS', `${method} takes at most ${checks.length} params`);
+    }
+    // Messages are JSON-serialized, so a skipped optional param arrives as null
+    const args = checks.map((check, index) =>
+      params[index] === null && !check(null) && check(undefined) ? undefined : params[index]
+    );
+    const invalidIndex = checks.findIndex((check, index) => !check(args[index]));
+    if (invalidIndex !== -1) {
+      throw new RpcError('INVALID_PARAMS', `Param ${invalidIndex + 1} of ${method} is not valid`);
+    }
+
+    const handler = (target as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[method];
+    return { data: await handler.apply(target, args) };
+  } catch (error) {
+    console.error(`${service} ${String(method)} failed:`, error);
+    return { error: toErrorPayload(error) };
+  }
+}
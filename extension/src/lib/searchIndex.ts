@@ -0,0 +1,192 @@
+/**
+ * Full-text search helpers
+ *
+ * Turns note HTML into plain text, splits it into normalized tokens and
+ * builds highlighted snippets. Everything here is DOM-free so it can run in
+ * the background service worker next to NotesDB.
+ */
+
+export interface SearchPosting {
+  token: string;
+  noteId: string;
+  titleCount: number; // occurrences in the title
+  contentCount: number; // occurrences in the content
+  length: number; // total tokens in the note, used for length normalization
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface NoteSearchOptions {
+  limit?: number; // Maximum number of hits to return (default 50)
+  prefix?: boolean; // Treat the last query term as a prefix (default true)
+  matchAll?: boolean; // Require every term to match (default true)
+  snippetLength?: number; // Approximate snippet length in characters (default 120)
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with'
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Decode the handful of HTML entities contenteditable produces
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Strip markup from note content, keeping spreadsheet cell text
+ *
+ * Spreadsheet controls (+/- buttons) are dropped, and cells and block
+ * elements are separated by whitespace so their words don't run together.
+ */
+export function extractPlainText(html: string): string {
+  if (!html) return '';
+
+  return decodeEntities(
+    html
+      // Spreadsheet row/column controls only contain +/- buttons
+      .replace(/<button\b[^>]*>[\s\S]*?<\/button>/gi, ' ')
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      // Keep cells and block elements apart
+      .replace(/<\/?(td|th|tr|table|div|p|li|ul|ol|br|h[1-6])\b[^>]*>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a single term: lowercase and strip diacritics
+ */
+export function normalizeTerm(term: string): string {
+  return term
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenize(text: string, keepStopWords = false): string[] {
+  return normalizeTerm(text)
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(token => token.length > 0)
+    .filter(token => keepStopWords || !STOP_WORDS.has(token))
+    // Single latin characters are noise, but a single CJK character is a word
+    .filter(token => token.length > 1 || token.charCodeAt(0) > 0x7f);
+}
+
+/**
+ * Build the postings for a note: one entry per distinct token
+ */
+export function buildPostings(noteId: string, title: string, content: string): SearchPosting[] {
+  const titleTokens = tokenize(title);
+  const contentTokens = tokenize(extractPlainText(content));
+  const length = titleTokens.length + contentTokens.length;
+  const postings = new Map<string, SearchPosting>();
+
+  const getPosting = (token: string): SearchPosting => {
+    let posting = postings.get(token);
+    if (!posting) {
+      posting = { token, noteId, titleCount: 0, contentCount: 0, length };
+      postings.set(token, posting);
+    }
+    return posting;
+  };
+
+  titleTokens.forEach(token => getPosting(token).titleCount++);
+  contentTokens.forEach(token => getPosting(token).contentCount++);
+
+  return Array.from(postings.values());
+}
+
+/**
+ * Find the ranges in `text` where any of the given terms start a word
+ */
+export function findHighlights(text: string, terms: string[], prefix = true): SearchHighlight[] {
+  if (!text || terms.length === 0) return [];
+
+  const highlights: SearchHighlight[] = [];
+  const wordPattern = /[a-z0-9\u00c0-\uffff]+/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const word = normalizeTerm(match[0]);
+    const hit = terms.some(term => prefix ? word.startsWith(term) : word === term);
+    if (hit) {
+      highlights.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return highlights;
+}
+
+/**
+ * Cut a snippet around the first match and return it with highlight ranges
+ * relative to the snippet
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  snippetLength = 120,
+  prefix = true
+): { snippet: string; highlights: SearchHighlight[] } {
+  const allHighlights = findHighlights(text, terms, prefix);
+
+  if (text.length <= snippetLength) {
+    return { snippet: text, highlights: allHighlights };
+  }
+
+  const first = allHighlights[0];
+  let start = first ? Math.max(0, first.start - Math.floor(snippetLength / 3)) : 0;
+  let end = Math.min(text.length, start + snippetLength);
+  start = Math.max(0, end - snippetLength);
+
+  // Move the edges to word boundaries so we don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && (!first || space < first.start)) {
+      start = space + 1;
+    }
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) {
+      end = space;
+    }
+  }
+
+  const prefixEllipsis = start > 0 ? '…' : '';
+  const suffixEllipsis = end < text.length ? '…' : '';
+  const offset = start - prefixEllipsis.length;
+
+  return {
+    snippet: `${prefixEllipsis}${text.slice(start, end)}${suffixEllipsis}`,
+    highlights: allHighlights
+      .filter(h => h.start >= start && h.end <= end)
+      .map(h => ({ start: h.start - offset, end: h.end - offset }))
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Keyboard shortcuts
+ *
+ * Browser-wide shortcuts are manifest commands handled by the background
+ * script, which forwards the ones that act on the panel to the content script
+ * as PANEL_COMMAND messages. Panel shortcuts only fire while the panel has
+ * focus. The cheat sheet lists both.
+ */
+
+// Manifest commands run by the panel; toggle-panel is handled by the background script itself
+export const PANEL_COMMANDS = [
+  'new-note-tab',
+  'quick-capture-url',
+  'capture-visible-screenshot',
+  'init-screenshot-selection',
+  'save-active-tab'
+] as const;
+
+export type PanelCommand = typeof PANEL_COMMANDS[number];
+
+export const isPanelCommand = (command: unknown): command is PanelCommand =>
+  PANEL_COMMANDS.includes(command as PanelCommand);
+
+export type PanelShortcut =
+  | 'save'
+  | 'close-tab'
+  | 'next-tab'
+  | 'previous-tab'
+  | 'open-notes-manager'
+  | 'show-shortcuts';
+
+export interface ShortcutBinding<T extends string = string> {
+  id: T;
+  description: string;
+  keys: string;
+}
+
+// A registered browser command, as chrome.commands reports it
+export interface CommandBinding {
+  name: string;
+  description: string;
+  shortcut: string; // Empty when the user hasn't assigned one
+}
+
+const isMac = /Mac/i.test(navigator.platform);
+const MOD = isMac ? 'Cmd' : 'Ctrl';
+const ALT = isMac ? 'Option' : 'Alt';
+
+// Matched on event.code, since Option changes event.key on macOS
+const PANEL_SHORTCUT_KEYS: Array<ShortcutBinding<PanelShortcut> & {
+  code: string;
+  modifier: 'mod' | 'alt';
+}> = [
+  { id: 'save', description: 'Save the note', keys: `${MOD}+S`, code: 'KeyS', modifier: 'mod' },
+  { id: 'close-tab', description: 'Close the tab', keys: `${ALT}+W`, code: 'KeyW', modifier: 'alt' },
+  { id: 'next-tab', description: 'Next tab', keys: `${ALT}+]`, code: 'BracketRight', modifier: 'alt' },
+  { id: 'previous-tab', description: 'Previous tab', keys: `${ALT}+[`, code: 'BracketLeft', modifier: 'alt' },
+  { id: 'open-notes-manager', description: 'Open all notes', keys: `${ALT}+O`, code: 'KeyO', modifier: 'alt' },
+  { id: 'show-shortcuts', description: 'Show keyboard shortcuts', keys: `${ALT}+/`, code: 'Slash', modifier: 'alt' }
+];
+
+export const PANEL_SHORTCUTS: ShortcutBinding<PanelShortcut>[] =
+  PANEL_SHORTCUT_KEYS.map(({ id, description, keys }) => ({ id, description, keys }));
+
+// The panel shortcut a keydown triggers, if any
+export function matchPanelShortcut(
+  event: Pick<KeyboardEvent, 'code' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>
+): PanelShortcut | null {
+  if (event.shiftKey) return null;
+  const hasMod = isMac ? event.metaKey && !event.ctrlKey : event.ctrlKey && !event.metaKey;
+  const hasAlt = event.altKey && !event.ctrlKey && !event.metaKey;
+
+  const binding = PANEL_SHORTCUT_KEYS.find(({ code, modifier }) =>
+    event.code === code && (modifier === 'mod' ? hasMod && !event.altKey : hasAlt)
+  );
+  return binding?.id ?? null;
+}
+
+// Commands can arrive while the panel is still mounting, so they wait for a handler
+let commandHandler: ((command: PanelCommand) => void) | null = null;
+const queuedCommands: PanelCommand[] = [];
+
+export function runPanelCommand(command: PanelCommand): void {
+  if (commandHandler) {
+    commandHandler(command);
+  } else {
+    queuedCommands.push(command);
+  }
+}
+
+/**
+ * Handle panel commands forwarded by the background script
+ * Runs any that arrived before the panel was ready. Returns an unsubscribe function.
+ */
+export function onPanelCommand(handler: (command: PanelCommand) => void): () => void {
+  commandHandler = handler;
+  queuedCommands.splice(0).forEach(handler);
+  return () => {
+    if (commandHandler === handler) {
+      commandHandler = null;
+    }
+  };
+}
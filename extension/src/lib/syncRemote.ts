@@ -0,0 +1,280 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Attachment } from './Attachment';
+import type { Note, NoteParent, RemoteAttachmentChange, RemoteNoteChange } from './notesDB';
+import type { SyncConfig } from './SyncSettings';
+
+/**
+ * Tables the sync engine expects on the server
+ *
+ * server_seq comes from one sequence and is bumped on every write, so each
+ * client pulls whatever changed after the highest value it has seen.
+ * Purged notes and deleted attachments stay behind as tombstones so other
+ * devices learn about them.
+ *
+ *   create sequence sync_seq;
+ *
+ *   create table notes (
+ *     id text primary key,
+ *     title text not null default '',
+ *     content text not null default '',
+ *     is_rich_text boolean not null default false,
+ *     tags jsonb not null default '[]',
+ *     notebook_id text,
+ *     attachments jsonb not null default '[]',
+ *     created_at text not null default '',
+ *     updated_at text not null default '',
+ *     version integer not null default 1,
+ *     deleted_at text,
+ *     purged_at text,
+ *     parents jsonb,
+ *     server_seq bigint not null default nextval('sync_seq')
+ *   );
+ *
+ *   create table note_attachments (
+ *     id bigint primary key,
+ *     note_id text not null,
+ *     data text,
+ *     encrypted_type text,
+ *     deleted_at text,
+ *     server_seq bigint not null default nextval('sync_seq')
+ *   );
+ *
+ *   create function bump_server_seq() returns trigger as $$
+ *   begin new.server_seq := nextval('sync_seq'); return new; end
+ *   $$ language plpgsql;
+ *
+ *   create trigger notes_server_seq before update on notes
+ *     for each row execute function bump_server_seq();
+ *   create trigger note_attachments_server_seq before update on note_attachments
+ *     for each row execute function bump_server_seq();
+ */
+
+export const NOTES_TABLE = 'notes';
+export const ATTACHMENTS_TABLE = 'note_attachments';
+
+export interface RemoteNoteRow {
+  id: string;
+  title: string;
+  content: string;
+  is_rich_text: boolean;
+  tags: string[];
+  notebook_id: string | null;
+  attachments: Attachment[]; // References only; image data lives in note_attachments
+  created_at: string;
+  updated_at: string;
+  version: number;
+  deleted_at: string | null;
+  purged_at: string | null;
+  parents: NoteParent[] | null;
+  server_seq: number;
+}
+
+export interface RemoteAttachmentRow {
+  id: number;
+  note_id: string;
+  data: string | null; // Data URL, null once deleted
+  encrypted_type: string | null;
+  deleted_at: string | null;
+  server_seq: number;
+}
+
+// The server assigns server_seq
+export type RemoteNoteInput = Omit<RemoteNoteRow, 'server_seq'>;
+export type RemoteAttachmentInput = Omit<RemoteAttachmentRow, 'server_seq'>;
+
+/**
+ * What the sync engine needs from a server
+ * SupabaseSyncRemote and ServerSyncRemote talk to real backends; anything
+ * else implementing this, such as an in-memory stand-in, can be passed to
+ * SyncEngine.sync.
+ */
+export interface SyncRemote {
+  pushNotes(rows: RemoteNoteInput[]): Promise<void>;
+  purgeNote(noteId: string, purgedAt: string): Promise<void>;
+  pushAttachment(row: RemoteAttachmentInput): Promise<void>;
+  pullNotes(after: number, limit: number): Promise<RemoteNoteRow[]>;
+  pullAttachments(after: number, limit: number): Promise<RemoteAttachmentRow[]>;
+}
+
+export const noteToRow = (note: Note): RemoteNoteInput => ({
+  id: note.id,
+  title: note.title,
+  content: note.content,
+  is_rich_text: !!note.isRichText,
+  tags: note.tags || [],
+  notebook_id: note.notebookId ?? null,
+  attachments: note.attachments || [],
+  created_at: note.createdAt,
+  updated_at: note.updatedAt,
+  version: note.version,
+  deleted_at: note.deletedAt ?? null,
+  purged_at: null,
+  parents: note.parents ?? null
+});
+
+export const rowToNoteChange = (row: RemoteNoteRow): RemoteNoteChange => ({
+  note: {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    isRichText: row.is_rich_text,
+    tags: row.tags || [],
+    notebookId: row.notebook_id,
+    attachments: row.attachments || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    version: row.version,
+    ...(row.deleted_at ? { deletedAt: row.deleted_at } : {}),
+    ...(row.parents ? { parents: row.parents } : {})
+  },
+  purged: row.purged_at !== null
+});
+
+export const attachmentToRow = (attachment: RemoteAttachmentChange): RemoteAttachmentInput => ({
+  id: attachment.id,
+  note_id: attachment.noteId,
+  data: attachment.data,
+  encrypted_type: attachment.encryptedType ?? null,
+  deleted_at: attachment.data === null ? new Date().toISOString() : null
+});
+
+export const rowToAttachmentChange = (row: RemoteAttachmentRow): RemoteAttachmentChange => ({
+  id: Number(row.id),
+  noteId: row.note_id,
+  data: row.deleted_at ? null : row.data,
+  ...(row.encrypted_type ? { encryptedType: row.encrypted_type } : {})
+});
+
+export class SupabaseSyncRemote implements SyncRemote {
+  private client: SupabaseClient;
+
+  constructor(config: Pick<SyncConfig, 'url' | 'apiKey' | 'accessToken'>) {
+    this.client = createClient(config.url, config.apiKey, {
+      // The background script has no session to keep; a token is passed in as is
+      auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+      global: {
+        headers: config.accessToken ? { Authorization: `Bearer ${config.accessToken}` } : {}
+      }
+    });
+  }
+
+  async pushNotes(rows: RemoteNoteInput[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.client.from(NOTES_TABLE).upsert(rows, { onConflict: 'id' });
+    this.check(error);
+  }
+
+  async purgeNote(noteId: string, purgedAt: string): Promise<void> {
+    const tombstone: RemoteNoteInput = {
+      id: noteId,
+      title: '',
+      content: '',
+      is_rich_text: false,
+      tags: [],
+      notebook_id: null,
+      attachments: [],
+      created_at: purgedAt,
+      updated_at: purgedAt,
+      version: 0,
+      deleted_at: purgedAt,
+      purged_at: purgedAt,
+      parents: null
+    };
+    const { error } = await this.client.from(NOTES_TABLE).upsert(tombstone, { onConflict: 'id' });
+    this.check(error);
+
+    const { error: attachmentError } = await this.client
+      .from(ATTACHMENTS_TABLE)
+      .update({ data: null, deleted_at: purgedAt })
+      .eq('note_id', noteId)
+      .is('deleted_at', null);
+    this.check(attachmentError);
+  }
+
+  async pushAttachment(row: RemoteAttachmentInput): Promise<void> {
+    const { error } = await this.client.from(ATTACHMENTS_TABLE).upsert(row, { onConflict: 'id' });
+    this.check(error);
+  }
+
+  async pullNotes(after: number, limit: number): Promise<RemoteNoteRow[]> {
+    const { data, error } = await this.client
+      .from(NOTES_TABLE)
+      .select('*')
+      .gt('server_seq', after)
+      .order('server_seq', { ascending: true })
+      .limit(limit);
+    this.check(error);
+    return (data || []) as RemoteNoteRow[];
+  }
+
+  async pullAttachments(after: number, limit: number): Promise<RemoteAttachmentRow[]> {
+    const { data, error } = await this.client
+      .from(ATTACHMENTS_TABLE)
+      .select('*')
+      .gt('server_seq', after)
+      .order('server_seq', { ascending: true })
+      .limit(limit);
+    this.check(error);
+    return (data || []) as RemoteAttachmentRow[];
+  }
+
+  private check(error: { message: string } | null): void {
+    if (error) {
+      throw new Error(`Sync server error: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Talks to the self-hosted server in backend/, which keeps the same rows
+ * behind its /sync routes and answers with { data } or { error }
+ */
+export class ServerSyncRemote implements SyncRemote {
+  constructor(private config: Pick<SyncConfig, 'url' | 'apiKey'>) {}
+
+  async pushNotes(rows: RemoteNoteInput[]): Promise<void> {
+    if (rows.length === 0) return;
+    await this.request('PUT', '/sync/notes', rows);
+  }
+
+  async purgeNote(noteId: string, purgedAt: string): Promise<void> {
+    await this.request('POST', `/sync/notes/${encodeURIComponent(noteId)}/purge`, { purgedAt });
+  }
+
+  async pushAttachment(row: RemoteAttachmentInput): Promise<void> {
+    await this.request('PUT', '/sync/attachments', row);
+  }
+
+  async pullNotes(after: number, limit: number): Promise<RemoteNoteRow[]> {
+    return this.request('GET', `/sync/notes?after=${after}&limit=${limit}`);
+  }
+
+  async pullAttachments(after: number, limit: number): Promise<RemoteAttachmentRow[]> {
+    return this.request('GET', `/sync/attachments?after=${after}&limit=${limit}`);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.url}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new Error(`Sync server error: ${(error as Error).message}`);
+    }
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Sync server error: ${payload.error || response.statusText}`);
+    }
+    return payload.data as T;
+  }
+}
+
+export const createSyncRemote = (config: SyncConfig): SyncRemote =>
+  config.provider === 'server' ? new ServerSyncRemote(config) : new SupabaseSyncRemote(config);
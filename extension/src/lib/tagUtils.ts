@@ -0,0 +1,38 @@
+/**
+ * Tag helpers shared by NotesDB and the UI
+ *
+ * Tags are stored lowercase with collapsed whitespace so that "Work",
+ * " work " and "WORK" all end up as the same entry in the tags index.
+ */
+
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Normalize a single tag, returning an empty string for invalid input
+ */
+export function normalizeTag(tag: string): string {
+  return (tag || '')
+    .replace(/^#+/, '')
+    .replace(/[\s,]+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize a list of tags, dropping empties and duplicates while keeping order
+ */
+export function normalizeTags(tags: string[] | undefined): string[] {
+  if (!tags) return [];
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  tags.forEach(tag => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !seen.has(normalized)) {
+      seen.add(normalized);
+      result.push(normalized);
+    }
+  });
+  return result;
+}
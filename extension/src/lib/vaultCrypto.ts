@@ -0,0 +1,134 @@
+/**
+ * WebCrypto helpers for the encrypted vault
+ *
+ * Keys are AES-GCM 256 derived from the passphrase with PBKDF2-SHA256.
+ * Encrypted text is stored as "enc:v1:<iv>:<ciphertext>" (base64), so it
+ * fits in the same string fields as plaintext and old records stay readable.
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+/**
+ * The vault is enabled but no key is available
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The vault is locked; unlock it with your passphrase');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function generateSalt(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+}
+
+/**
+ * Derive the vault key from a passphrase
+ * The key is extractable so the background script can keep it in session
+ * storage across service worker restarts.
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function exportKey(key: CryptoKey): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+export async function importKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBytes(rawKey), 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return `${ENCRYPTED_PREFIX}${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a value written by encryptText; plaintext is returned unchanged
+ * Throws WrongPassphraseError when the key doesn't match.
+ */
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  if (!isEncryptedText(value)) return value;
+
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      key,
+      base64ToBytes(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails for a wrong key as well as for tampered data
+    throw new WrongPassphraseError();
+  }
+}
+
+/**
+ * Encrypt binary data; the result holds the IV followed by the ciphertext
+ */
+export async function encryptBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await blob.arrayBuffer());
+  return new Blob([iv, ciphertext], { type: 'application/octet-stream' });
+}
+
+export async function decryptBlob(key: CryptoKey, blob: Blob, type: string): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+      key,
+      bytes.subarray(IV_LENGTH)
+    );
+    return new Blob([plaintext], { type });
+  } catch {
+    throw new WrongPassphraseError();
+  }
+}
@@ -0,0 +1,18 @@
+// Entry point of the full-page workspace (workspace.html)
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import Workspace from './components/Workspace';
+import { ThemeManager } from './UI/component';
+
+const appContainer = document.getElementById('root');
+if (appContainer) {
+  appContainer.className = 'ga-notes-container workspace-page';
+  ThemeManager.initialize(appContainer);
+
+  // Same stylesheet the panel puts in its shadow root
+  const style = document.createElement('style');
+  style.textContent = require('./styles/index.css').default;
+  document.head.appendChild(style);
+
+  createRoot(appContainer).render(React.createElement(Workspace));
+}
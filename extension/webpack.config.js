@@ -6,7 +6,8 @@ const webpack = require('webpack');
 module.exports = {
   entry: {
     content: './src/content.ts',
-    background: './src/background.ts'
+    background: './src/background.ts',
+    workspace: './src/workspace.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -46,7 +47,8 @@ module.exports = {
     new CopyPlugin({
       patterns: [
         { from: "manifest.json", to: "manifest.json" },
-        { from: "icons", to: "icons" }
+        { from: "icons", to: "icons" },
+        { from: "public/workspace.html", to: "workspace.html" }
       ],
     }),
     new webpack.DefinePlugin({